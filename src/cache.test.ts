@@ -0,0 +1,198 @@
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import type { FetchFunction } from "#/parsers/helpers.js";
+import {
+  createCacheEntry,
+  createFileSystemCacheStore,
+  createMemoryCacheStore,
+} from "#/cache.js";
+import { fetchSetItems } from "#/fetchers/set/items.js";
+import { postXQuery } from "#/request.js";
+
+const SET_UUID = "41f855f5-202e-4ec9-95d6-a87b793a9dcb";
+
+function makeFetchMock(responses: Array<string>): {
+  fetch: FetchFunction;
+  bodies: Array<string>;
+} {
+  const bodies: Array<string> = [];
+
+  return {
+    bodies,
+    fetch: async (_input, init) => {
+      bodies.push(String(init?.body));
+
+      return new Response(responses[bodies.length - 1] ?? responses.at(-1));
+    },
+  };
+}
+
+describe("createMemoryCacheStore", () => {
+  it("evicts the least recently used entry", async () => {
+    const store = createMemoryCacheStore({ maxEntries: 2 });
+
+    await store.set("a", createCacheEntry("a", undefined));
+    await store.set("b", createCacheEntry("b", undefined));
+    await store.get("a");
+    await store.set("c", createCacheEntry("c", undefined));
+
+    expect(await store.get("a")).not.toBeNull();
+    expect(await store.get("b")).toBeNull();
+    expect(await store.get("c")).not.toBeNull();
+  });
+});
+
+describe("createFileSystemCacheStore", () => {
+  it("round-trips entries through the file system", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "ochre-cache-"));
+
+    try {
+      const store = createFileSystemCacheStore({ directory });
+      const entry = createCacheEntry(
+        '<result><ochre publicationDateTime="2024-01-01T00:00:00Z"/></result>',
+        1000,
+      );
+
+      expect(await store.get("missing")).toBeNull();
+
+      await store.set("key", entry);
+      expect(await store.get("key")).toEqual(entry);
+      expect(entry.publicationDateTime).toBe("2024-01-01T00:00:00Z");
+
+      await store.delete("key");
+      expect(await store.get("key")).toBeNull();
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("removes the temporary file when an entry cannot be written", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "ochre-cache-"));
+
+    try {
+      const store = createFileSystemCacheStore({ directory });
+      await mkdir(path.join(directory, "key.json"));
+      await writeFile(path.join(directory, "key.json", "child"), "");
+
+      await expect(
+        store.set("key", createCacheEntry("value", undefined)),
+      ).rejects.toThrow();
+      expect(await readdir(directory)).toEqual(["key.json"]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("response cache", () => {
+  it("replays a cached response for the same XQuery", async () => {
+    const mock = makeFetchMock([
+      '<result><ochre><items totalCount="0" page="1" pageSize="10"/></ochre></result>',
+    ]);
+    const cache = { store: createMemoryCacheStore() };
+
+    const first = await fetchSetItems(
+      { setScopeUuids: [SET_UUID], page: 1 },
+      undefined,
+      { fetch: mock.fetch, cache },
+    );
+    const second = await fetchSetItems(
+      { setScopeUuids: [SET_UUID], page: 1 },
+      undefined,
+      { fetch: mock.fetch, cache },
+    );
+    await fetchSetItems({ setScopeUuids: [SET_UUID], page: 2 }, undefined, {
+      fetch: mock.fetch,
+      cache,
+    });
+
+    expect(first.error).toBeNull();
+    expect(second).toEqual(first);
+    expect(mock.bodies).toHaveLength(2);
+  });
+
+  it("keeps responses for different headers apart", async () => {
+    const mock = makeFetchMock([
+      "<result>first</result>",
+      "<result>second</result>",
+    ]);
+    const cache = { store: createMemoryCacheStore() };
+
+    await postXQuery("query", {
+      fetch: mock.fetch,
+      cache,
+      headers: { Authorization: "Bearer a", "Accept-Language": "en" },
+    });
+    const reordered = await postXQuery("query", {
+      fetch: mock.fetch,
+      cache,
+      headers: { "accept-language": "en", authorization: "Bearer a" },
+    });
+    const otherUser = await postXQuery("query", {
+      fetch: mock.fetch,
+      cache,
+      headers: { Authorization: "Bearer b", "Accept-Language": "en" },
+    });
+
+    expect(await reordered.text()).toBe("<result>first</result>");
+    expect(await otherUser.text()).toBe("<result>second</result>");
+    expect(mock.bodies).toHaveLength(2);
+  });
+
+  it("does not cache failed responses", async () => {
+    const bodies: Array<string> = [];
+    const cache = { store: createMemoryCacheStore() };
+    const fetchMock: FetchFunction = async (_input, init) => {
+      bodies.push(String(init?.body));
+
+      return new Response("", { status: 503 });
+    };
+
+    await postXQuery("query", { fetch: fetchMock, cache });
+    const response = await postXQuery("query", { fetch: fetchMock, cache });
+
+    expect(response.status).toBe(503);
+    expect(bodies).toHaveLength(2);
+  });
+
+  it("keeps a stale entry whose publication date is unchanged", async () => {
+    const document =
+      '<result><ochre uuid="x" publicationDateTime="2024-01-01T00:00:00Z"/></result>';
+    const mock = makeFetchMock([
+      document,
+      '<result><ochre publicationDateTime="2024-01-01T00:00:00Z"/></result>',
+    ]);
+    const cache = { store: createMemoryCacheStore(), ttlMs: -1 };
+
+    await postXQuery("query", { fetch: mock.fetch, cache }, "revalidate");
+    const response = await postXQuery(
+      "query",
+      { fetch: mock.fetch, cache },
+      "revalidate",
+    );
+
+    expect(await response.text()).toBe(document);
+    expect(mock.bodies).toEqual(["query", "revalidate"]);
+  });
+
+  it("refetches a stale entry whose publication date changed", async () => {
+    const mock = makeFetchMock([
+      '<result><ochre publicationDateTime="2024-01-01T00:00:00Z"/></result>',
+      '<result><ochre publicationDateTime="2025-01-01T00:00:00Z"/></result>',
+      '<result><ochre uuid="x" publicationDateTime="2025-01-01T00:00:00Z"/></result>',
+    ]);
+    const cache = { store: createMemoryCacheStore(), ttlMs: -1 };
+
+    await postXQuery("query", { fetch: mock.fetch, cache }, "revalidate");
+    const response = await postXQuery(
+      "query",
+      { fetch: mock.fetch, cache },
+      "revalidate",
+    );
+
+    expect(await response.text()).toContain('uuid="x"');
+    expect(mock.bodies).toEqual(["query", "revalidate", "query"]);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Represents a cached OCHRE API response body
+ */
+export type OchreCacheEntry = {
+  value: string;
+  storedAt: number;
+  expiresAt: number | null;
+  publicationDateTime: string | null;
+};
+
+/**
+ * Represents a store backing the OCHRE response cache
+ *
+ * Implement it to back the cache with any key-value service, such as Redis.
+ * Keys are hex digests, so they are safe to use as file names or key suffixes.
+ */
+export type OchreCacheStore = {
+  get: (key: string) => Promise<OchreCacheEntry | null>;
+  set: (key: string, entry: OchreCacheEntry) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+};
+
+/**
+ * Represents the cache options accepted by every fetcher
+ */
+export type OchreCacheOptions = { store: OchreCacheStore; ttlMs?: number };
+
+const PUBLICATION_DATE_TIME_REGEX =
+  /<ochre\b[^>]*?\spublicationDateTime="([^"]*)"/;
+
+function isCacheEntry(value: unknown): value is OchreCacheEntry {
+  if (typeof value !== "object" || value == null) {
+    return false;
+  }
+
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.value === "string" &&
+    typeof entry.storedAt === "number" &&
+    (entry.expiresAt === null || typeof entry.expiresAt === "number") &&
+    (entry.publicationDateTime === null ||
+      typeof entry.publicationDateTime === "string")
+  );
+}
+
+/**
+ * Derive the cache key of an XQuery request
+ *
+ * The caller's headers are part of the key, since an `Authorization` or
+ * `Accept-Language` header can change what the endpoint returns. Header names
+ * are compared case-insensitively and in any order.
+ *
+ * @param parameters - The request to derive the key of
+ * @param parameters.url - The URL the XQuery is posted to
+ * @param parameters.xquery - The XQuery body
+ * @param parameters.headers - The headers sent with the request
+ * @returns The SHA-256 hex digest of the request
+ * @internal
+ */
+export async function getCacheKey(parameters: {
+  url: string;
+  xquery: string;
+  headers?: Record<string, string>;
+}): Promise<string> {
+  const { url, xquery, headers = {} } = parameters;
+  const headerLines = Object.entries(headers)
+    .map(([name, value]) => `${name.toLowerCase()}: ${value}`)
+    .toSorted((a, b) => a.localeCompare(b, "en-US"));
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode([url, ...headerLines, xquery].join("\n")),
+  );
+
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+/**
+ * Read the publication date of the top-level OCHRE document in a raw response
+ * @param value - The raw XML response body
+ * @returns The `publicationDateTime` of the first `<ochre>` element, if any
+ * @internal
+ */
+export function getResponsePublicationDateTime(value: string): string | null {
+  const publicationDateTime = PUBLICATION_DATE_TIME_REGEX.exec(value)?.[1];
+
+  return publicationDateTime != null && publicationDateTime !== ""
+    ? publicationDateTime
+    : null;
+}
+
+/**
+ * Build a cache entry for a response body
+ * @param value - The raw response body
+ * @param ttlMs - How long the entry stays fresh, or forever when omitted
+ * @returns The cache entry
+ * @internal
+ */
+export function createCacheEntry(
+  value: string,
+  ttlMs: number | undefined,
+): OchreCacheEntry {
+  const storedAt = Date.now();
+
+  return {
+    value,
+    storedAt,
+    expiresAt: ttlMs == null ? null : storedAt + ttlMs,
+    publicationDateTime: getResponsePublicationDateTime(value),
+  };
+}
+
+/**
+ * Whether a cache entry is still fresh
+ * @param entry - The cache entry to check
+ * @returns True if the entry has not expired
+ * @internal
+ */
+export function isCacheEntryFresh(entry: OchreCacheEntry): boolean {
+  return entry.expiresAt == null || entry.expiresAt > Date.now();
+}
+
+/**
+ * Creates an in-memory cache store that evicts the least recently used entry
+ * once it holds more than `maxEntries` entries
+ *
+ * @param options - Options for the store
+ * @param options.maxEntries - The maximum number of entries to keep, defaulting to 500
+ * @returns The cache store
+ */
+export function createMemoryCacheStore(
+  options: { maxEntries?: number } = {},
+): OchreCacheStore {
+  const maxEntries = options.maxEntries ?? 500;
+  const entries = new Map<string, OchreCacheEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry == null) {
+        return null;
+      }
+
+      entries.delete(key);
+      entries.set(key, entry);
+
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+
+      for (const oldestKey of entries.keys()) {
+        if (entries.size <= maxEntries) {
+          break;
+        }
+
+        entries.delete(oldestKey);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Creates a cache store that keeps one JSON file per entry in a directory
+ *
+ * The Node.js file system modules are only loaded on first use, so importing
+ * the SDK in a runtime without a file system stays possible.
+ *
+ * @param options - Options for the store
+ * @param options.directory - The directory to keep the entries in, created on first write
+ * @returns The cache store
+ */
+export function createFileSystemCacheStore(options: {
+  directory: string;
+}): OchreCacheStore {
+  const { directory } = options;
+
+  async function getEntryPath(key: string): Promise<string> {
+    const { default: path } = await import("node:path");
+
+    return path.join(directory, `${key}.json`);
+  }
+
+  return {
+    async get(key) {
+      const { readFile } = await import("node:fs/promises");
+
+      try {
+        const entry = JSON.parse(
+          await readFile(await getEntryPath(key), "utf8"),
+        ) as unknown;
+
+        return isCacheEntry(entry) ? entry : null;
+      } catch {
+        return null;
+      }
+    },
+    async set(key, entry) {
+      const { mkdir, rename, rm, writeFile } = await import("node:fs/promises");
+      const entryPath = await getEntryPath(key);
+      const temporaryPath = `${entryPath}.${crypto.randomUUID()}.tmp`;
+
+      await mkdir(directory, { recursive: true });
+      try {
+        await writeFile(temporaryPath, JSON.stringify(entry), "utf8");
+        await rename(temporaryPath, entryPath);
+      } catch (error) {
+        await rm(temporaryPath, { force: true });
+        throw error;
+      }
+    },
+    async delete(key) {
+      const { rm } = await import("node:fs/promises");
+
+      await rm(await getEntryPath(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { FetchFunction } from "#/parsers/helpers.js";
+import { createOchreClient } from "#/client.js";
+
+const SET_UUID = "41f855f5-202e-4ec9-95d6-a87b793a9dcb";
+const MIRROR_URL = "https://mirror.example.org/ochre/v2/ochre.php";
+
+function makeFetchMock(body: string): {
+  fetch: FetchFunction;
+  calls: Array<{ input: string; init: RequestInit | undefined }>;
+} {
+  const calls: Array<{ input: string; init: RequestInit | undefined }> = [];
+
+  return {
+    calls,
+    fetch: async (input, init) => {
+      calls.push({ input: String(input), init });
+
+      return new Response(body);
+    },
+  };
+}
+
+describe("createOchreClient", () => {
+  it("sends every request to the configured base URL with the shared headers", async () => {
+    const mock = makeFetchMock(
+      '<result><ochre><items totalCount="0" page="1" pageSize="10"/></ochre></result>',
+    );
+    const client = createOchreClient({
+      baseUrl: MIRROR_URL,
+      fetch: mock.fetch,
+      headers: { Authorization: "Bearer token" },
+    });
+
+    const result = await client.fetchSetItems({
+      setScopeUuids: [SET_UUID],
+      page: 1,
+    });
+
+    expect(result.error).toBeNull();
+    expect(mock.calls).toHaveLength(1);
+    expect(mock.calls[0]?.input).toBe(`${MIRROR_URL}?xquery&xsl=none&lang="*"`);
+    expect(mock.calls[0]?.init?.headers).toMatchObject({
+      Authorization: "Bearer token",
+      "Content-Type": "application/xquery",
+    });
+  });
+
+  it("lets per-call options take precedence over the client configuration", async () => {
+    const clientMock = makeFetchMock("<result><ochre/></result>");
+    const callMock = makeFetchMock("<result><ochre/></result>");
+    const client = createOchreClient({
+      fetch: clientMock.fetch,
+      headers: { "X-Site": "client", "X-Shared": "client" },
+    });
+
+    await client.fetchSetPropertyValues(
+      {
+        setScopeUuids: [SET_UUID],
+        attributes: { bibliographies: true, periods: false },
+      },
+      { fetch: callMock.fetch, headers: { "X-Shared": "call" } },
+    );
+
+    expect(clientMock.calls).toHaveLength(0);
+    expect(callMock.calls[0]?.init?.headers).toMatchObject({
+      "X-Site": "client",
+      "X-Shared": "call",
+    });
+  });
+
+  it("passes the client configuration to the combined Set search", async () => {
+    const mock = makeFetchMock(
+      '<result><ochre><items totalCount="0" page="1" pageSize="10"/></ochre></result>',
+    );
+    const client = createOchreClient({
+      baseUrl: MIRROR_URL,
+      fetch: mock.fetch,
+      headers: { Authorization: "Bearer token" },
+      shouldThrow: true,
+    });
+
+    const result = await client.fetchSetSearch({
+      setScopeUuids: [SET_UUID],
+      page: 1,
+      attributes: { categories: true },
+    });
+
+    expect(result.totalCount).toBe(0);
+    expect(mock.calls).toHaveLength(1);
+    expect(mock.calls[0]?.input).toBe(`${MIRROR_URL}?xquery&xsl=none&lang="*"`);
+    expect(mock.calls[0]?.init?.headers).toMatchObject({
+      Authorization: "Bearer token",
+    });
+
+    const failingClient = createOchreClient({
+      fetch: async () => new Response("", { status: 500 }),
+      shouldThrow: true,
+    });
+
+    await expect(
+      failingClient.fetchSetSearch({ setScopeUuids: [SET_UUID], page: 1 }),
+    ).rejects.toThrow();
+  });
+
+  it("rejects an invalid configuration", () => {
+    expect(() => createOchreClient({ baseUrl: "not a url" })).toThrow();
+    expect(() => createOchreClient({ languages: ["english"] })).toThrow();
+  });
+});
@@ -0,0 +1,220 @@
+import * as v from "valibot";
+import type { OchreCacheOptions } from "#/cache.js";
+import type {
+  FetchFunction,
+  FetchRequestOptions,
+  FetchRetryOptions,
+} from "#/parsers/helpers.js";
+import { fetchGallery } from "#/fetchers/gallery.js";
+import { fetchItemChildren } from "#/fetchers/item-children.js";
+import { fetchItemLinks } from "#/fetchers/item-links.js";
+import { fetchItemOcrData } from "#/fetchers/item-ocr-data.js";
+import { fetchItem, fetchItems } from "#/fetchers/item.js";
+import { fetchSetItems, iterateSetItems } from "#/fetchers/set/items.js";
+import { fetchSetPropertyValues } from "#/fetchers/set/property-values.js";
+import { fetchSetSearch } from "#/fetchers/set/search.js";
+import { fetchWebsiteMetadata } from "#/fetchers/website-metadata.js";
+import { fetchWebsite } from "#/fetchers/website.js";
+import { ochreClientOptionsSchema } from "#/schemas.js";
+
+type Fetcher = (...parameters: Array<never>) => unknown;
+
+type FetcherOptions = FetchRequestOptions & {
+  languages?: ReadonlyArray<string>;
+};
+
+/**
+ * Represents the configuration shared by every method of an OCHRE client
+ */
+export type OchreClientOptions = {
+  baseUrl?: string;
+  fetch?: FetchFunction;
+  languages?: ReadonlyArray<string>;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retry?: FetchRetryOptions;
+  cache?: OchreCacheOptions;
+  shouldThrow?: boolean;
+};
+
+/**
+ * Represents an OCHRE client, exposing every fetcher bound to one configuration
+ */
+export type OchreClient = {
+  options: Readonly<OchreClientOptions>;
+  fetchItem: typeof fetchItem;
+  fetchItems: typeof fetchItems;
+  fetchItemChildren: typeof fetchItemChildren;
+  fetchItemLinks: typeof fetchItemLinks;
+  fetchItemOcrData: typeof fetchItemOcrData;
+  fetchGallery: typeof fetchGallery;
+  fetchWebsite: typeof fetchWebsite;
+  fetchWebsiteMetadata: typeof fetchWebsiteMetadata;
+  fetchSetItems: typeof fetchSetItems;
+  iterateSetItems: typeof iterateSetItems;
+  fetchSetPropertyValues: typeof fetchSetPropertyValues;
+  fetchSetSearch: typeof fetchSetSearch;
+};
+
+function mergeOptions(
+  clientOptions: OchreClientOptions,
+  options: FetcherOptions | undefined,
+  isLanguageAware: boolean,
+): FetcherOptions {
+  const mergedOptions: FetcherOptions = {
+    ...options,
+    fetch: options?.fetch ?? clientOptions.fetch,
+    baseUrl: options?.baseUrl ?? clientOptions.baseUrl,
+    headers:
+      clientOptions.headers == null && options?.headers == null
+        ? undefined
+        : { ...clientOptions.headers, ...options?.headers },
+    timeoutMs: options?.timeoutMs ?? clientOptions.timeoutMs,
+    retry: options?.retry ?? clientOptions.retry,
+    cache: options?.cache ?? clientOptions.cache,
+    shouldThrow: options?.shouldThrow ?? clientOptions.shouldThrow,
+  };
+
+  if (isLanguageAware) {
+    mergedOptions.languages = options?.languages ?? clientOptions.languages;
+  }
+
+  return mergedOptions;
+}
+
+/**
+ * Bind a fetcher to the client configuration, merging it into the options
+ * argument at the given position while keeping the fetcher's overloads intact
+ */
+function bindFetcher<TFetcher extends Fetcher>(parameters: {
+  fetcher: TFetcher;
+  optionsIndex: number;
+  clientOptions: OchreClientOptions;
+  isLanguageAware: boolean;
+}): TFetcher {
+  const { fetcher, optionsIndex, clientOptions, isLanguageAware } = parameters;
+
+  return ((...fetcherParameters: Array<unknown>) => {
+    const boundParameters = [...fetcherParameters];
+    boundParameters[optionsIndex] = mergeOptions(
+      clientOptions,
+      fetcherParameters[optionsIndex] as FetcherOptions | undefined,
+      isLanguageAware,
+    );
+
+    return (fetcher as unknown as (...parameters: Array<unknown>) => unknown)(
+      ...boundParameters,
+    );
+  }) as unknown as TFetcher;
+}
+
+/**
+ * Creates an OCHRE client whose fetchers share one configuration
+ *
+ * Options passed to an individual call take precedence over the client
+ * configuration, and headers are merged with the call's headers winning.
+ * `languages` only applies to the fetchers that parse multilingual content.
+ *
+ * @param options - The client configuration
+ * @param options.baseUrl - The OCHRE API endpoint to send requests to, for example a mirror or a local stand-in server
+ * @param options.fetch - Custom fetch function to use instead of the default fetch
+ * @param options.languages - Default language codes to parse
+ * @param options.headers - Headers sent with every request
+ * @param options.timeoutMs - Abort attempts that have not responded after this many milliseconds
+ * @param options.retry - The retry policy for transient failures
+ * @param options.cache - The response cache shared by every fetcher
+ * @param options.shouldThrow - Throw typed OCHRE errors instead of returning them
+ * @returns The OCHRE client
+ */
+export function createOchreClient(
+  options: OchreClientOptions = {},
+): OchreClient {
+  const clientOptions: OchreClientOptions = {
+    ...v.parse(ochreClientOptionsSchema, {
+      baseUrl: options.baseUrl,
+      languages: options.languages,
+      timeoutMs: options.timeoutMs,
+      retry: options.retry,
+    }),
+    fetch: options.fetch,
+    headers: options.headers,
+    cache: options.cache,
+    shouldThrow: options.shouldThrow,
+  };
+
+  return {
+    options: Object.freeze(clientOptions),
+    fetchItem: bindFetcher({
+      fetcher: fetchItem,
+      optionsIndex: 1,
+      clientOptions,
+      isLanguageAware: true,
+    }),
+    fetchItems: bindFetcher({
+      fetcher: fetchItems,
+      optionsIndex: 1,
+      clientOptions,
+      isLanguageAware: true,
+    }),
+    fetchItemChildren: bindFetcher({
+      fetcher: fetchItemChildren,
+      optionsIndex: 1,
+      clientOptions,
+      isLanguageAware: true,
+    }),
+    fetchItemLinks: bindFetcher({
+      fetcher: fetchItemLinks,
+      optionsIndex: 1,
+      clientOptions,
+      isLanguageAware: true,
+    }),
+    fetchItemOcrData: bindFetcher({
+      fetcher: fetchItemOcrData,
+      optionsIndex: 2,
+      clientOptions,
+      isLanguageAware: false,
+    }),
+    fetchGallery: bindFetcher({
+      fetcher: fetchGallery,
+      optionsIndex: 1,
+      clientOptions,
+      isLanguageAware: true,
+    }),
+    fetchWebsite: bindFetcher({
+      fetcher: fetchWebsite,
+      optionsIndex: 1,
+      clientOptions,
+      isLanguageAware: true,
+    }),
+    fetchWebsiteMetadata: bindFetcher({
+      fetcher: fetchWebsiteMetadata,
+      optionsIndex: 1,
+      clientOptions,
+      isLanguageAware: true,
+    }),
+    fetchSetItems: bindFetcher({
+      fetcher: fetchSetItems,
+      optionsIndex: 2,
+      clientOptions,
+      isLanguageAware: true,
+    }),
+    iterateSetItems: bindFetcher({
+      fetcher: iterateSetItems,
+      optionsIndex: 2,
+      clientOptions,
+      isLanguageAware: true,
+    }),
+    fetchSetPropertyValues: bindFetcher({
+      fetcher: fetchSetPropertyValues,
+      optionsIndex: 1,
+      clientOptions,
+      isLanguageAware: false,
+    }),
+    fetchSetSearch: bindFetcher({
+      fetcher: fetchSetSearch,
+      optionsIndex: 2,
+      clientOptions,
+      isLanguageAware: true,
+    }),
+  };
+}
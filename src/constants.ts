@@ -82,6 +82,24 @@ export const XML_PARSER_OPTIONS: X2jOptions = {
 
 export const DEFAULT_LANGUAGES = ["eng"] as const;
 
+/**
+ * The default OCHRE API endpoint, used whenever no `baseUrl` is configured
+ */
+export const OCHRE_API_URL =
+  "https://ochre.lib.uchicago.edu/ochre/v2/ochre.php";
+
+/**
+ * The HTTP statuses retried by default when a retry policy is configured
+ */
+export const DEFAULT_RETRYABLE_STATUS_CODES: ReadonlyArray<number> = [
+  408, 425, 429, 500, 502, 503, 504,
+];
+
+/**
+ * The most buckets a property value histogram returns
+ */
+export const MAX_HISTOGRAM_BUCKET_COUNT = 1000;
+
 export const BELONGS_TO_COLLECTION_UUID =
   "30054cb2-909a-4f34-8db9-8fe7369d691d";
 
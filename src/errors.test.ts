@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { FetchFunction } from "#/parsers/helpers.js";
+import {
+  OchreCategoryMismatchError,
+  OchreHttpError,
+  OchreNotFoundError,
+  OchreParameterError,
+  OchreSchemaError,
+} from "#/errors.js";
+import { fetchItem } from "#/fetchers/item.js";
+import { fetchSetItems } from "#/fetchers/set/items.js";
+import { fetchWebsite } from "#/fetchers/website.js";
+
+const ITEM_UUID = "5fe8d5bf-0b53-4a1a-a1f2-0a4b2a8ba1a9";
+const SET_UUID = "41f855f5-202e-4ec9-95d6-a87b793a9dcb";
+
+function respondWith(body: string, init?: ResponseInit): FetchFunction {
+  return async () => new Response(body, init);
+}
+
+describe("typed errors", () => {
+  it("reports HTTP failures with their status", async () => {
+    const result = await fetchItem(ITEM_UUID, {
+      fetch: respondWith("", { status: 503, statusText: "Unavailable" }),
+    });
+
+    expect(result.ochreError).toBeInstanceOf(OchreHttpError);
+    expect(result.ochreError?.kind).toBe("http");
+    if (result.ochreError?.kind === "http") {
+      expect(result.ochreError.status).toBe(503);
+      expect(result.ochreError.statusText).toBe("Unavailable");
+    }
+  });
+
+  it("reports unreachable endpoints as HTTP failures without a status", async () => {
+    const result = await fetchItem(ITEM_UUID, {
+      fetch: async () => {
+        throw new TypeError("fetch failed");
+      },
+    });
+
+    expect(result.ochreError?.kind).toBe("http");
+    if (result.ochreError?.kind === "http") {
+      expect(result.ochreError.status).toBeNull();
+    }
+  });
+
+  it("reports schema failures with the issue paths", async () => {
+    const result = await fetchSetItems(
+      { setScopeUuids: [SET_UUID], page: 1 },
+      undefined,
+      {
+        fetch: respondWith(
+          '<result><ochre><items totalCount="many"/></ochre></result>',
+        ),
+      },
+    );
+
+    expect(result.ochreError).toBeInstanceOf(OchreSchemaError);
+    if (result.ochreError?.kind === "schema") {
+      expect(result.ochreError.issues.length).toBeGreaterThan(0);
+      expect(result.ochreError.paths).toContain(
+        "result.ochre.items.totalCount",
+      );
+    }
+  });
+
+  it("reports missing items and websites as not found", async () => {
+    const itemResult = await fetchItem(ITEM_UUID, {
+      fetch: respondWith("<result/>"),
+    });
+    const websiteResult = await fetchWebsite("Missing", {
+      fetch: respondWith("<result/>"),
+    });
+
+    expect(itemResult.ochreError).toBeInstanceOf(OchreNotFoundError);
+    expect(websiteResult.ochreError).toBeInstanceOf(OchreNotFoundError);
+    if (websiteResult.ochreError?.kind === "notFound") {
+      expect(websiteResult.ochreError.identifier).toBe("missing");
+    }
+  });
+
+  it("reports invalid parameters before fetching", async () => {
+    let didFetch = false;
+    const result = await fetchItem("not-a-uuid", {
+      fetch: async () => {
+        didFetch = true;
+        return new Response("");
+      },
+    });
+
+    expect(didFetch).toBe(false);
+    expect(result.ochreError).toBeInstanceOf(OchreParameterError);
+  });
+
+  it("reports Set items of the wrong category as a category mismatch", async () => {
+    const result = await fetchSetItems(
+      { setScopeUuids: [SET_UUID], page: 1 },
+      ["resource"],
+      {
+        fetch: respondWith(
+          '<result><ochre><items totalCount="0" page="1" pageSize="10"/></ochre></result>',
+        ),
+      },
+    );
+
+    expect(result.ochreError).toBeInstanceOf(OchreCategoryMismatchError);
+    if (result.ochreError?.kind === "categoryMismatch") {
+      expect(result.ochreError.expectedCategories).toStrictEqual(["resource"]);
+      expect(result.ochreError.receivedCategories).toStrictEqual([]);
+    }
+  });
+
+  it("throws the typed error in throwing mode", async () => {
+    await expect(
+      fetchItem(ITEM_UUID, {
+        fetch: respondWith("", { status: 500 }),
+        shouldThrow: true,
+      }),
+    ).rejects.toBeInstanceOf(OchreHttpError);
+  });
+});
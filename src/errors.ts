@@ -0,0 +1,186 @@
+import * as v from "valibot";
+
+/**
+ * The kind of an OCHRE error, used to branch on failures without matching
+ * error messages
+ */
+export type OchreErrorKind =
+  | "http"
+  | "schema"
+  | "notFound"
+  | "parameter"
+  | "categoryMismatch"
+  | "aborted"
+  | "unknown";
+
+type SchemaIssues = ReadonlyArray<v.BaseIssue<unknown>>;
+
+function getIssuePaths(issues: SchemaIssues): Array<string> {
+  return issues.map((issue) => v.getDotPath(issue) ?? "");
+}
+
+/**
+ * Base class of every error reported by the SDK. Errors that do not fit a
+ * more specific class are reported with the `"unknown"` kind.
+ */
+export class OchreError extends Error {
+  readonly kind: OchreErrorKind = "unknown";
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "OchreError";
+  }
+}
+
+/**
+ * The OCHRE API could not be reached, or responded with a non-2xx status.
+ * `status` is null when no response was received at all.
+ */
+export class OchreHttpError extends OchreError {
+  override readonly kind = "http";
+  readonly status: number | null;
+  readonly statusText: string;
+
+  constructor(
+    message: string,
+    response: Pick<Response, "status" | "statusText"> | null,
+    options?: ErrorOptions,
+  ) {
+    super(message, options ?? { cause: response?.statusText });
+    this.name = "OchreHttpError";
+    this.status = response?.status ?? null;
+    this.statusText = response?.statusText ?? "";
+  }
+}
+
+/**
+ * The OCHRE API responded with data that does not match the expected XML
+ * schema. `paths` holds the dot path of each issue, or an empty string for
+ * issues at the root.
+ */
+export class OchreSchemaError extends OchreError {
+  override readonly kind = "schema";
+  readonly issues: SchemaIssues;
+  readonly paths: Array<string>;
+
+  constructor(message: string, issues: SchemaIssues) {
+    super(message, { cause: issues });
+    this.name = "OchreSchemaError";
+    this.issues = issues;
+    this.paths = getIssuePaths(issues);
+  }
+}
+
+/**
+ * No OCHRE document exists for the requested UUID or website abbreviation
+ */
+export class OchreNotFoundError extends OchreError {
+  override readonly kind = "notFound";
+  readonly identifier: string;
+
+  constructor(message: string, identifier: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "OchreNotFoundError";
+    this.identifier = identifier;
+  }
+}
+
+/**
+ * The parameters or options passed to a fetcher are invalid. `issues` and
+ * `paths` are filled in when the parameters failed schema validation.
+ */
+export class OchreParameterError extends OchreError {
+  override readonly kind = "parameter";
+  readonly issues: SchemaIssues;
+  readonly paths: Array<string>;
+
+  constructor(
+    message: string,
+    options?: ErrorOptions & { issues?: SchemaIssues },
+  ) {
+    super(message, options);
+    this.name = "OchreParameterError";
+    this.issues = options?.issues ?? [];
+    this.paths = getIssuePaths(this.issues);
+  }
+}
+
+/**
+ * The fetched item, or the items inside it, are not of the requested category
+ */
+export class OchreCategoryMismatchError extends OchreError {
+  override readonly kind = "categoryMismatch";
+  readonly expectedCategories: ReadonlyArray<string>;
+  readonly receivedCategories: ReadonlyArray<string>;
+
+  constructor(
+    message: string,
+    categories: {
+      expected: ReadonlyArray<string>;
+      received: ReadonlyArray<string>;
+    },
+  ) {
+    super(message, { cause: categories });
+    this.name = "OchreCategoryMismatchError";
+    this.expectedCategories = categories.expected;
+    this.receivedCategories = categories.received;
+  }
+}
+
+/**
+ * The request was cancelled through the `signal` passed to the fetcher
+ */
+export class OchreAbortError extends OchreError {
+  override readonly kind = "aborted";
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "OchreAbortError";
+  }
+}
+
+/**
+ * Represents any error reported by a fetcher, discriminated by `kind`
+ */
+export type OchreFetchError =
+  | OchreHttpError
+  | OchreSchemaError
+  | OchreNotFoundError
+  | OchreParameterError
+  | OchreCategoryMismatchError
+  | OchreAbortError
+  | (OchreError & { kind: "unknown" });
+
+/**
+ * Normalize anything caught by a fetcher into an OCHRE error
+ * @param error - The caught value
+ * @param fallbackMessage - The message to use when the value is not an Error
+ * @returns The error itself when it already is an OCHRE error, or a wrapping error
+ * @internal
+ */
+export function toOchreError(
+  error: unknown,
+  fallbackMessage: string,
+): OchreFetchError {
+  if (error instanceof OchreError) {
+    return error as OchreFetchError;
+  }
+
+  if (error instanceof Error && error.name === "AbortError") {
+    return new OchreAbortError("The OCHRE request was aborted", {
+      cause: error,
+    });
+  }
+
+  if (v.isValiError(error)) {
+    return new OchreParameterError(error.message, {
+      cause: error,
+      issues: error.issues,
+    });
+  }
+
+  return new OchreError(
+    error instanceof Error ? error.message : fallbackMessage,
+    { cause: error },
+  ) as OchreFetchError;
+}
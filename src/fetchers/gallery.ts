@@ -1,6 +1,7 @@
 /* eslint-disable unicorn/no-incorrect-template-string-interpolation */
 import { XMLParser } from "fast-xml-parser";
 import * as v from "valibot";
+import type { OchreFetchError } from "#/errors.js";
 import type {
   FetchBaseOptions,
   FetchLanguages,
@@ -9,7 +10,9 @@ import type {
 import type { Gallery } from "#/types/index.js";
 import type { XMLGalleryData } from "#/xml/types.js";
 import { DEFAULT_LANGUAGES, XML_PARSER_OPTIONS } from "#/constants.js";
+import { OchreHttpError } from "#/errors.js";
 import { parseGallery } from "#/parsers/index.js";
+import { postXQuery } from "#/request.js";
 import { gallerySchema, iso639_3Schema } from "#/schemas.js";
 import {
   createSchemaValidationError,
@@ -136,8 +139,14 @@ export async function fetchGallery<
       gallery: Gallery<FetchLanguages<TLanguages>>;
       error: null;
       detailedError: null;
+      ochreError: null;
+    }
+  | {
+      gallery: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
     }
-  | { gallery: null; error: string; detailedError: string }
 >;
 export async function fetchGallery(
   parameters: { uuid: string; filter?: string; page: number; perPage: number },
@@ -147,26 +156,29 @@ export async function fetchGallery(
       gallery: Gallery<ReadonlyArray<string>>;
       error: null;
       detailedError: null;
+      ochreError: null;
+    }
+  | {
+      gallery: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
     }
-  | { gallery: null; error: string; detailedError: string }
 > {
   try {
     const { uuid, filter, page, perPage } = v.parse(gallerySchema, parameters);
     const requestedLanguages: ReadonlyArray<string> =
       options?.languages == null ? [] : parseLanguages(options.languages);
 
-    const response = await (options?.fetch ?? fetch)(
-      'https://ochre.lib.uchicago.edu/ochre/v2/ochre.php?xquery&xsl=none&lang="*"',
-      {
-        method: "POST",
-        body: buildXQuery({ uuid, filter, page, perPage }),
-        headers: { "Content-Type": "application/xquery" },
-      },
+    const response = await postXQuery(
+      buildXQuery({ uuid, filter, page, perPage }),
+      options,
     );
     if (!response.ok) {
-      throw new Error("Error fetching gallery items, please try again later.", {
-        cause: response.statusText,
-      });
+      throw new OchreHttpError(
+        "Error fetching gallery items, please try again later.",
+        response,
+      );
     }
 
     const dataRaw = await response.text();
@@ -182,11 +194,11 @@ export async function fetchGallery(
     const languages = resolveGalleryLanguages(output, requestedLanguages);
     const gallery = parseGallery(output, { languages });
 
-    return { gallery, error: null, detailedError: null };
+    return { gallery, error: null, detailedError: null, ochreError: null };
   } catch (error) {
     return {
       gallery: null,
-      ...getErrorOutput(error, "Failed to fetch gallery"),
+      ...getErrorOutput(error, "Failed to fetch gallery", options),
     };
   }
 }
@@ -1,5 +1,6 @@
 import { XMLParser } from "fast-xml-parser";
 import * as v from "valibot";
+import type { OchreFetchError } from "#/errors.js";
 import type { FetchBaseOptions, FetchLanguages } from "#/parsers/helpers.js";
 import type {
   ContainedItemCategoryFromOption,
@@ -14,7 +15,9 @@ import type {
 } from "#/types/index.js";
 import type { XMLItemLinksData } from "#/xml/types.js";
 import { DEFAULT_LANGUAGES, XML_PARSER_OPTIONS } from "#/constants.js";
+import { OchreHttpError } from "#/errors.js";
 import { parseLinkedItems } from "#/parsers/index.js";
+import { postXQuery } from "#/request.js";
 import { iso639_3Schema, uuidSchema } from "#/schemas.js";
 import {
   createSchemaValidationError,
@@ -27,8 +30,13 @@ import { restoreXMLMetadata } from "#/xml/metadata.js";
 import { XMLItemLinksData as XMLItemLinksDataSchema } from "#/xml/schemas.js";
 
 type FetchItemChildrenResult<TItems> = Promise<
-  | { items: TItems; error: null; detailedError: null }
-  | { items: null; error: string; detailedError: string }
+  | { items: TItems; error: null; detailedError: null; ochreError: null }
+  | {
+      items: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
+    }
 >;
 
 type ItemChildCategory<U extends ItemCategory> = U extends "tree"
@@ -265,18 +273,12 @@ export async function fetchItemChildren(
     const requestedLanguages: ReadonlyArray<string> =
       options?.languages == null ? [] : parseLanguages(options.languages);
 
-    const response = await (options?.fetch ?? fetch)(
-      'https://ochre.lib.uchicago.edu/ochre/v2/ochre.php?xquery&xsl=none&lang="*"',
-      {
-        method: "POST",
-        body: buildXQuery(parsedUuid, options?.category),
-        headers: { "Content-Type": "application/xquery" },
-      },
+    const response = await postXQuery(
+      buildXQuery(parsedUuid, options?.category),
+      options,
     );
     if (!response.ok) {
-      throw new Error("Failed to fetch OCHRE item children", {
-        cause: response.statusText,
-      });
+      throw new OchreHttpError("Failed to fetch OCHRE item children", response);
     }
 
     const dataRaw = await response.text();
@@ -308,8 +310,8 @@ export async function fetchItemChildren(
       >
     >;
 
-    return { items, error: null, detailedError: null };
+    return { items, error: null, detailedError: null, ochreError: null };
   } catch (error) {
-    return { items: null, ...getErrorOutput(error, "Unknown error") };
+    return { items: null, ...getErrorOutput(error, "Unknown error", options) };
   }
 }
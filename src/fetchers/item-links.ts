@@ -1,5 +1,6 @@
 import { XMLParser } from "fast-xml-parser";
 import * as v from "valibot";
+import type { OchreFetchError } from "#/errors.js";
 import type { FetchBaseOptions, FetchLanguages } from "#/parsers/helpers.js";
 import type {
   ContainedItemCategoryFromOption,
@@ -10,7 +11,9 @@ import type {
 } from "#/types/index.js";
 import type { XMLItemLinksData } from "#/xml/types.js";
 import { DEFAULT_LANGUAGES, XML_PARSER_OPTIONS } from "#/constants.js";
+import { OchreHttpError } from "#/errors.js";
 import { parseLinkedItems } from "#/parsers/index.js";
+import { postXQuery } from "#/request.js";
 import { iso639_3Schema, uuidSchema } from "#/schemas.js";
 import {
   createSchemaValidationError,
@@ -172,8 +175,14 @@ export async function fetchItemLinks<
       >;
       error: null;
       detailedError: null;
+      ochreError: null;
+    }
+  | {
+      items: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
     }
-  | { items: null; error: string; detailedError: string }
 >;
 export async function fetchItemLinks(
   uuid: string,
@@ -187,26 +196,23 @@ export async function fetchItemLinks(
       >;
       error: null;
       detailedError: null;
+      ochreError: null;
+    }
+  | {
+      items: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
     }
-  | { items: null; error: string; detailedError: string }
 > {
   try {
     const parsedUuid = v.parse(uuidSchema, uuid);
     const requestedLanguages: ReadonlyArray<string> =
       options?.languages == null ? [] : parseLanguages(options.languages);
 
-    const response = await (options?.fetch ?? fetch)(
-      'https://ochre.lib.uchicago.edu/ochre/v2/ochre.php?xquery&xsl=none&lang="*"',
-      {
-        method: "POST",
-        body: buildXQuery(parsedUuid),
-        headers: { "Content-Type": "application/xquery" },
-      },
-    );
+    const response = await postXQuery(buildXQuery(parsedUuid), options);
     if (!response.ok) {
-      throw new Error("Failed to fetch OCHRE item links", {
-        cause: response.statusText,
-      });
+      throw new OchreHttpError("Failed to fetch OCHRE item links", response);
     }
 
     const dataRaw = await response.text();
@@ -232,8 +238,8 @@ export async function fetchItemLinks(
       languages,
     });
 
-    return { items, error: null, detailedError: null };
+    return { items, error: null, detailedError: null, ochreError: null };
   } catch (error) {
-    return { items: null, ...getErrorOutput(error, "Unknown error") };
+    return { items: null, ...getErrorOutput(error, "Unknown error", options) };
   }
 }
@@ -1,8 +1,12 @@
 /* eslint-disable unicorn/no-incorrect-template-string-interpolation */
 import { XMLParser } from "fast-xml-parser";
 import * as v from "valibot";
+import type { OchreFetchError } from "#/errors.js";
+import type { FetchRequestOptions } from "#/parsers/helpers.js";
 import type { OcrString } from "#/types/index.js";
 import { XML_PARSER_OPTIONS } from "#/constants.js";
+import { OchreHttpError, OchreNotFoundError } from "#/errors.js";
+import { postXQuery } from "#/request.js";
 import { itemOcrDataParametersSchema } from "#/schemas.js";
 import {
   createSchemaValidationError,
@@ -174,17 +178,23 @@ return <ochre><ocrStrings found="{exists($ochre)}">{$ocrStrings}</ocrStrings></o
 export async function fetchItemOcrData(
   uuid: string,
   value: string,
-  options?: {
+  options?: FetchRequestOptions & {
     matchMode?: "includes" | "exact";
     isCaseSensitive?: boolean;
-    fetch?: (
-      input: string | URL | globalThis.Request,
-      init?: RequestInit,
-    ) => Promise<Response>;
   },
 ): Promise<
-  | { ocrStrings: Array<OcrString>; error: null; detailedError: null }
-  | { ocrStrings: null; error: string; detailedError: string }
+  | {
+      ocrStrings: Array<OcrString>;
+      error: null;
+      detailedError: null;
+      ochreError: null;
+    }
+  | {
+      ocrStrings: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
+    }
 > {
   try {
     const parameters = v.parse(itemOcrDataParametersSchema, {
@@ -205,18 +215,12 @@ export async function fetchItemOcrData(
       isCaseSensitive: parameters.isCaseSensitive,
     });
 
-    const response = await (options?.fetch ?? fetch)(
-      'https://ochre.lib.uchicago.edu/ochre/v2/ochre.php?xquery&xsl=none&lang="*"',
-      {
-        method: "POST",
-        body: xquery,
-        headers: { "Content-Type": "application/xquery" },
-      },
-    );
+    const response = await postXQuery(xquery, options);
     if (!response.ok) {
-      throw new Error(`OCHRE API responded with status: ${response.status}`, {
-        cause: response.statusText,
-      });
+      throw new OchreHttpError(
+        `OCHRE API responded with status: ${response.status}`,
+        response,
+      );
     }
 
     const dataRaw = await response.text();
@@ -234,9 +238,11 @@ export async function fetchItemOcrData(
     const { found, ocrString } = output.result.ochre.ocrStrings;
 
     if (found !== "true") {
-      throw new Error(`No OCHRE item found for UUID: ${parameters.uuid}`, {
-        cause: parameters.uuid,
-      });
+      throw new OchreNotFoundError(
+        `No OCHRE item found for UUID: ${parameters.uuid}`,
+        parameters.uuid,
+        { cause: parameters.uuid },
+      );
     }
 
     const parsedOcrStrings =
@@ -261,11 +267,11 @@ export async function fetchItemOcrData(
       }),
     );
 
-    return { ocrStrings, error: null, detailedError: null };
+    return { ocrStrings, error: null, detailedError: null, ochreError: null };
   } catch (error) {
     return {
       ocrStrings: null,
-      ...getErrorOutput(error, "Failed to fetch item OCR data"),
+      ...getErrorOutput(error, "Failed to fetch item OCR data", options),
     };
   }
 }
@@ -1,6 +1,7 @@
 import { XMLParser } from "fast-xml-parser";
 import * as v from "valibot";
 import { describe, expect, expectTypeOf, it } from "vitest";
+import type { OchreFetchError } from "#/errors.js";
 import type {
   BaseItem,
   Item,
@@ -38,7 +39,8 @@ import type {
   XMLTree,
 } from "#/xml/types.js";
 import { XML_PARSER_OPTIONS } from "#/constants.js";
-import { defineLanguages, fetchItem } from "#/fetchers/item.js";
+import { OchreHttpError } from "#/errors.js";
+import { defineLanguages, fetchItem, fetchItems } from "#/fetchers/item.js";
 import { MultilingualString } from "#/index.js";
 import { parseItem } from "#/parsers/index.js";
 import {
@@ -1290,14 +1292,25 @@ describe("fetchItem", () => {
             item: Item<"resource", never, ReadonlyArray<string>>;
             error: null;
             detailedError: null;
+            ochreError: null;
+          }
+        | {
+            item: null;
+            error: string;
+            detailedError: string;
+            ochreError: OchreFetchError;
           }
-        | { item: null; error: string; detailedError: string }
       >
     >();
     await expect(result).resolves.toStrictEqual({
       item: null,
       error: "Failed to fetch OCHRE data",
-      detailedError: "Error\nMessage: Failed to fetch OCHRE data",
+      detailedError:
+        "Error\nName: OchreHttpError\nMessage: Failed to fetch OCHRE data",
+      ochreError: new OchreHttpError("Failed to fetch OCHRE data", {
+        status: 500,
+        statusText: "",
+      }),
     });
   });
 
@@ -1324,14 +1337,25 @@ describe("fetchItem", () => {
             item: Item<"resource", never, readonly ["eng", "spa"]>;
             error: null;
             detailedError: null;
+            ochreError: null;
+          }
+        | {
+            item: null;
+            error: string;
+            detailedError: string;
+            ochreError: OchreFetchError;
           }
-        | { item: null; error: string; detailedError: string }
       >
     >();
     await expect(result).resolves.toStrictEqual({
       item: null,
       error: "Failed to fetch OCHRE data",
-      detailedError: "Error\nMessage: Failed to fetch OCHRE data",
+      detailedError:
+        "Error\nName: OchreHttpError\nMessage: Failed to fetch OCHRE data",
+      ochreError: new OchreHttpError("Failed to fetch OCHRE data", {
+        status: 500,
+        statusText: "",
+      }),
     });
   });
 
@@ -1377,8 +1401,14 @@ describe("fetchItem", () => {
             >;
             error: null;
             detailedError: null;
+            ochreError: null;
+          }
+        | {
+            item: null;
+            error: string;
+            detailedError: string;
+            ochreError: OchreFetchError;
           }
-        | { item: null; error: string; detailedError: string }
       >
     >();
     expectTypeOf(omittedTreeResult).toEqualTypeOf<
@@ -1391,8 +1421,14 @@ describe("fetchItem", () => {
             >;
             error: null;
             detailedError: null;
+            ochreError: null;
+          }
+        | {
+            item: null;
+            error: string;
+            detailedError: string;
+            ochreError: OchreFetchError;
           }
-        | { item: null; error: string; detailedError: string }
       >
     >();
     expectTypeOf(omittedResourceResult).toEqualTypeOf<
@@ -1405,8 +1441,14 @@ describe("fetchItem", () => {
             >;
             error: null;
             detailedError: null;
+            ochreError: null;
+          }
+        | {
+            item: null;
+            error: string;
+            detailedError: string;
+            ochreError: OchreFetchError;
           }
-        | { item: null; error: string; detailedError: string }
       >
     >();
     expectTypeOf(omittedTextResult).toEqualTypeOf<
@@ -1415,14 +1457,25 @@ describe("fetchItem", () => {
             item: Item<"text", never, ReadonlyArray<string>>;
             error: null;
             detailedError: null;
+            ochreError: null;
+          }
+        | {
+            item: null;
+            error: string;
+            detailedError: string;
+            ochreError: OchreFetchError;
           }
-        | { item: null; error: string; detailedError: string }
       >
     >();
     await expect(omittedTextResult).resolves.toStrictEqual({
       item: null,
       error: "Failed to fetch OCHRE data",
-      detailedError: "Error\nMessage: Failed to fetch OCHRE data",
+      detailedError:
+        "Error\nName: OchreHttpError\nMessage: Failed to fetch OCHRE data",
+      ochreError: new OchreHttpError("Failed to fetch OCHRE data", {
+        status: 500,
+        statusText: "",
+      }),
     });
     expect(omittedTextFetchCalls).toHaveLength(1);
     expect(omittedTextFetchCalls[0]?.input).toBe(
@@ -1592,6 +1645,90 @@ describe("fetchItem", () => {
   );
 });
 
+function createFetchItemsXML(
+  documents: ReadonlyArray<{
+    uuid: string;
+    category?: "tree" | "resource" | "set";
+  }>,
+): string {
+  const itemResults = documents.map(({ uuid, category }) => {
+    const ochre =
+      category == null
+        ? ""
+        : createFetchItemXML({ uuid, category }).replaceAll(/<\/?result>/g, "");
+
+    return `<itemResult uuid="${uuid}">${ochre}</itemResult>`;
+  });
+
+  return `<result>${itemResults.join("")}</result>`;
+}
+
+describe("fetchItems", () => {
+  it("fetches every UUID once in one XQuery and reports each requested outcome", async () => {
+    const [treeUuid, secondTreeUuid] = TREE_UUIDS;
+    const [resourceUuid, missingUuid] = RESOURCE_UUIDS;
+    const bodies: Array<string> = [];
+
+    const result = await fetchItems(
+      [treeUuid!, resourceUuid!, missingUuid!, treeUuid!, secondTreeUuid!],
+      {
+        category: ["tree", "set"],
+        shouldOmitEmbeddedItems: true,
+        languages: TEST_LANGUAGES,
+        fetch: async (_input, init) => {
+          bodies.push(String(init?.body));
+
+          return new Response(
+            createFetchItemsXML([
+              { uuid: treeUuid!, category: "tree" },
+              { uuid: resourceUuid!, category: "resource" },
+              { uuid: missingUuid! },
+              { uuid: secondTreeUuid!, category: "set" },
+            ]),
+          );
+        },
+      },
+    );
+
+    expect(bodies).toHaveLength(1);
+    expect(bodies[0]).toContain("for $uuid in (");
+    expect(bodies[0]).toContain("$embedded-child-name");
+    expect(result.error).toBeNull();
+    if (result.error !== null) {
+      throw new Error(result.detailedError);
+    }
+
+    expect(bodies[0]?.split(`"${treeUuid}"`)).toHaveLength(2);
+    expect(result.items.map((entry) => entry.uuid)).toStrictEqual([
+      treeUuid,
+      resourceUuid,
+      missingUuid,
+      treeUuid,
+      secondTreeUuid,
+    ]);
+    expect(result.items[0]?.item?.category).toBe("tree");
+    expect(result.items[0]?.item).not.toHaveProperty("items");
+    expect(result.items[1]?.item).toBeNull();
+    expect(result.items[1]?.error).toBeTruthy();
+    expect(result.items[2]?.error).toBe(
+      `No OCHRE item found for UUID "${missingUuid}"`,
+    );
+    expect(result.items[3]?.item?.category).toBe("tree");
+    expect(result.items[4]?.item?.category).toBe("set");
+  });
+
+  it("fails the whole request for invalid parameters", async () => {
+    const result = await fetchItems(["not-a-uuid"], {
+      fetch: async () => {
+        throw new Error("fetch should not be called");
+      },
+    });
+
+    expect(result.items).toBeNull();
+    expect(result.error).toBeTruthy();
+  });
+});
+
 describe("item parser integration", () => {
   for (const fixture of CATEGORY_FIXTURES) {
     it(
@@ -1,5 +1,6 @@
 import { XMLParser } from "fast-xml-parser";
 import * as v from "valibot";
+import type { OchreFetchError } from "#/errors.js";
 import type { FetchBaseOptions, FetchLanguages } from "#/parsers/helpers.js";
 import type {
   ContainedItemCategoryFromOption,
@@ -14,8 +15,14 @@ import type {
   SetItemCategory,
 } from "#/types/index.js";
 import { XML_PARSER_OPTIONS } from "#/constants.js";
+import {
+  OchreHttpError,
+  OchreNotFoundError,
+  OchreParameterError,
+} from "#/errors.js";
 import { parseItem } from "#/parsers/index.js";
 import { parseWebpageView } from "#/parsers/website/index.js";
+import { postXQuery } from "#/request.js";
 import { iso639_3Schema, uuidSchema } from "#/schemas.js";
 import {
   createSchemaValidationError,
@@ -28,10 +35,51 @@ import { restoreXMLMetadata } from "#/xml/metadata.js";
 import { XMLData as XMLDataSchema } from "#/xml/schemas.js";
 
 type FetchItemResult<TItem> = Promise<
-  | { item: TItem; error: null; detailedError: null }
-  | { item: null; error: string; detailedError: string }
+  | { item: TItem; error: null; detailedError: null; ochreError: null }
+  | {
+      item: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
+    }
 >;
 
+/**
+ * Represents the outcome of one UUID requested through `fetchItems`
+ */
+export type FetchItemsEntry<TItem> =
+  | {
+      uuid: string;
+      item: TItem;
+      error: null;
+      detailedError: null;
+      ochreError: null;
+    }
+  | {
+      uuid: string;
+      item: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
+    };
+
+type FetchItemsResult<TItem> = Promise<
+  | {
+      items: Array<FetchItemsEntry<TItem>>;
+      error: null;
+      detailedError: null;
+      ochreError: null;
+    }
+  | {
+      items: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
+    }
+>;
+
+type XMLItemResult = { uuid?: string; ochre?: { uuid?: string } };
+
 function isItemContainerCategory(
   category: ItemCategory,
 ): category is ItemContainerCategory {
@@ -78,30 +126,31 @@ function assertItemCategoryAllowed(
     }
   }
 
-  throw new Error(
+  throw new OchreParameterError(
     `containedItemCategory can only be used when category is "tree" or "set"; received category "${categories.join(", ")}"`,
   );
 }
 
 /**
- * Build an XQuery string to fetch a single OCHRE item document by UUID.
+ * Build the let clauses and return expression that copy one OCHRE item
+ * document bound to `$ochre`.
  *
  * Nodes marked `supplemental="true"` are always dropped. `$item` only ever
  * binds the item categories that carry embedded items, so the omission branch
  * is a no-op for every other category.
  *
- * @param parameters - The parameters for the fetch
- * @param parameters.uuid - The UUID of the OCHRE item to fetch
+ * @param parameters - The parameters for the copy
+ * @param parameters.documentExpression - The XQuery expression of the document to copy
  * @param parameters.shouldOmitEmbeddedItems - Whether to drop the embedded item hierarchy
- * @returns An XQuery string
+ * @returns The let clauses and the `<ochre>` element expression
  */
-function buildXQuery(parameters: {
-  uuid: string;
+function buildItemDocumentClauses(parameters: {
+  documentExpression: string;
   shouldOmitEmbeddedItems: boolean;
-}): string {
-  const { uuid, shouldOmitEmbeddedItems } = parameters;
+}): { letClauses: Array<string>; ochreExpression: string } {
+  const { documentExpression, shouldOmitEmbeddedItems } = parameters;
 
-  const letClauses = [`let $ochre := doc(${stringLiteral(uuid)})/ochre`];
+  const letClauses = [`let $ochre := ${documentExpression}/ochre`];
   let itemNodesExpression = "$ochre/node()";
 
   if (shouldOmitEmbeddedItems) {
@@ -126,17 +175,88 @@ function buildXQuery(parameters: {
     )`;
   }
 
+  return {
+    letClauses,
+    ochreExpression: `if (empty($ochre)) then ()
+  else element ochre {
+    $ochre/@*,
+    ${omitSupplemental(itemNodesExpression)}
+  }`,
+  };
+}
+
+/**
+ * Build an XQuery string to fetch a single OCHRE item document by UUID.
+ *
+ * @param parameters - The parameters for the fetch
+ * @param parameters.uuid - The UUID of the OCHRE item to fetch
+ * @param parameters.shouldOmitEmbeddedItems - Whether to drop the embedded item hierarchy
+ * @returns An XQuery string
+ */
+function buildXQuery(parameters: {
+  uuid: string;
+  shouldOmitEmbeddedItems: boolean;
+}): string {
+  const { uuid, shouldOmitEmbeddedItems } = parameters;
+  const { letClauses, ochreExpression } = buildItemDocumentClauses({
+    documentExpression: `doc(${stringLiteral(uuid)})`,
+    shouldOmitEmbeddedItems,
+  });
+
   return `xquery version "1.0-ml";
 
 ${SUPPLEMENTAL_XQUERY_PROLOG}
 
 ${letClauses.join("\n")}
 return
-  if (empty($ochre)) then ()
-  else element ochre {
-    $ochre/@*,
-    ${omitSupplemental(itemNodesExpression)}
-  }`;
+  ${ochreExpression}`;
+}
+
+/**
+ * Build an XQuery string to fetch several OCHRE item documents in one request.
+ *
+ * Each document is wrapped in an `<itemResult>` element carrying the requested
+ * UUID, which is left empty when no document exists for it.
+ *
+ * @param parameters - The parameters for the fetch
+ * @param parameters.uuids - The UUIDs of the OCHRE items to fetch
+ * @param parameters.shouldOmitEmbeddedItems - Whether to drop the embedded item hierarchy
+ * @returns An XQuery string
+ */
+function buildItemsXQuery(parameters: {
+  uuids: ReadonlyArray<string>;
+  shouldOmitEmbeddedItems: boolean;
+}): string {
+  const { uuids, shouldOmitEmbeddedItems } = parameters;
+  const { letClauses, ochreExpression } = buildItemDocumentClauses({
+    documentExpression: "doc($uuid)",
+    shouldOmitEmbeddedItems,
+  });
+
+  return `xquery version "1.0-ml";
+
+${SUPPLEMENTAL_XQUERY_PROLOG}
+
+for $uuid in (${uuids.map((uuid) => stringLiteral(uuid)).join(", ")})
+${letClauses.join("\n")}
+return element itemResult {
+  attribute uuid { $uuid },
+  ${ochreExpression}
+}`;
+}
+
+/**
+ * Build an XQuery string returning only the publication date of an OCHRE item
+ * document, used to revalidate a stale cached item.
+ *
+ * @param uuid - The UUID of the OCHRE item
+ * @returns An XQuery string
+ */
+function buildRevalidationXQuery(uuid: string): string {
+  return `xquery version "1.0-ml";
+
+for $ochre in doc(${stringLiteral(uuid)})/ochre
+return element ochre { $ochre/@publicationDateTime }`;
 }
 
 function omitEmbeddedItems(
@@ -155,6 +275,65 @@ function omitEmbeddedItems(
   return itemWithoutEmbeddedItems;
 }
 
+/**
+ * Validate and parse one fetched OCHRE item document, shared by `fetchItem`
+ * and `fetchItems` so both narrow categories and omit embedded items alike.
+ */
+function parseFetchedItem(
+  data: { result?: { ochre?: { uuid?: string } } },
+  parameters: {
+    uuid: string;
+    dataRaw: string;
+    category: ItemCategoryOption | undefined;
+    containedItemCategory:
+      | ContainedItemCategoryOption<ItemCategory>
+      | undefined;
+    languages: ReadonlyArray<string>;
+    shouldOmitEmbeddedItems: boolean;
+  },
+):
+  | Item<ItemCategory, SetItemCategory, ReadonlyArray<string>>
+  | ItemWithoutEmbeddedItems<
+      ItemCategoryWithEmbeddedItems,
+      SetItemCategory,
+      ReadonlyArray<string>
+    > {
+  if (data.result?.ochre?.uuid == null) {
+    throw new OchreNotFoundError(
+      `No OCHRE item found for UUID "${parameters.uuid}"`,
+      parameters.uuid,
+      { cause: parameters.dataRaw },
+    );
+  }
+
+  const { success, issues, output } = v.safeParse(XMLDataSchema, data);
+  if (!success) {
+    throw createSchemaValidationError("Failed to parse OCHRE data", issues);
+  }
+  restoreXMLMetadata(output, data);
+
+  const parsedItem = parseItem(output, {
+    category: parameters.category,
+    containedItemCategory: parameters.containedItemCategory,
+    languages: parameters.languages,
+    parseResourceView: (view, context) =>
+      parseWebpageView(
+        view,
+        { languages: context.metadata.languages },
+        context,
+      ),
+  });
+  assertItemCategoryAllowed(
+    parsedItem.category,
+    parameters.containedItemCategory,
+  );
+
+  return parameters.shouldOmitEmbeddedItems &&
+    isItemWithEmbeddedItems(parsedItem)
+    ? omitEmbeddedItems(parsedItem)
+    : parsedItem;
+}
+
 /**
  * Validate language codes while preserving literal tuple inference.
  */
@@ -330,8 +509,14 @@ export async function fetchItem(
           >;
       error: null;
       detailedError: null;
+      ochreError: null;
+    }
+  | {
+      item: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
     }
-  | { item: null; error: string; detailedError: string }
 > {
   try {
     const parsedUuid = v.parse(uuidSchema, uuid);
@@ -343,18 +528,13 @@ export async function fetchItem(
     const languages: ReadonlyArray<string> =
       options?.languages == null ? [] : parseLanguages(options.languages);
 
-    const response = await (options?.fetch ?? fetch)(
-      'https://ochre.lib.uchicago.edu/ochre/v2/ochre.php?xquery&xsl=none&lang="*"',
-      {
-        method: "POST",
-        body: buildXQuery({ uuid: parsedUuid, shouldOmitEmbeddedItems }),
-        headers: { "Content-Type": "application/xquery" },
-      },
+    const response = await postXQuery(
+      buildXQuery({ uuid: parsedUuid, shouldOmitEmbeddedItems }),
+      options,
+      buildRevalidationXQuery(parsedUuid),
     );
     if (!response.ok) {
-      throw new Error("Failed to fetch OCHRE data", {
-        cause: response.statusText,
-      });
+      throw new OchreHttpError("Failed to fetch OCHRE data", response);
     }
 
     const dataRaw = await response.text();
@@ -363,41 +543,243 @@ export async function fetchItem(
     const data = parser.parse(dataRaw) as {
       result?: { ochre?: { uuid?: string } };
     };
-    if (data.result?.ochre?.uuid == null) {
-      throw new Error(`No OCHRE item found for UUID "${parsedUuid}"`, {
-        cause: dataRaw,
-      });
-    }
-
-    const { success, issues, output } = v.safeParse(XMLDataSchema, data);
-    if (!success) {
-      throw createSchemaValidationError("Failed to parse OCHRE data", issues);
-    }
-    restoreXMLMetadata(output, data);
 
-    const parsedItem = parseItem(output, {
+    const item = parseFetchedItem(data, {
+      uuid: parsedUuid,
+      dataRaw,
       category: options?.category,
       containedItemCategory: options?.containedItemCategory,
       languages,
-      parseResourceView: (view, context) =>
-        parseWebpageView(
-          view,
-          { languages: context.metadata.languages },
-          context,
-        ),
+      shouldOmitEmbeddedItems,
     });
+
+    return { item, error: null, detailedError: null, ochreError: null };
+  } catch (error) {
+    return { item: null, ...getErrorOutput(error, "Unknown error", options) };
+  }
+}
+
+function getItemResults(data: { result?: unknown }): Array<XMLItemResult> {
+  const { result } = data;
+  if (
+    typeof result !== "object" ||
+    result == null ||
+    !("itemResult" in result)
+  ) {
+    return [];
+  }
+
+  const { itemResult } = result;
+  return (
+    Array.isArray(itemResult) ? itemResult : [itemResult]
+  ) as Array<XMLItemResult>;
+}
+
+/**
+ * Fetches several OCHRE items by UUID from the OCHRE API in a single request
+ *
+ * Every item is parsed exactly as `fetchItem` would parse it. A failure that
+ * concerns a single item, such as a missing document or a category mismatch,
+ * is reported on that item's entry without failing the others, even when
+ * `shouldThrow` is set.
+ *
+ * @param uuids - The UUIDs of the OCHRE items to fetch. Duplicates are fetched once and share one entry.
+ * @param options - Options object, with the same meaning as for `fetchItem`
+ * @param options.category - The category, or list of categories, every item is expected to have
+ * @param options.containedItemCategory - The category of items inside the fetched Trees and Sets
+ * @param options.shouldOmitEmbeddedItems - Whether to omit the embedded item hierarchy of recursive item categories
+ * @param options.languages - Language codes to parse. Inline arrays preserve literal types automatically.
+ * @param options.fetch - Custom fetch function to use instead of the default fetch
+ * @returns An object containing one entry per requested UUID, in request order
+ */
+export async function fetchItems<
+  const TContainedItemCategory extends
+    | ContainedItemCategoryOption<ItemContainerCategory>
+    | undefined = undefined,
+  const TLanguages extends ReadonlyArray<string> | undefined = undefined,
+>(
+  uuids: ReadonlyArray<string>,
+  options?: FetchBaseOptions<TLanguages> & {
+    category?: undefined;
+    containedItemCategory?: TContainedItemCategory;
+    shouldOmitEmbeddedItems?: false;
+  },
+): FetchItemsResult<
+  Item<
+    ItemCategory,
+    ContainedItemCategoryFromOption<ItemCategory, TContainedItemCategory>,
+    FetchLanguages<TLanguages>
+  >
+>;
+export async function fetchItems<
+  const TContainedItemCategory extends
+    | ContainedItemCategoryOption<ItemContainerCategory>
+    | undefined = undefined,
+  const TLanguages extends ReadonlyArray<string> | undefined = undefined,
+>(
+  uuids: ReadonlyArray<string>,
+  options: FetchBaseOptions<TLanguages> & {
+    category?: undefined;
+    containedItemCategory?: TContainedItemCategory;
+    shouldOmitEmbeddedItems?: true;
+  },
+): FetchItemsResult<
+  | ItemWithoutEmbeddedItems<
+      ItemCategoryWithEmbeddedItems,
+      ContainedItemCategoryFromOption<
+        ItemContainerCategory,
+        TContainedItemCategory
+      >,
+      FetchLanguages<TLanguages>
+    >
+  | Item<
+      Exclude<ItemCategory, ItemCategoryWithEmbeddedItems>,
+      never,
+      FetchLanguages<TLanguages>
+    >
+>;
+export async function fetchItems<
+  const TCategory extends ItemCategoryOption,
+  const TContainedItemCategory extends
+    | ContainedItemCategoryOption<ItemCategoryFromOption<TCategory>>
+    | undefined = undefined,
+  const TLanguages extends ReadonlyArray<string> | undefined = undefined,
+>(
+  uuids: ReadonlyArray<string>,
+  options: FetchBaseOptions<TLanguages> & {
+    category: TCategory;
+    containedItemCategory?: TContainedItemCategory;
+    shouldOmitEmbeddedItems?: false;
+  },
+): FetchItemsResult<
+  Item<
+    ItemCategoryFromOption<TCategory>,
+    ContainedItemCategoryFromOption<
+      ItemCategoryFromOption<TCategory>,
+      TContainedItemCategory
+    >,
+    FetchLanguages<TLanguages>
+  >
+>;
+export async function fetchItems<
+  const TCategory extends ItemCategoryOption,
+  const TContainedItemCategory extends
+    | ContainedItemCategoryOption<
+        Extract<
+          ItemCategoryFromOption<TCategory>,
+          ItemCategoryWithEmbeddedItems
+        >
+      >
+    | undefined = undefined,
+  const TLanguages extends ReadonlyArray<string> | undefined = undefined,
+>(
+  uuids: ReadonlyArray<string>,
+  options: FetchBaseOptions<TLanguages> & {
+    category: TCategory;
+    containedItemCategory?: TContainedItemCategory;
+    shouldOmitEmbeddedItems: true;
+  },
+): FetchItemsResult<
+  | ItemWithoutEmbeddedItems<
+      Extract<ItemCategoryFromOption<TCategory>, ItemCategoryWithEmbeddedItems>,
+      ContainedItemCategoryFromOption<
+        Extract<
+          ItemCategoryFromOption<TCategory>,
+          ItemCategoryWithEmbeddedItems
+        >,
+        TContainedItemCategory
+      >,
+      FetchLanguages<TLanguages>
+    >
+  | Item<
+      Exclude<ItemCategoryFromOption<TCategory>, ItemCategoryWithEmbeddedItems>,
+      never,
+      FetchLanguages<TLanguages>
+    >
+>;
+export async function fetchItems(
+  uuids: ReadonlyArray<string>,
+  options?: FetchBaseOptions<ReadonlyArray<string>> & {
+    category?: ItemCategoryOption;
+    containedItemCategory?: ContainedItemCategoryOption<ItemCategory>;
+    shouldOmitEmbeddedItems?: boolean;
+  },
+): FetchItemsResult<
+  | Item<ItemCategory, SetItemCategory, ReadonlyArray<string>>
+  | ItemWithoutEmbeddedItems<
+      ItemCategoryWithEmbeddedItems,
+      SetItemCategory,
+      ReadonlyArray<string>
+    >
+> {
+  try {
+    const parsedUuids = uuids.map((uuid) => v.parse(uuidSchema, uuid));
+    const uniqueUuids = [...new Set(parsedUuids)];
     assertItemCategoryAllowed(
-      parsedItem.category,
+      options?.category,
       options?.containedItemCategory,
     );
+    if (uniqueUuids.length === 0) {
+      return { items: [], error: null, detailedError: null, ochreError: null };
+    }
 
-    const item =
-      shouldOmitEmbeddedItems && isItemWithEmbeddedItems(parsedItem)
-        ? omitEmbeddedItems(parsedItem)
-        : parsedItem;
+    const shouldOmitEmbeddedItems = options?.shouldOmitEmbeddedItems === true;
+    const languages: ReadonlyArray<string> =
+      options?.languages == null ? [] : parseLanguages(options.languages);
+
+    const response = await postXQuery(
+      buildItemsXQuery({ uuids: uniqueUuids, shouldOmitEmbeddedItems }),
+      options,
+    );
+    if (!response.ok) {
+      throw new OchreHttpError("Failed to fetch OCHRE data", response);
+    }
+
+    const dataRaw = await response.text();
+
+    const parser = new XMLParser(XML_PARSER_OPTIONS);
+    const itemResults = getItemResults(
+      parser.parse(dataRaw) as { result?: unknown },
+    );
+    const itemResultsByUuid = new Map<string, XMLItemResult>();
+    for (const itemResult of itemResults) {
+      if (itemResult.uuid != null) {
+        itemResultsByUuid.set(itemResult.uuid, itemResult);
+      }
+    }
+
+    const uniqueItems = uniqueUuids.map((uuid) => {
+      try {
+        const item = parseFetchedItem(
+          { result: { ochre: itemResultsByUuid.get(uuid)?.ochre } },
+          {
+            uuid,
+            dataRaw,
+            category: options?.category,
+            containedItemCategory: options?.containedItemCategory,
+            languages,
+            shouldOmitEmbeddedItems,
+          },
+        );
+
+        return {
+          uuid,
+          item,
+          error: null,
+          detailedError: null,
+          ochreError: null,
+        };
+      } catch (error) {
+        return { uuid, item: null, ...getErrorOutput(error, "Unknown error") };
+      }
+    });
+    const itemsByUuid = new Map(
+      uniqueItems.map((entry) => [entry.uuid, entry]),
+    );
+    const items = parsedUuids.flatMap((uuid) => itemsByUuid.get(uuid) ?? []);
 
-    return { item, error: null, detailedError: null };
+    return { items, error: null, detailedError: null, ochreError: null };
   } catch (error) {
-    return { item: null, ...getErrorOutput(error, "Unknown error") };
+    return { items: null, ...getErrorOutput(error, "Unknown error", options) };
   }
 }
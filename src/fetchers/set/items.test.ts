@@ -1,5 +1,11 @@
-import { expect, it } from "vitest";
-import { fetchSetItems } from "#/fetchers/set/items.js";
+import { describe, expect, it } from "vitest";
+import type { FetchFunction } from "#/parsers/helpers.js";
+import { OchreHttpError, OchreParameterError } from "#/errors.js";
+import {
+  compileSetItemsXQuery,
+  fetchSetItems,
+  iterateSetItems,
+} from "#/fetchers/set/items.js";
 
 const UCHICAGO_NODE_SET_SCOPE_UUIDS = [
   "10268bd8-5e97-4f8c-b3f7-89d85d93a776",
@@ -343,3 +349,657 @@ it("should fetch convocation-programs Set items for an OCR query OR-ed with a ti
 
   expect(totalCount).toBe(2);
 });
+
+const ITERATION_SET_UUID = "41f855f5-202e-4ec9-95d6-a87b793a9dcb";
+
+function createSetItemsPageXML(parameters: {
+  page: number;
+  pageSize: number;
+  totalCount: number;
+}): string {
+  const { page, pageSize, totalCount } = parameters;
+  const firstIndex = (page - 1) * pageSize;
+  const resources = Array.from(
+    { length: Math.max(0, Math.min(pageSize, totalCount - firstIndex)) },
+    (_, index) => {
+      const uuid = `00000000-0000-4000-8000-${String(firstIndex + index).padStart(12, "0")}`;
+
+      return `<resource uuid="${uuid}"><identification><label><content xml:lang="eng"><string>Item ${firstIndex + index}</string></content></label></identification></resource>`;
+    },
+  );
+
+  return `<result><ochre><items totalCount="${totalCount}" page="${page}" pageSize="${pageSize}">${resources.join("")}</items></ochre></result>`;
+}
+
+function makePagedFetch(totalCount: number): {
+  fetch: FetchFunction;
+  requestedPages: Array<number>;
+} {
+  const requestedPages: Array<number> = [];
+
+  return {
+    requestedPages,
+    fetch: async (_input, init) => {
+      const [, page = "1", pageSize = "10"] =
+        /page="(\d+)" pageSize="(\d+)"/.exec(String(init?.body)) ?? [];
+      requestedPages.push(Number(page));
+
+      return new Response(
+        createSetItemsPageXML({
+          page: Number(page),
+          pageSize: Number(pageSize),
+          totalCount,
+        }),
+      );
+    },
+  };
+}
+
+async function consumeSetItems(items: AsyncIterable<unknown>): Promise<void> {
+  for await (const _item of items) {
+    // Consume every item
+  }
+}
+
+describe("iterateSetItems", () => {
+  it("yields every item across pages, requesting each page lazily", async () => {
+    const mock = makePagedFetch(25);
+    const items = iterateSetItems(
+      { setScopeUuids: [ITERATION_SET_UUID], pageSize: 10 },
+      undefined,
+      { fetch: mock.fetch, languages: ["eng"] },
+    );
+    const labels: Array<string> = [];
+
+    for await (const item of items) {
+      expect(mock.requestedPages).toHaveLength(
+        Math.floor(labels.length / 10) + 1,
+      );
+      labels.push(item.identification.label.getText("eng"));
+    }
+
+    expect(labels).toHaveLength(25);
+    expect(labels.at(-1)).toBe("Item 24");
+    expect(mock.requestedPages).toStrictEqual([1, 2, 3]);
+  });
+
+  it("prefetches pages up to the concurrency without requesting past the last page", async () => {
+    const mock = makePagedFetch(25);
+    const iterator = iterateSetItems(
+      { setScopeUuids: [ITERATION_SET_UUID], pageSize: 10 },
+      undefined,
+      { fetch: mock.fetch, concurrency: 4 },
+    )[Symbol.asyncIterator]();
+
+    await iterator.next();
+    expect(mock.requestedPages).toStrictEqual([1, 2, 3]);
+
+    let count = 1;
+    let result = await iterator.next();
+    while (result.done !== true) {
+      count += 1;
+      result = await iterator.next();
+    }
+
+    expect(count).toBe(25);
+    expect(mock.requestedPages).toStrictEqual([1, 2, 3]);
+  });
+
+  it("ends without an error when the signal is aborted", async () => {
+    const controller = new AbortController();
+    const mock = makePagedFetch(25);
+    const items = iterateSetItems(
+      { setScopeUuids: [ITERATION_SET_UUID], pageSize: 10 },
+      undefined,
+      { fetch: mock.fetch, signal: controller.signal },
+    );
+    let count = 0;
+
+    for await (const _item of items) {
+      count += 1;
+      if (count === 10) {
+        controller.abort();
+      }
+    }
+
+    expect(count).toBe(10);
+    expect(mock.requestedPages).toStrictEqual([1]);
+  });
+
+  it("follows each page's cursor when a sort is given", async () => {
+    const uuids = Array.from(
+      { length: 25 },
+      (_, index) =>
+        `00000000-0000-4000-8000-${String(index).padStart(12, "0")}`,
+    );
+    const remainingUuids = [...uuids];
+    const bodies: Array<string> = [];
+    const fetchMock: FetchFunction = async (_input, init) => {
+      const body = String(init?.body);
+      bodies.push(body);
+      const [, cursorUuid] =
+        /string\(\$item\/@uuid\) gt "([^"]+)"/.exec(body) ?? [];
+      const startIndex =
+        cursorUuid == null
+          ? 0
+          : remainingUuids.findIndex((uuid) => uuid > cursorUuid);
+      const pageUuids = remainingUuids.slice(startIndex, startIndex + 10);
+      const lastUuid = pageUuids.at(-1);
+      const cursorAttributes =
+        lastUuid != null && startIndex + 10 < remainingUuids.length
+          ? ` cursorUuid="${lastUuid}" cursorSortKeys="${lastUuid}"`
+          : "";
+      const resources = pageUuids.map(
+        (uuid) =>
+          `<resource uuid="${uuid}"><identification><label><content xml:lang="eng"><string>${uuid}</string></content></label></identification></resource>`,
+      );
+
+      return new Response(
+        `<result><ochre><items totalCount="${remainingUuids.length}" page="1" pageSize="10"${cursorAttributes}>${resources.join("")}</items></ochre></result>`,
+      );
+    };
+    const items = iterateSetItems(
+      {
+        setScopeUuids: [ITERATION_SET_UUID],
+        sort: { target: "title", direction: "asc" },
+        pageSize: 10,
+      },
+      undefined,
+      { fetch: fetchMock },
+    );
+    const seenUuids: Array<string> = [];
+
+    for await (const item of items) {
+      seenUuids.push(item.uuid);
+      if (seenUuids.length === 1) {
+        remainingUuids.shift();
+      }
+    }
+
+    expect(seenUuids).toStrictEqual(uuids);
+    expect(bodies).toHaveLength(3);
+    expect(bodies[1]).toContain(`string($item/@uuid) gt "${uuids[9]}"`);
+    expect(bodies[2]).toContain(`string($item/@uuid) gt "${uuids[19]}"`);
+  });
+
+  it("throws typed errors from failed pages", async () => {
+    const items = iterateSetItems(
+      { setScopeUuids: [ITERATION_SET_UUID] },
+      undefined,
+      { fetch: async () => new Response("", { status: 500 }) },
+    );
+
+    await expect(consumeSetItems(items)).rejects.toBeInstanceOf(OchreHttpError);
+  });
+});
+
+const respondWithCursorPage: FetchFunction = async () =>
+  new Response(
+    '<result><ochre><items totalCount="3" page="1" pageSize="1" cursorUuid="00000000-0000-4000-8000-000000000001" cursorSortKeys="a"/></ochre></result>',
+  );
+
+describe("fetchSetItems cursor pagination", () => {
+  it("returns a cursor for the last item when more items follow", async () => {
+    const bodies: Array<string> = [];
+    const sort = { target: "title", direction: "desc" } as const;
+    const fetchMock: FetchFunction = async (_input, init) => {
+      bodies.push(String(init?.body));
+
+      return new Response(
+        '<result><ochre><items totalCount="3" page="1" pageSize="1" cursorUuid="00000000-0000-4000-8000-000000000001" cursorSortKeys="Z%C3%BCrich"/></ochre></result>',
+      );
+    };
+
+    const firstPage = await fetchSetItems(
+      { setScopeUuids: [ITERATION_SET_UUID], sort, page: 1, pageSize: 1 },
+      undefined,
+      { fetch: fetchMock },
+    );
+    if (firstPage.error !== null) {
+      throw new Error(firstPage.detailedError);
+    }
+
+    expect(firstPage.nextCursor).toBeTypeOf("string");
+    expect(bodies[0]).toContain("subsequence($orderedItems, 1, 1)");
+    expect(bodies[0]).toContain("string($item/@uuid) ascending");
+
+    await fetchSetItems(
+      {
+        setScopeUuids: [ITERATION_SET_UUID],
+        sort,
+        cursor: firstPage.nextCursor!,
+        pageSize: 1,
+      },
+      undefined,
+      { fetch: fetchMock },
+    );
+
+    expect(bodies[1]).toContain(
+      `lower-case($sortKey) lt lower-case("Zürich") or (lower-case($sortKey) eq lower-case("Zürich") and string($item/@uuid) gt "00000000-0000-4000-8000-000000000001")`,
+    );
+    expect(bodies[1]).toContain("idiv 1 + 1");
+  });
+
+  it("compares typed property value sort keys after the cursor", async () => {
+    const bodies: Array<string> = [];
+    const sort = {
+      target: "propertyValue",
+      propertyVariableUuid: "5fe8d5bf-0b53-4a1a-a1f2-0a4b2a8ba1a9",
+      dataType: "integer",
+    } as const;
+    const fetchMock: FetchFunction = async (_input, init) => {
+      bodies.push(String(init?.body));
+
+      return new Response(
+        '<result><ochre><items totalCount="3" page="1" pageSize="1" cursorUuid="00000000-0000-4000-8000-000000000001" cursorSortKeys="42"/></ochre></result>',
+      );
+    };
+
+    const firstPage = await fetchSetItems(
+      { setScopeUuids: [ITERATION_SET_UUID], sort, page: 1, pageSize: 1 },
+      undefined,
+      { fetch: fetchMock },
+    );
+    await fetchSetItems(
+      {
+        setScopeUuids: [ITERATION_SET_UUID],
+        sort,
+        cursor: firstPage.nextCursor!,
+      },
+      undefined,
+      { fetch: fetchMock },
+    );
+
+    expect(bodies[1]).toContain(
+      `where empty($sortKey) or $sortKey gt xs:integer("42") or ($sortKey eq xs:integer("42")`,
+    );
+  });
+
+  it("resumes after the cursor on every key of a multi-key sort", async () => {
+    const bodies: Array<string> = [];
+    const sort = [
+      { target: "title" },
+      {
+        target: "propertyValue",
+        propertyVariableUuid: "5fe8d5bf-0b53-4a1a-a1f2-0a4b2a8ba1a9",
+        dataType: "date",
+      },
+    ] as const;
+    const fetchMock: FetchFunction = async (_input, init) => {
+      bodies.push(String(init?.body));
+
+      return new Response(
+        '<result><ochre><items totalCount="3" page="1" pageSize="1" cursorUuid="00000000-0000-4000-8000-000000000001" cursorSortKeys="a%20b "/></ochre></result>',
+      );
+    };
+
+    const firstPage = await fetchSetItems(
+      { setScopeUuids: [ITERATION_SET_UUID], sort: [...sort], page: 1 },
+      undefined,
+      { fetch: fetchMock },
+    );
+    await fetchSetItems(
+      {
+        setScopeUuids: [ITERATION_SET_UUID],
+        sort: [...sort],
+        cursor: firstPage.nextCursor!,
+      },
+      undefined,
+      { fetch: fetchMock },
+    );
+
+    expect(bodies[0]).toContain(
+      "attribute cursorSortKeys { string-join((encode-for-uri(string(string-join(",
+    );
+    expect(bodies[1]).toContain(
+      `where $sortKey = "" or lower-case($sortKey) gt lower-case("a b") or (lower-case($sortKey) eq lower-case("a b") and empty($sortKey2) and string($item/@uuid) gt "00000000-0000-4000-8000-000000000001")`,
+    );
+  });
+
+  it("resumes after a publication date cursor", async () => {
+    const bodies: Array<string> = [];
+    const sort = { target: "publicationDateTime", direction: "desc" } as const;
+    const fetchMock: FetchFunction = async (_input, init) => {
+      bodies.push(String(init?.body));
+
+      return new Response(
+        '<result><ochre><items totalCount="3" page="1" pageSize="1" cursorUuid="00000000-0000-4000-8000-000000000001" cursorSortKeys="2024-05-01T10%3A00%3A00Z"/></ochre></result>',
+      );
+    };
+
+    const firstPage = await fetchSetItems(
+      { setScopeUuids: [ITERATION_SET_UUID], sort, page: 1 },
+      undefined,
+      { fetch: fetchMock },
+    );
+    await fetchSetItems(
+      {
+        setScopeUuids: [ITERATION_SET_UUID],
+        sort,
+        cursor: firstPage.nextCursor!,
+      },
+      undefined,
+      { fetch: fetchMock },
+    );
+
+    expect(bodies[1]).toContain(
+      'where empty($sortKey) or $sortKey lt xs:dateTime("2024-05-01T10:00:00Z")',
+    );
+  });
+
+  it("returns no cursor on the last page", async () => {
+    const result = await fetchSetItems(
+      {
+        setScopeUuids: [ITERATION_SET_UUID],
+        sort: { target: "title" },
+        page: 1,
+      },
+      undefined,
+      {
+        fetch: async () =>
+          new Response(
+            '<result><ochre><items totalCount="0" page="1" pageSize="10"/></ochre></result>',
+          ),
+      },
+    );
+
+    expect(result.error).toBeNull();
+    expect(result.nextCursor).toBeNull();
+  });
+
+  it("rejects invalid cursors, cursors for another sort, and cursors without a sort", async () => {
+    const { nextCursor } = await fetchSetItems(
+      {
+        setScopeUuids: [ITERATION_SET_UUID],
+        sort: { target: "title" },
+        page: 1,
+      },
+      undefined,
+      { fetch: respondWithCursorPage },
+    );
+
+    const results = await Promise.all([
+      fetchSetItems(
+        {
+          setScopeUuids: [ITERATION_SET_UUID],
+          sort: { target: "title" },
+          cursor: "not-a-cursor",
+        },
+        undefined,
+        { fetch: respondWithCursorPage },
+      ),
+      fetchSetItems(
+        {
+          setScopeUuids: [ITERATION_SET_UUID],
+          sort: { target: "title", direction: "desc" },
+          cursor: nextCursor!,
+        },
+        undefined,
+        { fetch: respondWithCursorPage },
+      ),
+      fetchSetItems(
+        { setScopeUuids: [ITERATION_SET_UUID], cursor: nextCursor! },
+        undefined,
+        { fetch: respondWithCursorPage },
+      ),
+    ]);
+
+    for (const result of results) {
+      expect(result.ochreError).toBeInstanceOf(OchreParameterError);
+    }
+  });
+});
+
+describe("compileSetItemsXQuery", () => {
+  it("returns the XQuery, the plan tree, and the OCR bindings without a request", () => {
+    const { xquery, plan, bindings } = compileSetItemsXQuery({
+      setScopeUuids: [ITERATION_SET_UUID],
+      queries: {
+        or: [
+          {
+            target: "ocr",
+            value: "Cappaert",
+            matchMode: "includes",
+            isCaseSensitive: false,
+          },
+          {
+            target: "title",
+            value: "Convocation",
+            matchMode: "includes",
+            isCaseSensitive: false,
+            language: "eng",
+          },
+        ],
+      },
+      page: 2,
+      pageSize: 10,
+    });
+
+    expect(bindings).toEqual([
+      { name: "$ocrItemUuids1", expression: expect.any(String) as string },
+    ]);
+    expect(plan).toEqual({
+      kind: "union",
+      children: [
+        {
+          kind: "search",
+          itemPredicates: [],
+          queryExpressions: ['local:queryHelper2("convocation")'],
+        },
+        {
+          kind: "search",
+          itemPredicates: ["[@uuid = $ocrItemUuids1]"],
+          queryExpressions: [],
+        },
+      ],
+    });
+    expect(xquery).toContain(
+      `let $ocrItemUuids1 := ${bindings[0]!.expression}`,
+    );
+    expect(xquery).toContain("declare function local:queryHelper2(");
+    expect(xquery).toContain("subsequence($orderedItems, 11, 10)");
+  });
+
+  it("throws typed errors for invalid parameters", () => {
+    expect(() =>
+      compileSetItemsXQuery({ setScopeUuids: ["not-a-uuid"], page: 1 }),
+    ).toThrow(OchreParameterError);
+    expect(() =>
+      compileSetItemsXQuery({
+        setScopeUuids: [ITERATION_SET_UUID],
+        cursor: "not-a-cursor",
+      }),
+    ).toThrow(OchreParameterError);
+  });
+});
+
+describe("fetchSetItems snippets", () => {
+  const notesQuery = {
+    target: "notes",
+    value: "king",
+    matchMode: "includes",
+    isCaseSensitive: false,
+    language: "eng",
+  } as const;
+  const itemUuid = "00000000-0000-4000-8000-000000000001";
+  const propertyVariableUuid = "8383140a-e676-417f-b5d8-863d9df6d905";
+  const longNote = `${"word ".repeat(40)}the king of Anshan${" word".repeat(40)}`;
+
+  it("highlights the matched terms of each paged item", async () => {
+    let postedBody = "";
+    const result = await fetchSetItems(
+      {
+        setScopeUuids: [ITERATION_SET_UUID],
+        queries: notesQuery,
+        page: 1,
+        shouldIncludeSnippets: true,
+      },
+      undefined,
+      {
+        fetch: async (_input, init) => {
+          postedBody = String(init?.body);
+
+          return new Response(
+            `<result><ochre><items totalCount="1" page="1" pageSize="48"/><snippet uuid="${itemUuid}" field="notes" text="${longNote}" highlights="204 208"/><snippet uuid="${itemUuid}" field="property" propertyVariableUuid="${propertyVariableUuid}" text="Kïng’s 𝔨ing" highlights="0 4 7 11"/><snippet uuid="${itemUuid}" field="ocr" text="THE KING" highlights="4 8" hasTextBefore="true" hasTextAfter="false"/></ochre></result>`,
+          );
+        },
+      },
+    );
+    if (result.error !== null) {
+      throw new Error(result.detailedError);
+    }
+
+    expect(postedBody).toContain("local:setItemSnippets($item, $query)");
+    expect(postedBody).not.toContain("local:setItemOcrSnippet($item, ");
+    expect(result.snippets).toEqual({
+      [itemUuid]: [
+        {
+          field: "notes",
+          propertyVariableUuid: null,
+          text: `${"word ".repeat(15)}the king of Anshan${" word".repeat(14)}`,
+          highlights: [{ start: 79, end: 83 }],
+          isTruncatedAtStart: true,
+          isTruncatedAtEnd: true,
+        },
+        {
+          field: "property",
+          propertyVariableUuid,
+          text: "Kïng’s 𝔨ing",
+          highlights: [
+            { start: 0, end: 4 },
+            { start: 7, end: 12 },
+          ],
+          isTruncatedAtStart: false,
+          isTruncatedAtEnd: false,
+        },
+        {
+          field: "ocr",
+          propertyVariableUuid: null,
+          text: "THE KING",
+          highlights: [{ start: 4, end: 8 }],
+          isTruncatedAtStart: true,
+          isTruncatedAtEnd: false,
+        },
+      ],
+    });
+  });
+
+  it("skips snippets unless they are requested", async () => {
+    let postedBody = "";
+    const result = await fetchSetItems(
+      { setScopeUuids: [ITERATION_SET_UUID], queries: notesQuery, page: 1 },
+      undefined,
+      {
+        fetch: async (_input, init) => {
+          postedBody = String(init?.body);
+
+          return new Response(
+            '<result><ochre><items totalCount="0" page="1" pageSize="48"/></ochre></result>',
+          );
+        },
+      },
+    );
+
+    expect(result.snippets).toBeNull();
+    expect(postedBody).not.toContain("local:setItemSnippets");
+  });
+
+  it("highlights OCR words through the OCR term queries", () => {
+    const { xquery } = compileSetItemsXQuery({
+      setScopeUuids: [ITERATION_SET_UUID],
+      queries: {
+        target: "ocr",
+        value: "Cappaert",
+        matchMode: "includes",
+        isCaseSensitive: false,
+      },
+      page: 1,
+      shouldIncludeSnippets: true,
+    });
+
+    expect(xquery).toContain(
+      'local:setItemOcrSnippet($item, cts:element-attribute-word-query((xs:QName("String")',
+    );
+    expect(xquery).not.toContain("local:setItemSnippets($item, ");
+  });
+});
+
+describe("fetchSetItems relevance sort", () => {
+  it("orders by score, best matches first, and returns each item's score", async () => {
+    let postedBody = "";
+    const result = await fetchSetItems(
+      {
+        setScopeUuids: [ITERATION_SET_UUID],
+        queries: {
+          target: "title",
+          value: "seal",
+          matchMode: "includes",
+          isCaseSensitive: false,
+          language: "eng",
+        },
+        sort: { target: "relevance" },
+        page: 1,
+      },
+      undefined,
+      {
+        fetch: async (_input, init) => {
+          postedBody = String(init?.body);
+
+          return new Response(
+            '<result><ochre><items totalCount="2" page="1" pageSize="48"/><score uuid="00000000-0000-4000-8000-000000000001" value="2048"/><score uuid="00000000-0000-4000-8000-000000000002" value="0"/></ochre></result>',
+          );
+        },
+      },
+    );
+    if (result.error !== null) {
+      throw new Error(result.detailedError);
+    }
+
+    expect(postedBody).toContain("let $sortKey := cts:score($item)");
+    expect(postedBody).toContain(
+      "stable order by empty($sortKey) ascending, $sortKey descending, string($item/@uuid) ascending",
+    );
+    expect(postedBody).toContain(
+      '<score uuid="{$item/@uuid}" value="{cts:score($item)}"/>',
+    );
+    expect(result.scores).toEqual({
+      "00000000-0000-4000-8000-000000000001": 2048,
+      "00000000-0000-4000-8000-000000000002": 0,
+    });
+  });
+
+  it("resumes after a relevance cursor with lower scores", () => {
+    const cursor = btoa(
+      JSON.stringify({
+        version: 1,
+        sort: JSON.stringify({ target: "relevance" }),
+        sortKeys: ["512"],
+        uuid: "00000000-0000-4000-8000-000000000001",
+      }),
+    ).replace(/=+$/, "");
+    const { xquery } = compileSetItemsXQuery({
+      setScopeUuids: [ITERATION_SET_UUID],
+      sort: { target: "relevance" },
+      cursor,
+    });
+
+    expect(xquery).toContain(
+      'empty($sortKey) or $sortKey lt xs:integer("512")',
+    );
+  });
+
+  it("returns no scores for other sorts", async () => {
+    const result = await fetchSetItems(
+      { setScopeUuids: [ITERATION_SET_UUID], page: 1 },
+      undefined,
+      {
+        fetch: async () =>
+          new Response(
+            '<result><ochre><items totalCount="0" page="1" pageSize="48"/></ochre></result>',
+          ),
+      },
+    );
+
+    expect(result.scores).toBeNull();
+  });
+});
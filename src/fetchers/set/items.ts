@@ -1,6 +1,8 @@
 /* eslint-disable unicorn/no-incorrect-template-string-interpolation */
+import type { X2jOptions } from "fast-xml-parser";
 import { XMLParser } from "fast-xml-parser";
 import * as v from "valibot";
+import type { OchreFetchError } from "#/errors.js";
 import type {
   FetchBaseOptions,
   FetchLanguages,
@@ -8,24 +10,49 @@ import type {
 } from "#/parsers/helpers.js";
 import type {
   Query,
+  QueryBinding,
+  QueryPlan,
   SetItem,
   SetItemCategory,
+  SetItemSnippet,
+  SetItemSnippetField,
   SetItemsSort,
+  SetItemsSortKey,
 } from "#/types/index.js";
-import type { XMLSetItems, XMLSetItemsData } from "#/xml/types.js";
+import type {
+  XMLSetItems,
+  XMLSetItemsData,
+  XMLSetItemsSnippet,
+} from "#/xml/types.js";
 import {
   BELONGS_TO_COLLECTION_UUID,
   DEFAULT_LANGUAGES,
+  XML_ARRAY_TAGS,
   XML_PARSER_OPTIONS,
 } from "#/constants.js";
+import {
+  OchreAbortError,
+  OchreCategoryMismatchError,
+  OchreHttpError,
+  OchreParameterError,
+  toOchreError,
+} from "#/errors.js";
 import { parseSetItems } from "#/parsers/index.js";
 import {
   buildBelongsToCollectionQueryExpression,
   buildQueryPlan,
 } from "#/query.js";
-import { iso639_3Schema, setItemsParametersSchema } from "#/schemas.js";
+import { postXQuery } from "#/request.js";
+import {
+  iso639_3Schema,
+  setItemsCursorSchema,
+  setItemsIterationOptionsSchema,
+  setItemsParametersSchema,
+} from "#/schemas.js";
 import {
   createSchemaValidationError,
+  decodeBase64Url,
+  encodeBase64Url,
   getErrorOutput,
   omitSupplemental,
   stringLiteral,
@@ -34,18 +61,136 @@ import {
 import { restoreXMLMetadata } from "#/xml/metadata.js";
 import { XMLSetItemsData as XMLSetItemsDataSchema } from "#/xml/schemas.js";
 
-type FetchSetItemsCategory<
+/**
+ * The item category fetched for the categories a Set items fetch is limited to
+ * @internal
+ */
+export type FetchSetItemsCategory<
   TContainedItemCategories extends ReadonlyArray<SetItemCategory> | undefined,
 > =
   TContainedItemCategories extends ReadonlyArray<infer U>
     ? Extract<U, SetItemCategory>
     : SetItemCategory;
 
-type SortWithDirection = Exclude<SetItemsSort, { target: "none" }>;
-type PropertyValueSort = Extract<SetItemsSort, { target: "propertyValue" }>;
+type SetItemsCursor = { sortKeys: Array<string>; uuid: string };
+
+/**
+ * The shared parser options, with the `snippet` and `score` elements a Set
+ * items response adds next to its items also parsed as arrays
+ * @internal
+ */
+export const SET_ITEMS_XML_PARSER_OPTIONS: X2jOptions = {
+  ...XML_PARSER_OPTIONS,
+  isArray(tagName, _, __, isAttribute) {
+    if (isAttribute) {
+      return false;
+    }
+
+    return (
+      XML_ARRAY_TAGS.includes(tagName) ||
+      tagName === "snippet" ||
+      tagName === "score"
+    );
+  },
+};
+
+/**
+ * The number of characters kept on either side of the first highlighted term
+ * of a snippet
+ */
+const SET_ITEM_SNIPPET_CONTEXT_LENGTH = 80;
+
+/**
+ * The number of OCR words kept on either side of the first matching word, so a
+ * snippet never carries a whole page of OCR text
+ */
+const SET_ITEM_OCR_SNIPPET_CONTEXT_WORDS = 20;
+
+/**
+ * The paths, relative to a Set item, of the text fields snippets are taken
+ * from. Property values carry their text either in `content` or directly.
+ */
+const SET_ITEM_SNIPPET_FIELD_PATHS: Record<
+  Exclude<SetItemSnippetField, "ocr">,
+  string
+> = {
+  title: "identification/label/content",
+  description: "description/content",
+  notes: "notes/note/content",
+  property:
+    "(properties//property/value/content | properties//property/value[not(content)])",
+};
+
+/**
+ * XQuery prolog declaring the snippet builders. Matched text is marked by
+ * `cts:highlight` with `<ochreHit>` elements, whose offsets in the field text
+ * are written out as a space-separated list of start and end code points.
+ * OCR words carry their text in an attribute, which `cts:highlight` cannot
+ * mark, so each word is tested with `cts:contains` instead.
+ */
+const SET_ITEM_SNIPPETS_XQUERY_PROLOG = `declare function local:setItemSnippet($uuid as xs:string, $field as xs:string, $node as element()) as element(snippet) {
+  let $texts := $node//text()
+  let $highlights :=
+    for $text at $index in $texts
+    where $text/parent::ochreHit
+    return
+      let $start := string-length(string-join(subsequence($texts, 1, $index - 1), ""))
+      return concat($start, " ", $start + string-length($text))
+  return <snippet uuid="{$uuid}" field="{$field}" text="{string-join($texts, "")}" highlights="{string-join($highlights, " ")}">{
+    if ($field = "property")
+    then attribute propertyVariableUuid { string($node/ancestor::property[1]/label/@uuid) }
+    else ()
+  }</snippet>
+};
+
+declare function local:setItemSnippets($item as element(), $query as cts:query) as element(snippet)* {
+  let $uuid := string($item/@uuid)
+  let $highlighted := cts:highlight($item, $query, <ochreHit>{$cts:text}</ochreHit>)
+  return (
+    ${Object.entries(SET_ITEM_SNIPPET_FIELD_PATHS)
+      .map(
+        ([field, path]) =>
+          `for $node in $highlighted/${path}[.//ochreHit] return local:setItemSnippet($uuid, ${stringLiteral(field)}, $node)`,
+      )
+      .join(",\n    ")}
+  )
+};
+
+declare function local:setItemOcrSnippet($item as element(), $query as cts:query) as element(snippet)? {
+  let $uuid := string($item/@uuid)
+  let $words := doc($uuid)/ochre/resource//*[lower-case(local-name(.)) = "ocr"]//*[lower-case(local-name(.)) = "string"][@CONTENT]
+  let $firstHitIndex := (for $word at $index in $words where cts:contains($word, $query) return $index)[1]
+  return
+    if (empty($firstHitIndex))
+    then ()
+    else
+      let $windowStart := max((1, $firstHitIndex - ${SET_ITEM_OCR_SNIPPET_CONTEXT_WORDS}))
+      let $window := subsequence($words, $windowStart, ${SET_ITEM_OCR_SNIPPET_CONTEXT_WORDS * 2 + 1})
+      let $contents := for $word in $window return string($word/@CONTENT)
+      let $highlights :=
+        for $word at $index in $window
+        where cts:contains($word, $query)
+        return
+          let $start := string-length(string-join(subsequence($contents, 1, $index - 1), " ")) + (if ($index > 1) then 1 else 0)
+          return concat($start, " ", $start + string-length($contents[$index]))
+      return <snippet uuid="{$uuid}" field="ocr" text="{string-join($contents, " ")}" highlights="{string-join($highlights, " ")}" hasTextBefore="{$windowStart > 1}" hasTextAfter="{$windowStart + count($window) - 1 < count($words)}"/>
+};`;
+
+type PropertyValueSort = Extract<SetItemsSortKey, { target: "propertyValue" }>;
 type PropertyValueSortDataType = PropertyValueSort["dataType"];
+type TypedSortKeyDataType = Exclude<
+  PropertyValueSortDataType,
+  "string" | "IDREF"
+>;
 
-function parseLanguages<const T extends ReadonlyArray<string>>(
+/**
+ * Validate the languages requested in the fetch options
+ * @param languages - The ISO 639-3 language codes to validate
+ * @returns The languages, unchanged
+ * @throws {ValiError} When a language is not an ISO 639-3 code
+ * @internal
+ */
+export function parseLanguages<const T extends ReadonlyArray<string>>(
   languages: T,
 ): T {
   const parsedLanguages: Array<string> = Array.from(languages, (language) =>
@@ -149,22 +294,51 @@ function hasSetItemsCategory(
   }
 }
 
+function getSortKeys(sort: SetItemsSort): Array<SetItemsSortKey> {
+  if (Array.isArray(sort)) {
+    return sort;
+  }
+
+  return sort.target === "none" ? [] : [sort];
+}
+
+function hasRelevanceSortKey(sort: SetItemsSort): boolean {
+  return getSortKeys(sort).some((sortKey) => sortKey.target === "relevance");
+}
+
+function getSortKeyVariable(index: number): string {
+  return index === 0 ? "$sortKey" : `$sortKey${index + 1}`;
+}
+
+/**
+ * Relevance always sorts the best matches first, so it takes no direction
+ */
+function isDescendingSortKey(sortKey: SetItemsSortKey): boolean {
+  return sortKey.target === "relevance" || sortKey.direction === "desc";
+}
+
 function mapSortDirectionToXQuery(
-  direction: SortWithDirection["direction"],
+  sortKey: SetItemsSortKey,
 ): "ascending" | "descending" {
-  return direction === "desc" ? "descending" : "ascending";
+  return isDescendingSortKey(sortKey) ? "descending" : "ascending";
 }
 
-function buildStringOrderByClause(
-  direction: "ascending" | "descending",
-): string {
-  return `($sortKey = "") ascending, lower-case($sortKey) ${direction}, $position ascending`;
+function buildStringOrderByClause(parameters: {
+  variable: string;
+  direction: "ascending" | "descending";
+}): string {
+  const { variable, direction } = parameters;
+
+  return `(${variable} = "") ascending, lower-case(${variable}) ${direction}`;
 }
 
-function buildTypedOrderByClause(
-  direction: "ascending" | "descending",
-): string {
-  return `empty($sortKey) ascending, $sortKey ${direction}, $position ascending`;
+function buildTypedOrderByClause(parameters: {
+  variable: string;
+  direction: "ascending" | "descending";
+}): string {
+  const { variable, direction } = parameters;
+
+  return `empty(${variable}) ascending, ${variable} ${direction}`;
 }
 
 function buildPropertyValueValuePath(sort: PropertyValueSort): string {
@@ -228,50 +402,539 @@ function buildPropertyValueTypedSortKeyExpression(parameters: {
   }
 }
 
-function buildPropertyValueOrderByClause(parameters: {
-  dataType: PropertyValueSortDataType;
-  direction: "ascending" | "descending";
+/**
+ * Get the data type a sort key is compared as, or null for keys compared as
+ * case-insensitive strings
+ */
+function getTypedSortKeyDataType(
+  sortKey: SetItemsSortKey,
+): TypedSortKeyDataType | null {
+  switch (sortKey.target) {
+    case "title":
+    case "period":
+    case "bibliography":
+    case "category": {
+      return null;
+    }
+    case "publicationDateTime":
+    case "date": {
+      return "dateTime";
+    }
+    case "latitude":
+    case "longitude": {
+      return "decimal";
+    }
+    case "relevance": {
+      return "integer";
+    }
+    case "propertyValue": {
+      return sortKey.dataType === "string" || sortKey.dataType === "IDREF"
+        ? null
+        : sortKey.dataType;
+    }
+  }
+}
+
+function buildSortKeyOrderByClause(parameters: {
+  sortKey: SetItemsSortKey;
+  variable: string;
 }): string {
-  const { dataType, direction } = parameters;
+  const { sortKey, variable } = parameters;
 
+  const direction = mapSortDirectionToXQuery(sortKey);
   const buildOrderByClause =
-    dataType === "string" || dataType === "IDREF"
+    getTypedSortKeyDataType(sortKey) == null
       ? buildStringOrderByClause
       : buildTypedOrderByClause;
-  return buildOrderByClause(direction);
+  return buildOrderByClause({ variable, direction });
 }
 
-function buildOrderedItemsClause(sort: SetItemsSort): string {
-  if (sort.target === "none") {
-    return "let $orderedItems := $items";
+function buildLabelSortKeyExpression(parameters: {
+  labelPath: string;
+  language: string | undefined;
+}): string {
+  const { labelPath, language } = parameters;
+  const languageLiteral = stringLiteral(language ?? "eng");
+
+  return `string-join(${labelPath}/identification/label/content[@xml:lang=${languageLiteral}]/string, "")`;
+}
+
+function buildDateTimeSortKeyExpression(valuePath: string): string {
+  return `(for $v in ${valuePath}
+        let $candidate := normalize-space(string($v))
+        return
+          if ($candidate castable as xs:dateTime) then xs:dateTime($candidate)
+          else if ($candidate castable as xs:date) then xs:dateTime(xs:date($candidate))
+          else ())[1]`;
+}
+
+function buildCoordinateSortKeyExpression(
+  axis: "latitude" | "longitude",
+): string {
+  return `(for $v in $item/coordinates/coord[@type = "point"]/${axis}
+        let $candidate := normalize-space(string($v))
+        where $candidate castable as xs:decimal
+        return xs:decimal($candidate))[1]`;
+}
+
+function buildSortKeyExpression(sort: SetItemsSortKey): string {
+  switch (sort.target) {
+    case "title": {
+      return buildLabelSortKeyExpression({
+        labelPath: "$item",
+        language: sort.language,
+      });
+    }
+    case "period": {
+      return buildLabelSortKeyExpression({
+        labelPath: "$item/periods/period[1]",
+        language: sort.language,
+      });
+    }
+    case "bibliography": {
+      return buildLabelSortKeyExpression({
+        labelPath: "$item/bibliographies/bibliography[1]",
+        language: sort.language,
+      });
+    }
+    case "category": {
+      return "local-name($item)";
+    }
+    case "publicationDateTime": {
+      return buildDateTimeSortKeyExpression("$item/@publicationDateTime");
+    }
+    case "date": {
+      return buildDateTimeSortKeyExpression("($item/date, $item/@date)[1]");
+    }
+    case "latitude":
+    case "longitude": {
+      return buildCoordinateSortKeyExpression(sort.target);
+    }
+    case "relevance": {
+      return "cts:score($item)";
+    }
+    case "propertyValue": {
+      return sort.dataType === "string" || sort.dataType === "IDREF"
+        ? buildPropertyValueStringSortKeyExpression(sort)
+        : buildPropertyValueTypedSortKeyExpression({
+            sort,
+            dataType: sort.dataType,
+          });
+    }
   }
+}
 
-  const direction = mapSortDirectionToXQuery(sort.direction);
+function buildTypedSortKeyLiteral(parameters: {
+  dataType: TypedSortKeyDataType;
+  sortKey: string;
+}): string {
+  const { dataType, sortKey } = parameters;
+  const sortKeyLiteral = stringLiteral(sortKey);
 
-  if (sort.target === "title") {
-    const languageLiteral = stringLiteral(sort.language ?? "eng");
-    const sortKeyExpression = `string-join($item/identification/label/content[@xml:lang=${languageLiteral}]/string, "")`;
+  switch (dataType) {
+    case "integer":
+    case "boolean": {
+      return `xs:integer(${sortKeyLiteral})`;
+    }
+    case "decimal":
+    case "time": {
+      return `xs:decimal(${sortKeyLiteral})`;
+    }
+    case "date": {
+      return `xs:date(${sortKeyLiteral})`;
+    }
+    case "dateTime": {
+      return `xs:dateTime(${sortKeyLiteral})`;
+    }
+  }
+}
+
+/**
+ * Build the conditions placing one sort key strictly after, or level with, the
+ * cursor's key. `after` is null when nothing can follow the cursor's key, which
+ * happens when it is empty since empty keys sort last.
+ */
+function buildCursorKeyConditions(parameters: {
+  sortKey: SetItemsSortKey;
+  variable: string;
+  cursorSortKey: string;
+}): { after: string | null; equal: string } {
+  const { sortKey, variable, cursorSortKey } = parameters;
+
+  const comparison = isDescendingSortKey(sortKey) ? "lt" : "gt";
+  const dataType = getTypedSortKeyDataType(sortKey);
+
+  if (dataType == null) {
+    if (cursorSortKey === "") {
+      return { after: null, equal: `${variable} = ""` };
+    }
+
+    const cursorSortKeyLiteral = `lower-case(${stringLiteral(cursorSortKey)})`;
 
-    return `let $orderedItems :=
-    for $item at $position in $items
-      let $sortKey := ${sortKeyExpression}
-      stable order by ${buildStringOrderByClause(direction)}
-      return $item`;
+    return {
+      after: `${variable} = "" or lower-case(${variable}) ${comparison} ${cursorSortKeyLiteral}`,
+      equal: `lower-case(${variable}) eq ${cursorSortKeyLiteral}`,
+    };
+  }
+
+  if (cursorSortKey === "") {
+    return { after: null, equal: `empty(${variable})` };
   }
 
-  const sortKeyExpression =
-    sort.dataType === "string" || sort.dataType === "IDREF"
-      ? buildPropertyValueStringSortKeyExpression(sort)
-      : buildPropertyValueTypedSortKeyExpression({
-          sort,
-          dataType: sort.dataType,
-        });
+  const cursorSortKeyLiteral = buildTypedSortKeyLiteral({
+    dataType,
+    sortKey: cursorSortKey,
+  });
+
+  return {
+    after: `empty(${variable}) or ${variable} ${comparison} ${cursorSortKeyLiteral}`,
+    equal: `${variable} eq ${cursorSortKeyLiteral}`,
+  };
+}
+
+/**
+ * Build the where clause keeping only the items ordered after the cursor, mirroring
+ * the order by clause: each sort key in turn, empty keys last, then the UUID
+ */
+function buildCursorWhereClause(parameters: {
+  sortKeys: Array<SetItemsSortKey>;
+  cursor: SetItemsCursor;
+}): string {
+  const { sortKeys, cursor } = parameters;
+
+  const conditions: Array<Array<string>> = [];
+  const equalConditions: Array<string> = [];
+  for (const [index, sortKey] of sortKeys.entries()) {
+    const { after, equal } = buildCursorKeyConditions({
+      sortKey,
+      variable: getSortKeyVariable(index),
+      cursorSortKey: cursor.sortKeys[index] ?? "",
+    });
+
+    if (after != null) {
+      conditions.push(
+        equalConditions.length === 0
+          ? [after]
+          : [...equalConditions, `(${after})`],
+      );
+    }
+    equalConditions.push(equal);
+  }
+  conditions.push([
+    ...equalConditions,
+    `string($item/@uuid) gt ${stringLiteral(cursor.uuid)}`,
+  ]);
+
+  if (conditions.length === 1) {
+    return `where ${conditions[0]!.join(" and ")}`;
+  }
+
+  return `where ${conditions
+    .map((parts) =>
+      parts.length === 1 ? parts[0]! : `(${parts.join(" and ")})`,
+    )
+    .join(" or ")}`;
+}
+
+function buildOrderedItemsClause(
+  sort: SetItemsSort,
+  cursor: SetItemsCursor | null,
+): string {
+  const sortKeys = getSortKeys(sort);
+  if (sortKeys.length === 0) {
+    return "let $orderedItems := $items";
+  }
+
+  const orderByClauses = sortKeys.map((sortKey, index) =>
+    buildSortKeyOrderByClause({ sortKey, variable: getSortKeyVariable(index) }),
+  );
+  const clauses = [
+    "for $item in $items",
+    ...sortKeys.map(
+      (sortKey, index) =>
+        `let ${getSortKeyVariable(index)} := ${buildSortKeyExpression(sortKey)}`,
+    ),
+  ];
+
+  if (cursor != null) {
+    clauses.push(buildCursorWhereClause({ sortKeys, cursor }));
+  }
+
+  clauses.push(
+    `stable order by ${[...orderByClauses, "string($item/@uuid) ascending"].join(", ")}`,
+    "return $item",
+  );
 
   return `let $orderedItems :=
-    for $item at $position in $items
-      let $sortKey := ${sortKeyExpression}
-      stable order by ${buildPropertyValueOrderByClause({ dataType: sort.dataType, direction })}
-      return $item`;
+    ${clauses.join("\n      ")}`;
+}
+
+/**
+ * Build the attributes carrying the sort keys and UUID of the last item on the
+ * page, returned only when more items follow it. The sort keys are URI-encoded
+ * and joined by spaces.
+ */
+function buildCursorAttributes(parameters: {
+  sort: SetItemsSort;
+  endPosition: number;
+}): string {
+  const { sort, endPosition } = parameters;
+
+  const sortKeys = getSortKeys(sort);
+  if (sortKeys.length === 0) {
+    return "";
+  }
+
+  const sortKeyExpressions = sortKeys.map(
+    (sortKey) => `encode-for-uri(string(${buildSortKeyExpression(sortKey)}))`,
+  );
+
+  return `{
+    if (count($orderedItems) gt ${endPosition}) then
+      let $item := $pagedItems[last()]
+      return (
+        attribute cursorUuid { string($item/@uuid) },
+        attribute cursorSortKeys { string-join((${sortKeyExpressions.join(", ")}), " ") }
+      )
+    else ()
+  }`;
+}
+
+function getSortSignature(sort: SetItemsSort): string {
+  return JSON.stringify(sort);
+}
+
+function encodeSetItemsCursor(parameters: {
+  sort: SetItemsSort;
+  sortKeys: Array<string>;
+  uuid: string;
+}): string {
+  const { sort, sortKeys, uuid } = parameters;
+  return encodeBase64Url(
+    JSON.stringify({
+      version: 1,
+      sort: getSortSignature(sort),
+      sortKeys,
+      uuid,
+    }),
+  );
+}
+
+function decodeSetItemsCursor(
+  cursor: string,
+  sort: SetItemsSort,
+): SetItemsCursor {
+  let payload: unknown = null;
+  try {
+    payload = JSON.parse(decodeBase64Url(cursor));
+  } catch {}
+
+  const { success, issues, output } = v.safeParse(
+    setItemsCursorSchema,
+    payload,
+  );
+  if (!success) {
+    throw new OchreParameterError("Invalid Set items cursor", { issues });
+  }
+
+  if (output.sort !== getSortSignature(sort)) {
+    throw new OchreParameterError(
+      "The Set items cursor was created for a different sort",
+    );
+  }
+
+  return { sortKeys: output.sortKeys, uuid: output.uuid };
+}
+
+/**
+ * Convert code point offsets, as XQuery string functions count them, into
+ * offsets into the UTF-16 code units of a JavaScript string
+ */
+function getCodeUnitOffsets(text: string): Array<number> {
+  const offsets = [0];
+  for (const character of text) {
+    offsets.push(offsets.at(-1)! + character.length);
+  }
+
+  return offsets;
+}
+
+/**
+ * Cut a snippet down to the text around its first highlighted term, keeping
+ * whole words at either end
+ */
+function trimSetItemSnippet(snippet: SetItemSnippet): SetItemSnippet {
+  const { text, highlights } = snippet;
+  const [firstHighlight] = highlights;
+  if (firstHighlight == null) {
+    return snippet;
+  }
+
+  let start = Math.max(
+    0,
+    firstHighlight.start - SET_ITEM_SNIPPET_CONTEXT_LENGTH,
+  );
+  let end = Math.min(
+    text.length,
+    firstHighlight.end + SET_ITEM_SNIPPET_CONTEXT_LENGTH,
+  );
+
+  if (start > 0) {
+    const wordBoundary = text.indexOf(" ", start);
+    if (wordBoundary !== -1 && wordBoundary < firstHighlight.start) {
+      start = wordBoundary + 1;
+    }
+  }
+  if (end < text.length) {
+    const wordBoundary = text.lastIndexOf(" ", end);
+    if (wordBoundary >= firstHighlight.end) {
+      end = wordBoundary;
+    }
+  }
+
+  return {
+    ...snippet,
+    text: text.slice(start, end),
+    highlights: highlights
+      .filter((highlight) => highlight.start >= start && highlight.end <= end)
+      .map((highlight) => ({
+        start: highlight.start - start,
+        end: highlight.end - start,
+      })),
+    isTruncatedAtStart: snippet.isTruncatedAtStart || start > 0,
+    isTruncatedAtEnd: snippet.isTruncatedAtEnd || end < text.length,
+  };
+}
+
+/**
+ * Group the snippets returned alongside the Set items by item UUID
+ */
+function parseSetItemsSnippets(
+  snippets: Array<XMLSetItemsSnippet>,
+): Record<string, Array<SetItemSnippet>> {
+  const snippetsByUuid: Record<string, Array<SetItemSnippet>> = {};
+
+  for (const snippet of snippets) {
+    const codeUnitOffsets = getCodeUnitOffsets(snippet.text);
+    const codePointOffsets = snippet.highlights
+      .split(" ")
+      .filter((offset) => offset !== "")
+      .map((offset) => codeUnitOffsets[Number(offset)] ?? snippet.text.length);
+    const highlights: Array<{ start: number; end: number }> = [];
+    for (let index = 0; index + 1 < codePointOffsets.length; index += 2) {
+      highlights.push({
+        start: codePointOffsets[index]!,
+        end: codePointOffsets[index + 1]!,
+      });
+    }
+
+    snippetsByUuid[snippet.uuid] ??= [];
+    snippetsByUuid[snippet.uuid]!.push(
+      trimSetItemSnippet({
+        field: snippet.field,
+        propertyVariableUuid: snippet.propertyVariableUuid ?? null,
+        text: snippet.text,
+        highlights,
+        isTruncatedAtStart: snippet.hasTextBefore ?? false,
+        isTruncatedAtEnd: snippet.hasTextAfter ?? false,
+      }),
+    );
+  }
+
+  return snippetsByUuid;
+}
+
+/**
+ * Build the XQuery sorting and paging the items bound to `$items`
+ * @param parameters - The parameters for the page
+ * @param parameters.sort - Optional sorting configuration applied before pagination.
+ * For propertyValue sorting, dataType is required and the sort key uses the first valid leaf value (value[not(@i)]).
+ * @param parameters.page - The page number (1-indexed), ignored when a cursor is given
+ * @param parameters.cursor - The `nextCursor` of a previous response to resume after, or null to page by offset
+ * @param parameters.pageSize - The number of items per page
+ * @param parameters.shouldIncludeSnippets - Whether to return the highlighted snippets of the fields each paged item matched on
+ * @param parameters.snippetQueryExpression - The CTS query to highlight the matched text with, if any
+ * @param parameters.ocrSnippetQueryExpression - The CTS query to highlight the matched OCR words with, if any
+ * @returns The prolog declarations, the `let` clauses paging the items, and the expression returning the page
+ * @throws {OchreParameterError} When the cursor is invalid
+ * @internal
+ */
+export function buildSetItemsPageXQuery(parameters: {
+  sort: SetItemsSort;
+  page: number;
+  cursor: string | null;
+  pageSize: number;
+  shouldIncludeSnippets: boolean;
+  snippetQueryExpression: string | null;
+  ocrSnippetQueryExpression: string | null;
+}): { declarations: Array<string>; clauses: string; returnExpression: string } {
+  const {
+    sort,
+    page,
+    pageSize,
+    shouldIncludeSnippets,
+    snippetQueryExpression,
+    ocrSnippetQueryExpression,
+  } = parameters;
+
+  const cursor =
+    parameters.cursor == null
+      ? null
+      : decodeSetItemsCursor(parameters.cursor, sort);
+  const startPosition = cursor == null ? (page - 1) * pageSize + 1 : 1;
+  const pageExpression =
+    cursor == null
+      ? String(page)
+      : `{($totalCount - count($orderedItems)) idiv ${pageSize} + 1}`;
+  const orderedItemsClause = buildOrderedItemsClause(sort, cursor);
+  const cursorAttributes = buildCursorAttributes({
+    sort,
+    endPosition: startPosition + pageSize - 1,
+  });
+  const declarations = [SUPPLEMENTAL_XQUERY_PROLOG];
+
+  // The score and snippets of each paged item are returned next to the
+  // items rather than inside them, so the items are parsed unchanged
+  const itemDetailExpressions: Array<string> = [];
+  if (hasRelevanceSortKey(sort)) {
+    itemDetailExpressions.push(
+      '<score uuid="{$item/@uuid}" value="{cts:score($item)}"/>',
+    );
+  }
+  if (shouldIncludeSnippets) {
+    const snippetCalls: Array<string> = [];
+
+    if (snippetQueryExpression != null) {
+      snippetCalls.push(
+        `local:setItemSnippets($item, ${snippetQueryExpression})`,
+      );
+    }
+    if (ocrSnippetQueryExpression != null) {
+      snippetCalls.push(
+        `local:setItemOcrSnippet($item, ${ocrSnippetQueryExpression})`,
+      );
+    }
+    if (snippetCalls.length > 0) {
+      declarations.push(SET_ITEM_SNIPPETS_XQUERY_PROLOG);
+      itemDetailExpressions.push(...snippetCalls);
+    }
+  }
+  const itemDetailsExpression =
+    itemDetailExpressions.length === 0
+      ? ""
+      : `,
+    for $item in $pagedItems
+    return (${itemDetailExpressions.join(", ")})`;
+
+  return {
+    declarations,
+    clauses: `let $totalCount := count($items)
+  ${orderedItemsClause}
+  let $pagedItems := subsequence($orderedItems, ${startPosition}, ${pageSize})`,
+    returnExpression: `<items totalCount="{$totalCount}" page="${pageExpression}" pageSize="${pageSize}">${cursorAttributes}{
+    ${omitSupplemental("$pagedItems")}
+  }</items>${itemDetailsExpression}`,
+  };
 }
 
 /**
@@ -280,11 +943,13 @@ function buildOrderedItemsClause(sort: SetItemsSort): string {
  * @param parameters.setScopeUuids - An array of Set scope UUIDs to filter by
  * @param parameters.belongsToCollectionScopeUuids - An array of collection scope UUIDs to filter by
  * @param parameters.queries - Recursive query tree used to filter matching items
- * @param parameters.sort - Optional sorting configuration applied before pagination.
- * For propertyValue sorting, dataType is required and the sort key uses the first valid leaf value (value[not(@i)]).
- * @param parameters.page - The page number (1-indexed)
+ * @param parameters.sort - Optional sorting configuration applied before pagination
+ * @param parameters.page - The page number (1-indexed), ignored when a cursor is given
+ * @param parameters.cursor - The `nextCursor` of a previous response to resume after, or null to page by offset
  * @param parameters.pageSize - The number of items per page
- * @returns An XQuery string
+ * @param parameters.shouldIncludeSnippets - Whether to return the highlighted snippets of the fields each paged item matched on
+ * @returns The XQuery string, and the query plan and bindings compiled into it
+ * @throws {OchreParameterError} When the cursor is invalid
  */
 function buildXQuery(parameters: {
   setScopeUuids: Array<string>;
@@ -292,18 +957,12 @@ function buildXQuery(parameters: {
   queries: Query | null;
   sort: SetItemsSort;
   page: number;
+  cursor: string | null;
   pageSize: number;
-}): string {
-  const {
-    queries,
-    sort,
-    setScopeUuids,
-    belongsToCollectionScopeUuids,
-    page,
-    pageSize,
-  } = parameters;
+  shouldIncludeSnippets: boolean;
+}): { xquery: string; plan: QueryPlan; bindings: Array<QueryBinding> } {
+  const { queries, setScopeUuids, belongsToCollectionScopeUuids } = parameters;
 
-  const startPosition = (page - 1) * pageSize + 1;
   const setScopeValues = setScopeUuids.map((uuid) => stringLiteral(uuid));
   const setScopeDeclaration = `declare variable $setScopeUuids := (${setScopeValues.join(", ")});`;
   const compiledQueryPlan = buildQueryPlan({
@@ -314,11 +973,15 @@ function buildXQuery(parameters: {
       BELONGS_TO_COLLECTION_UUID,
     ),
   });
-  const orderedItemsClause = buildOrderedItemsClause(sort);
+  const { declarations, clauses, returnExpression } = buildSetItemsPageXQuery({
+    ...parameters,
+    snippetQueryExpression: compiledQueryPlan.snippetQueryExpression,
+    ocrSnippetQueryExpression: compiledQueryPlan.ocrSnippetQueryExpression,
+  });
   const xqueryDeclarations = [
     'xquery version "1.0-ml";',
     setScopeDeclaration,
-    SUPPLEMENTAL_XQUERY_PROLOG,
+    ...declarations,
   ];
 
   if (compiledQueryPlan.prolog !== "") {
@@ -329,16 +992,183 @@ function buildXQuery(parameters: {
 
 <ochre>{
 ${compiledQueryPlan.itemsClause}
-  let $totalCount := count($items)
-  ${orderedItemsClause}
-  let $pagedItems := subsequence($orderedItems, ${startPosition}, ${pageSize})
+  ${clauses}
 
-  return <items totalCount="{$totalCount}" page="${page}" pageSize="${pageSize}">{
-    ${omitSupplemental("$pagedItems")}
-  }</items>
+  return (${returnExpression})
 }</ochre>`;
 
-  return xquery;
+  return {
+    xquery,
+    plan: compiledQueryPlan.plan,
+    bindings: compiledQueryPlan.bindings,
+  };
+}
+
+/**
+ * Parse a page of Set items paged by {@link buildSetItemsPageXQuery} from an
+ * OCHRE response
+ * @param data - The response XML, parsed with the default parser options
+ * @param parameters - The parameters the page was requested with
+ * @param parameters.sort - The sort the items were paged by
+ * @param parameters.shouldIncludeSnippets - Whether the snippets of each paged item were requested
+ * @param parameters.containedItemCategories - The categories of the items to parse, if any
+ * @param parameters.requestedLanguages - The validated languages to parse, or none to use the languages found in the items
+ * @returns The total count, the page, the cursor to the next page, the unique items, and their scores and snippets
+ * @throws {OchreSchemaError} When the response does not have the expected shape
+ * @throws {OchreCategoryMismatchError} When no items were found for one of the categories
+ * @internal
+ */
+export function parseSetItemsResponse(
+  data: unknown,
+  parameters: {
+    sort: SetItemsSort;
+    shouldIncludeSnippets: boolean;
+    containedItemCategories: ReadonlyArray<SetItemCategory> | undefined;
+    requestedLanguages: ReadonlyArray<string>;
+  },
+): {
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  nextCursor: string | null;
+  items: Array<SetItem<SetItemCategory, ReadonlyArray<string>>>;
+  scores: Record<string, number> | null;
+  snippets: Record<string, Array<SetItemSnippet>> | null;
+} {
+  const {
+    sort,
+    shouldIncludeSnippets,
+    containedItemCategories,
+    requestedLanguages,
+  } = parameters;
+
+  const { success, issues, output } = v.safeParse(XMLSetItemsDataSchema, data);
+  if (!success) {
+    throw createSchemaValidationError(
+      "Failed to parse OCHRE Set items",
+      issues,
+    );
+  }
+  restoreXMLMetadata(output, data);
+
+  if (containedItemCategories != null) {
+    const missingCategories = containedItemCategories.filter(
+      (category) => !hasSetItemsCategory(output.result.ochre.items, category),
+    );
+
+    if (missingCategories.length > 0) {
+      throw new OchreCategoryMismatchError(
+        `No Set items found for item categories: ${missingCategories.join(", ")}`,
+        {
+          expected: containedItemCategories,
+          received: containedItemCategories.filter(
+            (category) => !missingCategories.includes(category),
+          ),
+        },
+      );
+    }
+  }
+
+  const languages = resolveSetItemsLanguages(output, requestedLanguages);
+  const items = parseSetItems(output.result.ochre.items, {
+    containedItemCategories,
+    languages,
+  });
+
+  const itemsByUuid = new Map<
+    string,
+    SetItem<SetItemCategory, ReadonlyArray<string>>
+  >();
+  for (const item of items) {
+    if (!itemsByUuid.has(item.uuid)) {
+      itemsByUuid.set(item.uuid, item);
+    }
+  }
+  const uniqueItems = itemsByUuid.values().toArray();
+  const { cursorUuid, cursorSortKeys = "" } = output.result.ochre.items;
+
+  return {
+    totalCount: output.result.ochre.items.totalCount,
+    page: output.result.ochre.items.page,
+    pageSize: output.result.ochre.items.pageSize,
+    nextCursor:
+      cursorUuid == null
+        ? null
+        : encodeSetItemsCursor({
+            sort,
+            sortKeys: cursorSortKeys
+              .split(" ")
+              .map((sortKey) => decodeURIComponent(sortKey)),
+            uuid: cursorUuid,
+          }),
+    items: uniqueItems,
+    scores: hasRelevanceSortKey(sort)
+      ? Object.fromEntries(
+          (output.result.ochre.score ?? []).map((score) => [
+            score.uuid,
+            score.value,
+          ]),
+        )
+      : null,
+    snippets: shouldIncludeSnippets
+      ? parseSetItemsSnippets(output.result.ochre.snippet ?? [])
+      : null,
+  };
+}
+
+/**
+ * Compiles the XQuery that {@link fetchSetItems} would send, without sending
+ * it, to debug a query that matches nothing or too much
+ *
+ * @param parameters - The parameters accepted by {@link fetchSetItems}
+ * @param parameters.setScopeUuids - The Set scope UUIDs to filter by
+ * @param parameters.queries - Recursive query tree used to filter matching items
+ * @param parameters.sort - Optional sorting configuration applied before pagination
+ * @param parameters.page - The page number (1-indexed)
+ * @param parameters.cursor - The `nextCursor` of a previous response, to resume after its last item
+ * @param parameters.pageSize - The number of items per page
+ * @param parameters.shouldIncludeSnippets - Whether to compile the snippet highlighting into the XQuery
+ * @returns The full XQuery, the plan tree the query compiled to, and the variables bound ahead of the searches, such as the OCR joins
+ * @throws {OchreParameterError} When the parameters or the cursor are invalid
+ */
+export function compileSetItemsXQuery(
+  parameters: {
+    setScopeUuids: Array<string>;
+    queries?: Query | null;
+    sort?: SetItemsSort;
+    pageSize?: number;
+    shouldIncludeSnippets?: boolean;
+  } & ({ page: number; cursor?: never } | { cursor: string; page?: never }),
+): { xquery: string; plan: QueryPlan; bindings: Array<QueryBinding> } {
+  const { success, issues, output } = v.safeParse(
+    setItemsParametersSchema,
+    parameters,
+  );
+  if (!success) {
+    throw new OchreParameterError("Invalid Set items parameters", { issues });
+  }
+
+  const {
+    setScopeUuids,
+    belongsToCollectionScopeUuids,
+    queries,
+    sort,
+    page,
+    cursor,
+    pageSize,
+    shouldIncludeSnippets,
+  } = output;
+
+  return buildXQuery({
+    setScopeUuids,
+    belongsToCollectionScopeUuids,
+    queries,
+    sort,
+    page,
+    cursor: cursor ?? null,
+    pageSize,
+    shouldIncludeSnippets,
+  });
 }
 
 /**
@@ -350,7 +1180,10 @@ ${compiledQueryPlan.itemsClause}
  * @param parameters.sort - Optional sorting configuration applied before pagination.
  * For propertyValue sorting, dataType is required and the sort key uses the first valid leaf value (value[not(@i)]).
  * @param parameters.page - The page number (1-indexed)
+ * @param parameters.cursor - The `nextCursor` of a previous response, to resume after its last item instead of requesting a page.
+ * Requires a sort other than `none`, and the same sort as the request that returned it.
  * @param parameters.pageSize - The number of items per page
+ * @param parameters.shouldIncludeSnippets - Return the highlighted snippets of the text each paged item matched in `snippets`, keyed by item UUID
  * @param containedItemCategories - The categories of the items to fetch
  * @param options - Options for the fetch
  * @param options.fetch - The fetch function to use
@@ -366,9 +1199,9 @@ export async function fetchSetItems<
     setScopeUuids: Array<string>;
     queries?: Query | null;
     sort?: SetItemsSort;
-    page: number;
     pageSize?: number;
-  },
+    shouldIncludeSnippets?: boolean;
+  } & ({ page: number; cursor?: never } | { cursor: string; page?: never }),
   containedItemCategories?: TContainedItemCategories,
   options?: FetchBaseOptions<TLanguages>,
 ): Promise<
@@ -376,22 +1209,30 @@ export async function fetchSetItems<
       totalCount: number;
       page: number;
       pageSize: number;
+      nextCursor: string | null;
       items: Array<
         SetItem<
           FetchSetItemsCategory<TContainedItemCategories>,
           FetchLanguages<TLanguages>
         >
       >;
+      scores: Record<string, number> | null;
+      snippets: Record<string, Array<SetItemSnippet>> | null;
       error: null;
       detailedError: null;
+      ochreError: null;
     }
   | {
       totalCount: null;
       page: null;
       pageSize: null;
+      nextCursor: null;
       items: null;
+      scores: null;
+      snippets: null;
       error: string;
       detailedError: string;
+      ochreError: OchreFetchError;
     }
 >;
 export async function fetchSetItems(
@@ -399,9 +1240,9 @@ export async function fetchSetItems(
     setScopeUuids: Array<string>;
     queries?: Query | null;
     sort?: SetItemsSort;
-    page: number;
     pageSize?: number;
-  },
+    shouldIncludeSnippets?: boolean;
+  } & ({ page: number; cursor?: never } | { cursor: string; page?: never }),
   containedItemCategories?: ReadonlyArray<SetItemCategory>,
   options?: FetchRuntimeOptions,
 ): Promise<
@@ -409,17 +1250,25 @@ export async function fetchSetItems(
       totalCount: number;
       page: number;
       pageSize: number;
+      nextCursor: string | null;
       items: Array<SetItem<SetItemCategory, ReadonlyArray<string>>>;
+      scores: Record<string, number> | null;
+      snippets: Record<string, Array<SetItemSnippet>> | null;
       error: null;
       detailedError: null;
+      ochreError: null;
     }
   | {
       totalCount: null;
       page: null;
       pageSize: null;
+      nextCursor: null;
       items: null;
+      scores: null;
+      snippets: null;
       error: string;
       detailedError: string;
+      ochreError: OchreFetchError;
     }
 > {
   try {
@@ -429,95 +1278,227 @@ export async function fetchSetItems(
       queries,
       sort,
       page,
+      cursor,
       pageSize,
+      shouldIncludeSnippets,
     } = v.parse(setItemsParametersSchema, parameters);
     const requestedLanguages: ReadonlyArray<string> =
       options?.languages == null ? [] : parseLanguages(options.languages);
 
-    const xquery = buildXQuery({
+    const { xquery } = buildXQuery({
       setScopeUuids,
       belongsToCollectionScopeUuids,
       queries,
       sort,
       page,
+      cursor: cursor ?? null,
       pageSize,
+      shouldIncludeSnippets,
     });
 
-    const response = await (options?.fetch ?? fetch)(
-      'https://ochre.lib.uchicago.edu/ochre/v2/ochre.php?xquery&xsl=none&lang="*"',
-      {
-        method: "POST",
-        body: xquery,
-        headers: { "Content-Type": "application/xquery" },
-      },
-    );
+    const response = await postXQuery(xquery, options);
     if (!response.ok) {
-      throw new Error(`OCHRE API responded with status: ${response.status}`, {
-        cause: response.statusText,
-      });
+      throw new OchreHttpError(
+        `OCHRE API responded with status: ${response.status}`,
+        response,
+      );
     }
 
     const dataRaw = await response.text();
-    const parser = new XMLParser(XML_PARSER_OPTIONS);
+    const parser = new XMLParser(SET_ITEMS_XML_PARSER_OPTIONS);
     const data = parser.parse(dataRaw) as unknown;
 
-    const { success, issues, output } = v.safeParse(
-      XMLSetItemsDataSchema,
-      data,
+    return {
+      ...parseSetItemsResponse(data, {
+        sort,
+        shouldIncludeSnippets,
+        containedItemCategories,
+        requestedLanguages,
+      }),
+      error: null,
+      detailedError: null,
+      ochreError: null,
+    };
+  } catch (error) {
+    return {
+      totalCount: null,
+      page: null,
+      pageSize: null,
+      nextCursor: null,
+      items: null,
+      scores: null,
+      snippets: null,
+      ...getErrorOutput(error, "Failed to fetch Set items", options),
+    };
+  }
+}
+
+type SetItemsPage = {
+  totalCount: number;
+  pageSize: number;
+  nextCursor: string | null;
+  items: Array<SetItem<SetItemCategory, ReadonlyArray<string>>>;
+};
+
+/**
+ * Keep a prefetched page from reporting an unhandled rejection; the rejection
+ * still surfaces when the page is awaited
+ */
+async function ignoreRejection(promise: Promise<unknown>): Promise<void> {
+  try {
+    await promise;
+  } catch {}
+}
+
+/**
+ * Iterates over every Set item matching the parameters, fetching pages lazily
+ *
+ * Pages are requested through `fetchSetItems` with the same sort, queries and
+ * page size, so items arrive in the same order as when paging by hand. With a
+ * sort, each page after the first resumes from the previous page's
+ * `nextCursor`, so items added or removed during the iteration do not shift
+ * the pages; without one, pages are requested by number. With the default
+ * `concurrency` of 1, the next page is only requested once the current one has
+ * been consumed; a higher value keeps that many page requests in flight ahead
+ * of the consumer once the first page has reported how many pages there are.
+ * A cursor is only known once the page before it has arrived, so with a sort
+ * at most the next page is requested ahead.
+ *
+ * Failures are thrown as typed OCHRE errors. Aborting `options.signal` ends
+ * the iteration without an error, and breaking out of the loop cancels the
+ * pages that were prefetched.
+ *
+ * @param parameters - The parameters for the fetch, as for `fetchSetItems` without `page`
+ * @param parameters.setScopeUuids - The Set scope UUIDs to filter by
+ * @param parameters.queries - Recursive query tree used to filter matching items
+ * @param parameters.sort - Optional sorting configuration applied before pagination
+ * @param parameters.pageSize - The number of items requested per page
+ * @param containedItemCategories - The categories of the items to fetch
+ * @param options - Options for the fetch
+ * @param options.concurrency - The number of page requests to keep in flight
+ * @returns An async iterable of the parsed Set items
+ */
+export function iterateSetItems<
+  const TContainedItemCategories extends
+    | ReadonlyArray<SetItemCategory>
+    | undefined = undefined,
+  const TLanguages extends ReadonlyArray<string> | undefined = undefined,
+>(
+  parameters: {
+    setScopeUuids: Array<string>;
+    queries?: Query | null;
+    sort?: SetItemsSort;
+    pageSize?: number;
+  },
+  containedItemCategories?: TContainedItemCategories,
+  options?: FetchBaseOptions<TLanguages> & { concurrency?: number },
+): AsyncIterable<
+  SetItem<
+    FetchSetItemsCategory<TContainedItemCategories>,
+    FetchLanguages<TLanguages>
+  >
+>;
+export async function* iterateSetItems(
+  parameters: {
+    setScopeUuids: Array<string>;
+    queries?: Query | null;
+    sort?: SetItemsSort;
+    pageSize?: number;
+  },
+  containedItemCategories?: ReadonlyArray<SetItemCategory>,
+  options?: FetchRuntimeOptions & { concurrency?: number },
+): AsyncGenerator<SetItem<SetItemCategory, ReadonlyArray<string>>> {
+  const { concurrency: _concurrency, ...fetchOptions } = options ?? {};
+  const controller = new AbortController();
+  const signal =
+    options?.signal == null
+      ? controller.signal
+      : AbortSignal.any([options.signal, controller.signal]);
+  const pendingPages = new Map<number, Promise<SetItemsPage>>();
+
+  async function fetchPage(
+    position: { page: number } | { cursor: string },
+  ): Promise<SetItemsPage> {
+    const result = await fetchSetItems(
+      { ...parameters, ...position },
+      containedItemCategories,
+      { ...fetchOptions, signal, shouldThrow: true },
     );
-    if (!success) {
-      throw createSchemaValidationError(
-        "Failed to parse OCHRE Set items",
-        issues,
-      );
+    if (result.error !== null) {
+      throw result.ochreError;
     }
-    restoreXMLMetadata(output, data);
 
-    if (containedItemCategories != null) {
-      const missingCategories = containedItemCategories.filter(
-        (category) => !hasSetItemsCategory(output.result.ochre.items, category),
-      );
+    return result;
+  }
+
+  function prefetchPage(page: number): void {
+    const pagePromise = fetchPage({ page });
+    void ignoreRejection(pagePromise);
+    pendingPages.set(page, pagePromise);
+  }
 
-      if (missingCategories.length > 0) {
-        throw new Error(
-          `No Set items found for item categories: ${missingCategories.join(", ")}`,
-          { cause: missingCategories },
-        );
+  /**
+   * Follow the cursor of each page to the next, requesting it before the
+   * current items are consumed when the concurrency allows
+   */
+  async function* iterateCursorPages(
+    concurrency: number,
+  ): AsyncGenerator<SetItem<SetItemCategory, ReadonlyArray<string>>> {
+    let pagePromise: Promise<SetItemsPage> | null = fetchPage({ page: 1 });
+    while (pagePromise != null) {
+      const { nextCursor, items } = await pagePromise;
+      pagePromise = null;
+
+      if (nextCursor != null && concurrency > 1) {
+        pagePromise = fetchPage({ cursor: nextCursor });
+        void ignoreRejection(pagePromise);
+      }
+
+      yield* items;
+
+      if (nextCursor != null) {
+        pagePromise ??= fetchPage({ cursor: nextCursor });
       }
     }
+  }
 
-    const languages = resolveSetItemsLanguages(output, requestedLanguages);
-    const items = parseSetItems(output.result.ochre.items, {
-      containedItemCategories,
-      languages,
+  try {
+    const { concurrency } = v.parse(setItemsIterationOptionsSchema, {
+      concurrency: options?.concurrency,
     });
 
-    const itemsByUuid = new Map<
-      string,
-      SetItem<SetItemCategory, ReadonlyArray<string>>
-    >();
-    for (const item of items) {
-      if (!itemsByUuid.has(item.uuid)) {
-        itemsByUuid.set(item.uuid, item);
-      }
+    if (parameters.sort != null && getSortKeys(parameters.sort).length > 0) {
+      yield* iterateCursorPages(concurrency);
+      return;
     }
-    const uniqueItems = itemsByUuid.values().toArray();
 
-    return {
-      totalCount: output.result.ochre.items.totalCount,
-      page: output.result.ochre.items.page,
-      pageSize: output.result.ochre.items.pageSize,
-      items: uniqueItems,
-      error: null,
-      detailedError: null,
-    };
+    let lastPage = Infinity;
+    let nextPrefetchedPage = 2;
+    for (let page = 1; page <= lastPage; page += 1) {
+      const pagePromise = pendingPages.get(page) ?? fetchPage({ page });
+      pendingPages.delete(page);
+      const { totalCount, pageSize, items } = await pagePromise;
+      lastPage = Math.ceil(totalCount / pageSize);
+
+      nextPrefetchedPage = Math.max(nextPrefetchedPage, page + 1);
+      while (
+        nextPrefetchedPage < page + concurrency &&
+        nextPrefetchedPage <= lastPage
+      ) {
+        prefetchPage(nextPrefetchedPage);
+        nextPrefetchedPage += 1;
+      }
+
+      yield* items;
+    }
   } catch (error) {
-    return {
-      totalCount: null,
-      page: null,
-      pageSize: null,
-      items: null,
-      ...getErrorOutput(error, "Failed to fetch Set items"),
-    };
+    const ochreError = toOchreError(error, "Failed to iterate Set items");
+    if (ochreError instanceof OchreAbortError && options?.signal?.aborted) {
+      return;
+    }
+
+    throw ochreError;
+  } finally {
+    controller.abort();
   }
 }
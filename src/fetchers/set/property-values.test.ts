@@ -1,4 +1,4 @@
-import { expect, it } from "vitest";
+import { describe, expect, it } from "vitest";
 import { fetchSetPropertyValues } from "#/fetchers/set/property-values.js";
 
 const UCHICAGO_NODE_SET_SCOPE_UUIDS = [
@@ -404,3 +404,349 @@ it("should fetch sosc-core-at-smart Set 'Wise to Power Collection' attribute val
   expect(attributeValues?.bibliographies?.length).toBeGreaterThan(0);
   expect(attributeValues?.periods?.length).toBeGreaterThan(0);
 });
+
+describe("fetchSetPropertyValues value trees", () => {
+  const setScopeUuid = "41f855f5-202e-4ec9-95d6-a87b793a9dcb";
+  const variableUuid = "8383140a-e676-417f-b5d8-863d9df6d905";
+  const queries = {
+    target: "property",
+    propertyVariable: variableUuid,
+    dataType: "string",
+    matchMode: "exact",
+    isCaseSensitive: true,
+    language: "eng",
+  } as const;
+
+  function buildPropertyValue(parameters: {
+    content: string;
+    parentContent: string | null;
+    level: number | null;
+    ownCount: number;
+    rolledUpCount: number;
+  }): string {
+    const key = `${variableUuid}||string||string||${parameters.content}`;
+    const parentKey =
+      parameters.parentContent == null
+        ? ""
+        : `${variableUuid}||string||string||${parameters.parentContent}`;
+
+    return `<propertyValue scope="variable" variableUuid="${variableUuid}" uuid="" rawValue="${parameters.content}" dataType="string" count="${parameters.rolledUpCount}" globalCount="${parameters.rolledUpCount}" key="${key}" parentKey="${parentKey}" level="${parameters.level ?? ""}" ownCount="${parameters.ownCount}" rolledUpCount="${parameters.rolledUpCount}">${parameters.content}</propertyValue>`;
+  }
+
+  it("nests property values under their parent values", async () => {
+    let postedBody = "";
+    const result = await fetchSetPropertyValues(
+      {
+        setScopeUuids: [setScopeUuid],
+        queries,
+        shouldIncludePropertyValueTrees: true,
+      },
+      {
+        fetch: async (_input, init) => {
+          postedBody = String(init?.body);
+
+          return new Response(
+            `<result><ochre>${[
+              buildPropertyValue({
+                content: "Bowl",
+                parentContent: "Ceramic",
+                level: null,
+                ownCount: 4,
+                rolledUpCount: 4,
+              }),
+              buildPropertyValue({
+                content: "Ceramic",
+                parentContent: null,
+                level: 1,
+                ownCount: 0,
+                rolledUpCount: 8,
+              }),
+              buildPropertyValue({
+                content: "Jar",
+                parentContent: "Ceramic",
+                level: null,
+                ownCount: 4,
+                rolledUpCount: 4,
+              }),
+              buildPropertyValue({
+                content: "Bead",
+                parentContent: "Glass",
+                level: null,
+                ownCount: 2,
+                rolledUpCount: 2,
+              }),
+            ].join("")}</ochre></result>`,
+          );
+        },
+      },
+    );
+    if (result.error !== null) {
+      throw new Error(result.detailedError);
+    }
+
+    expect(postedBody).toContain(
+      "local:put-property-hierarchy($variable-property-hierarchy, $variable-key, $variable-uuid, $v)",
+    );
+    expect(result.propertyValueTreesByPropertyVariableUuid).toMatchObject({
+      [variableUuid]: [
+        {
+          content: "Ceramic",
+          count: 0,
+          rolledUpCount: 8,
+          level: 1,
+          children: [
+            { content: "Bowl", count: 4, level: null, children: [] },
+            { content: "Jar", count: 4, level: null, children: [] },
+          ],
+        },
+        { content: "Bead", count: 2, rolledUpCount: 2, children: [] },
+      ],
+    });
+    expect(
+      result.propertyValuesByPropertyVariableUuid[variableUuid],
+    ).toHaveLength(4);
+  });
+
+  it("returns no trees unless they are requested", async () => {
+    let postedBody = "";
+    const result = await fetchSetPropertyValues(
+      { setScopeUuids: [setScopeUuid], queries },
+      {
+        fetch: async (_input, init) => {
+          postedBody = String(init?.body);
+
+          return new Response("<result><ochre/></result>");
+        },
+      },
+    );
+
+    expect(postedBody).not.toContain("local:value-parent");
+    expect(result.propertyValueTreesByPropertyVariableUuid).toBeNull();
+  });
+});
+
+describe("fetchSetPropertyValues numeric ranges", () => {
+  const setScopeUuid = "41f855f5-202e-4ec9-95d6-a87b793a9dcb";
+  const materialUuid = "8383140a-e676-417f-b5d8-863d9df6d905";
+  const weightUuid = "30054cb2-909a-4f34-8db9-8fe7369d691d";
+
+  it("filters the items by a range without counting its variable", async () => {
+    let postedBody = "";
+    const result = await fetchSetPropertyValues(
+      {
+        setScopeUuids: [setScopeUuid],
+        queries: {
+          and: [
+            {
+              target: "property",
+              propertyVariable: materialUuid,
+              dataType: "string",
+              value: "Ceramic",
+              matchMode: "exact",
+              isCaseSensitive: true,
+              language: "eng",
+            },
+            {
+              target: "property",
+              propertyVariable: weightUuid,
+              dataType: "decimal",
+              from: 10,
+              to: 20,
+              matchMode: "exact",
+              isCaseSensitive: true,
+              language: "eng",
+            },
+          ],
+        },
+      },
+      {
+        fetch: async (_input, init) => {
+          postedBody = String(init?.body);
+
+          return new Response("<result><ochre/></result>");
+        },
+      },
+    );
+    if (result.error !== null) {
+      throw new Error(result.detailedError);
+    }
+
+    expect(postedBody).toContain(
+      `properties//property[label/@uuid = "${weightUuid}"]/value[@rawValue castable as xs:decimal][xs:decimal(@rawValue) ge xs:decimal("10")][xs:decimal(@rawValue) le xs:decimal("20")]`,
+    );
+    expect(postedBody).toContain(
+      `$item/properties/property[label/@uuid = "${materialUuid}"]`,
+    );
+  });
+});
+
+describe("fetchSetPropertyValues histograms", () => {
+  const setScopeUuid = "41f855f5-202e-4ec9-95d6-a87b793a9dcb";
+  const weightUuid = "8383140a-e676-417f-b5d8-863d9df6d905";
+  const dateUuid = "30054cb2-909a-4f34-8db9-8fe7369d691d";
+
+  it("buckets numeric and date property values", async () => {
+    let postedBody = "";
+    const result = await fetchSetPropertyValues(
+      {
+        setScopeUuids: [setScopeUuid],
+        queries: null,
+        histograms: [
+          { propertyVariable: weightUuid, dataType: "decimal", binWidth: 25 },
+          { propertyVariable: dateUuid, dataType: "date", binCount: 2 },
+        ],
+      },
+      {
+        fetch: async (_input, init) => {
+          postedBody = String(init?.body);
+
+          return new Response(
+            `<result><ochre><histogram propertyVariableUuid="${weightUuid}" dataType="decimal" start="0" binWidth="25" bucketCount="3"><bucket index="2" count="4"/><bucket index="0" count="1"/></histogram><histogram propertyVariableUuid="${dateUuid}" dataType="date" start="0" binWidth="8.64E7" bucketCount="2"><bucket index="1" count="3"/></histogram></ochre></result>`,
+          );
+        },
+      },
+    );
+    if (result.error !== null) {
+      throw new Error(result.detailedError);
+    }
+
+    expect(postedBody).toContain(
+      `local:histogram($histogram-numbers1, "${weightUuid}", "decimal", xs:double("25"), 10)`,
+    );
+    expect(postedBody).toContain(
+      `local:histogram($histogram-numbers2, "${dateUuid}", "date", (), 2)`,
+    );
+    expect(result.histogramsByPropertyVariableUuid).toStrictEqual({
+      [weightUuid]: {
+        dataType: "decimal",
+        binWidth: 25,
+        buckets: [
+          { min: 0, max: 25, count: 1 },
+          { min: 25, max: 50, count: 0 },
+          { min: 50, max: 75, count: 4 },
+        ],
+      },
+      [dateUuid]: {
+        dataType: "date",
+        binWidth: 86_400_000,
+        buckets: [
+          {
+            min: new Date("1970-01-01T00:00:00Z"),
+            max: new Date("1970-01-02T00:00:00Z"),
+            count: 0,
+          },
+          {
+            min: new Date("1970-01-02T00:00:00Z"),
+            max: new Date("1970-01-03T00:00:00Z"),
+            count: 3,
+          },
+        ],
+      },
+    });
+  });
+
+  it("returns no buckets for a variable without values", async () => {
+    const result = await fetchSetPropertyValues(
+      {
+        setScopeUuids: [setScopeUuid],
+        queries: null,
+        histograms: [{ propertyVariable: weightUuid, dataType: "integer" }],
+      },
+      {
+        fetch: async () =>
+          new Response(
+            `<result><ochre><histogram propertyVariableUuid="${weightUuid}" dataType="integer" binWidth=""/></ochre></result>`,
+          ),
+      },
+    );
+
+    expect(result.histogramsByPropertyVariableUuid).toStrictEqual({
+      [weightUuid]: { dataType: "integer", binWidth: null, buckets: [] },
+    });
+  });
+
+  it("caps the buckets of a bin width too narrow for the values", async () => {
+    let postedBody = "";
+    const result = await fetchSetPropertyValues(
+      {
+        setScopeUuids: [setScopeUuid],
+        queries: null,
+        histograms: [
+          { propertyVariable: dateUuid, dataType: "date", binWidth: 1000 },
+        ],
+      },
+      {
+        fetch: async (_input, init) => {
+          postedBody = String(init?.body);
+
+          return new Response(
+            `<result><ochre><histogram propertyVariableUuid="${dateUuid}" dataType="date" start="0" binWidth="1000" bucketCount="10000000000"><bucket index="0" count="1"/></histogram></ochre></result>`,
+          );
+        },
+      },
+    );
+    if (result.error !== null) {
+      throw new Error(result.detailedError);
+    }
+
+    expect(postedBody).toContain(
+      "then $bin-width * ceiling($fixed-bucket-count div 999)",
+    );
+    expect(
+      result.histogramsByPropertyVariableUuid[dateUuid]?.buckets,
+    ).toHaveLength(1000);
+  });
+
+  it("rejects fractional bin widths for integer variables", async () => {
+    const result = await fetchSetPropertyValues({
+      setScopeUuids: [setScopeUuid],
+      queries: null,
+      histograms: [
+        { propertyVariable: weightUuid, dataType: "integer", binWidth: 2.5 },
+      ],
+    });
+
+    expect(result.error).not.toBeNull();
+    expect(result.histogramsByPropertyVariableUuid).toBeNull();
+  });
+});
+
+describe("fetchSetPropertyValues attribute facets", () => {
+  const setScopeUuid = "41f855f5-202e-4ec9-95d6-a87b793a9dcb";
+
+  it("counts categories, file formats, and presence attributes", async () => {
+    const result = await fetchSetPropertyValues(
+      {
+        setScopeUuids: [setScopeUuid],
+        queries: null,
+        attributes: { categories: true, fileFormats: true, hasImage: true },
+      },
+      {
+        fetch: async () =>
+          new Response(
+            `<result><ochre><attributeValue attributeType="categories" count="2" content="spatialUnit"/><attributeValue attributeType="categories" count="5" content="resource"/><attributeValue attributeType="fileFormats" count="5" content="image/jpeg"/><attributeValue attributeType="hasImage" count="3" content="false"/><attributeValue attributeType="hasImage" count="4" content="true"/></ochre></result>`,
+          ),
+      },
+    );
+    if (result.error !== null) {
+      throw new Error(result.detailedError);
+    }
+
+    expect(result.attributeValues).toStrictEqual({
+      bibliographies: null,
+      periods: null,
+      categories: [
+        { count: 5, content: "resource" },
+        { count: 2, content: "spatialUnit" },
+      ],
+      creators: null,
+      fileFormats: [{ count: 5, content: "image/jpeg" }],
+      hasCoordinates: null,
+      hasImage: [
+        { count: 4, content: true },
+        { count: 3, content: false },
+      ],
+      hasOcr: null,
+    });
+  });
+});
@@ -2,24 +2,35 @@
 /* eslint-disable unicorn/no-incorrect-template-string-interpolation */
 import { XMLParser } from "fast-xml-parser";
 import * as v from "valibot";
+import type { OchreFetchError } from "#/errors.js";
+import type { FetchRequestOptions } from "#/parsers/helpers.js";
 import type {
   PropertyRelation,
   PropertyValueQueryItem,
+  PropertyValueTreeNode,
   Query,
+  QueryLeaf,
   SetAttributeValueQueryItem,
+  SetAttributeValues,
+  SetPropertyValueHistogram,
+  SetPropertyValueHistogramBucket,
+  SetPropertyValueHistogramOptions,
 } from "#/types/index.js";
 import type { XMLContent } from "#/xml/types.js";
 import {
   BELONGS_TO_COLLECTION_UUID,
   DEFAULT_LANGUAGES,
+  MAX_HISTOGRAM_BUCKET_COUNT,
   XML_PARSER_OPTIONS,
 } from "#/constants.js";
+import { OchreHttpError } from "#/errors.js";
 import { MultilingualString } from "#/parsers/multilingual.js";
 import { parseXMLContent } from "#/parsers/string.js";
 import {
   buildBelongsToCollectionQueryExpression,
   buildQueryPlan,
 } from "#/query.js";
+import { postXQuery } from "#/request.js";
 import { setPropertyValuesParametersSchema } from "#/schemas.js";
 import {
   createSchemaValidationError,
@@ -32,13 +43,77 @@ type ParsedPropertyValueItem = PropertyValueQueryItem & {
   scope: "global" | "variable";
   variableUuid: string | null;
   globalCount: number | null;
+  key: string | null;
+  parentKey: string | null;
+  level: number | null;
+  ownCount: number | null;
+  rolledUpCount: number | null;
 };
 
 type ParsedAttributeValueItem = Omit<SetAttributeValueQueryItem, "content"> & {
-  attributeType: "bibliographies" | "periods";
+  attributeType: SetAttributeType;
   content: SetAttributeValueQueryItem["content"] | null;
 };
 
+type SetAttributeType = keyof SetAttributeValues;
+
+type SetPropertyValueHistogramParameters = Omit<
+  SetPropertyValueHistogramOptions,
+  "binCount"
+> & { binCount: number };
+
+/**
+ * The attributes counted over the matching items, each with the name of its
+ * XQuery variables and the expression returning the labels of one item.
+ * Presence attributes label every item with `"true"` or `"false"`.
+ */
+const ATTRIBUTE_FACETS: ReadonlyArray<{
+  attributeType: SetAttributeType;
+  name: string;
+  labelsExpression: string;
+}> = [
+  {
+    attributeType: "bibliographies",
+    name: "bibliography",
+    labelsExpression: `$item/bibliographies/bibliography${NOT_SUPPLEMENTAL_PREDICATE}/string-join(identification/label/content[@xml:lang="eng"]//text(), "")`,
+  },
+  {
+    attributeType: "periods",
+    name: "period",
+    labelsExpression: `$item/periods/period${NOT_SUPPLEMENTAL_PREDICATE}/string-join(identification/label/content[@xml:lang="eng"]//text(), "")`,
+  },
+  {
+    attributeType: "categories",
+    name: "category",
+    labelsExpression: "local-name($item)",
+  },
+  {
+    attributeType: "creators",
+    name: "creator",
+    labelsExpression: `($item/creators/creator | $item/authors/person)${NOT_SUPPLEMENTAL_PREDICATE}/string-join(identification/label/content[@xml:lang="eng"]//text(), "")`,
+  },
+  {
+    attributeType: "fileFormats",
+    name: "file-format",
+    labelsExpression: "$item/fileFormat/string()",
+  },
+  {
+    attributeType: "hasCoordinates",
+    name: "has-coordinates",
+    labelsExpression: `if (exists($item/coordinates/coord)) then "true" else "false"`,
+  },
+  {
+    attributeType: "hasImage",
+    name: "has-image",
+    labelsExpression: `if (exists($item/image)) then "true" else "false"`,
+  },
+  {
+    attributeType: "hasOcr",
+    name: "has-ocr",
+    labelsExpression: `if (map:contains($ocr-resource-uuids, string($item/@uuid))) then "true" else "false"`,
+  },
+];
+
 type ParsedPropertyValueLabelContent = XMLContent["content"];
 
 type PropertyFacetSelector = {
@@ -122,9 +197,9 @@ function normalizePropertyValueDataType(
   }
 }
 
-function sortPropertyValues(
-  values: Array<PropertyValueQueryItem>,
-): Array<PropertyValueQueryItem> {
+function sortPropertyValues<T extends PropertyValueQueryItem>(
+  values: Array<T>,
+): Array<T> {
   return values.toSorted((a, b) => {
     if (a.count !== b.count) {
       return b.count - a.count;
@@ -149,18 +224,131 @@ function getPropertyValueKey(value: {
   return `${value.dataType}|${typeof value.content}:${value.content.toLocaleString("en-US")}`;
 }
 
-function sortAttributeValues(
-  values: Array<SetAttributeValueQueryItem>,
-): Array<SetAttributeValueQueryItem> {
+function sortPropertyValueTree(
+  nodes: Array<PropertyValueTreeNode>,
+): Array<PropertyValueTreeNode> {
+  return sortPropertyValues(nodes)
+    .toSorted((a, b) => b.rolledUpCount - a.rolledUpCount)
+    .map((node) => ({
+      ...node,
+      children: sortPropertyValueTree(node.children),
+    }));
+}
+
+/**
+ * Nest the variable-scoped property values under their parent values. Values
+ * whose parent was not aggregated, such as when the facets are limited to leaf
+ * values, become roots.
+ */
+function buildPropertyValueTrees(
+  propertyValues: Array<ParsedPropertyValueItem>,
+): Record<string, Array<PropertyValueTreeNode>> {
+  const entriesByKey = new Map<
+    string,
+    {
+      node: PropertyValueTreeNode;
+      parentKey: string | null;
+      variableUuid: string;
+    }
+  >();
+
+  for (const propertyValue of propertyValues) {
+    if (
+      propertyValue.scope !== "variable" ||
+      propertyValue.variableUuid == null ||
+      propertyValue.key == null ||
+      propertyValue.content == null
+    ) {
+      continue;
+    }
+
+    entriesByKey.set(propertyValue.key, {
+      node: {
+        uuid: propertyValue.uuid,
+        count: propertyValue.ownCount ?? propertyValue.count,
+        dataType: propertyValue.dataType,
+        content: propertyValue.content,
+        label: propertyValue.label,
+        level: propertyValue.level,
+        rolledUpCount: propertyValue.rolledUpCount ?? propertyValue.count,
+        children: [],
+      },
+      parentKey: propertyValue.parentKey,
+      variableUuid: propertyValue.variableUuid,
+    });
+  }
+
+  const treesByPropertyVariableUuid: Record<
+    string,
+    Array<PropertyValueTreeNode>
+  > = {};
+
+  for (const { node, parentKey, variableUuid } of entriesByKey.values()) {
+    const parent = parentKey == null ? null : entriesByKey.get(parentKey);
+    if (parent?.variableUuid === variableUuid) {
+      parent.node.children.push(node);
+      continue;
+    }
+
+    (treesByPropertyVariableUuid[variableUuid] ??= []).push(node);
+  }
+
+  for (const [propertyVariableUuid, nodes] of Object.entries(
+    treesByPropertyVariableUuid,
+  )) {
+    treesByPropertyVariableUuid[propertyVariableUuid] =
+      sortPropertyValueTree(nodes);
+  }
+
+  return treesByPropertyVariableUuid;
+}
+
+function sortAttributeValues<T extends string | boolean>(
+  values: Array<SetAttributeValueQueryItem<T>>,
+): Array<SetAttributeValueQueryItem<T>> {
   return values.toSorted((a, b) => {
     if (a.count !== b.count) {
       return b.count - a.count;
     }
 
-    return a.content.localeCompare(b.content);
+    return String(a.content).localeCompare(String(b.content));
   });
 }
 
+/**
+ * Assemble the requested attribute values, turning the `"true"` and `"false"`
+ * labels of the presence attributes into booleans
+ */
+function getAttributeValues(
+  attributes: Record<SetAttributeType, boolean>,
+  valuesByType: Map<SetAttributeType, Array<SetAttributeValueQueryItem>>,
+): SetAttributeValues {
+  const getValues = (
+    attributeType: SetAttributeType,
+  ): Array<SetAttributeValueQueryItem> | null =>
+    attributes[attributeType]
+      ? sortAttributeValues(valuesByType.get(attributeType) ?? [])
+      : null;
+  const getPresenceValues = (
+    attributeType: SetAttributeType,
+  ): Array<SetAttributeValueQueryItem<boolean>> | null =>
+    getValues(attributeType)?.map(({ count, content }) => ({
+      count,
+      content: content === "true",
+    })) ?? null;
+
+  return {
+    bibliographies: getValues("bibliographies"),
+    periods: getValues("periods"),
+    categories: getValues("categories"),
+    creators: getValues("creators"),
+    fileFormats: getValues("fileFormats"),
+    hasCoordinates: getPresenceValues("hasCoordinates"),
+    hasImage: getPresenceValues("hasImage"),
+    hasOcr: getPresenceValues("hasOcr"),
+  };
+}
+
 const countSchema = v.pipe(
   v.optional(v.union([v.number(), v.string()]), 1),
   v.transform((value) => {
@@ -183,6 +371,18 @@ const propertyValueLabelContentSchema = v.object({
   string: v.array(propertyValueLabelStringSchema),
 });
 
+/**
+ * Whether a leaf selects a range of property values with `from` and `to`
+ * bounds. Ranges filter the items but do not select values to count.
+ */
+function isPropertyRangeQuery(query: QueryLeaf): boolean {
+  return (
+    query.target === "property" &&
+    (("from" in query && query.from != null) ||
+      ("to" in query && query.to != null))
+  );
+}
+
 function getPropertyFacetSelectorsFromQueries(
   queries: Query | null,
 ): Array<PropertyFacetSelector> {
@@ -200,7 +400,7 @@ function getPropertyFacetSelectorsFromQueries(
     }
 
     if ("target" in query) {
-      if (query.target !== "property") {
+      if (query.target !== "property" || isPropertyRangeQuery(query)) {
         continue;
       }
 
@@ -233,7 +433,11 @@ function getItemFilterQueriesFromPropertyValueQueries(
       return queries;
     }
 
-    if (queries.dataType === "date" || queries.dataType === "dateTime") {
+    if (
+      queries.dataType === "date" ||
+      queries.dataType === "dateTime" ||
+      isPropertyRangeQuery(queries)
+    ) {
       return queries;
     }
 
@@ -265,6 +469,80 @@ function getItemFilterQueriesFromPropertyValueQueries(
     : { or: filteredChildren };
 }
 
+/**
+ * Drop the leaves selecting values of a facet's own property from a query
+ * tree, so the facet's counts are not narrowed by its own selections. A dropped
+ * leaf no longer filters anything, so an `or` group holding one matches every
+ * item. Without a relation, the leaves of every relation are dropped, as a
+ * histogram reads the values of all of them.
+ */
+function getQueriesWithoutPropertyFacetSelections(
+  queries: Query | null,
+  selector: { uuid: string; relation?: PropertyRelation | null },
+): Query | null {
+  if (queries == null) {
+    return null;
+  }
+
+  if ("target" in queries) {
+    return queries.target === "property" &&
+      queries.propertyVariable === selector.uuid &&
+      (selector.relation === undefined ||
+        (queries.propertyRelation ?? null) === selector.relation)
+      ? null
+      : queries;
+  }
+
+  const isAndGroup = "and" in queries;
+  const childQueries = isAndGroup ? queries.and : queries.or;
+  const remainingChildren: Array<Query> = [];
+
+  for (const childQuery of childQueries) {
+    const remainingChildQuery = getQueriesWithoutPropertyFacetSelections(
+      childQuery,
+      selector,
+    );
+
+    if (remainingChildQuery == null) {
+      if (!isAndGroup) {
+        return null;
+      }
+
+      continue;
+    }
+
+    remainingChildren.push(remainingChildQuery);
+  }
+
+  if (remainingChildren.length === 0) {
+    return null;
+  }
+
+  if (remainingChildren.length === 1) {
+    return remainingChildren[0] ?? null;
+  }
+
+  return isAndGroup ? { and: remainingChildren } : { or: remainingChildren };
+}
+
+function buildPropertyFacetPredicate(
+  selectors: Array<PropertyFacetSelector>,
+): string {
+  const facetPropertyPredicates: Array<string> = [];
+  for (const selector of selectors) {
+    const uuidPredicate = `label/@uuid = ${stringLiteral(selector.uuid)}`;
+    facetPropertyPredicates.push(
+      selector.relation == null
+        ? uuidPredicate
+        : `(${uuidPredicate} and label/@relation = ${stringLiteral(selector.relation)})`,
+    );
+  }
+
+  return facetPropertyPredicates.length === 1
+    ? (facetPropertyPredicates[0] ?? "false()")
+    : `(${facetPropertyPredicates.join(" or ")})`;
+}
+
 /**
  * Schema for a single property value query item in the OCHRE API response
  */
@@ -275,6 +553,11 @@ const propertyValueQueryItemSchema = v.pipe(
     variableUuid: v.optional(v.string()),
     count: countSchema,
     globalCount: v.nullish(countSchema),
+    key: v.optional(v.string()),
+    parentKey: v.optional(v.string()),
+    level: v.optional(v.string()),
+    ownCount: v.optional(countSchema),
+    rolledUpCount: v.optional(countSchema),
     dataType: v.optional(v.string(), "string"),
     rawValue: v.optional(v.string()),
     payload: v.optional(v.string()),
@@ -292,6 +575,15 @@ const propertyValueQueryItemSchema = v.pipe(
           : null,
       count: value.count,
       globalCount: value.globalCount ?? null,
+      key: value.key != null && value.key !== "" ? value.key : null,
+      parentKey:
+        value.parentKey != null && value.parentKey !== ""
+          ? value.parentKey
+          : null,
+      level:
+        value.level != null && value.level !== "" ? Number(value.level) : null,
+      ownCount: value.ownCount ?? null,
+      rolledUpCount: value.rolledUpCount ?? null,
       dataType,
       content: null,
       label,
@@ -333,7 +625,9 @@ const propertyValueQueryItemSchema = v.pipe(
 
 const attributeValueQueryItemSchema = v.pipe(
   v.object({
-    attributeType: v.picklist(["bibliographies", "periods"]),
+    attributeType: v.picklist(
+      ATTRIBUTE_FACETS.map(({ attributeType }) => attributeType),
+    ),
     count: countSchema,
     content: v.optional(v.string()),
     payload: v.optional(v.string()),
@@ -350,6 +644,87 @@ const attributeValueQueryItemSchema = v.pipe(
   })),
 );
 
+const numericAttributeSchema = v.pipe(
+  v.union([v.number(), v.string()]),
+  v.transform((value) => (value === "" ? null : Number(value))),
+);
+
+const propertyValueHistogramBucketSchema = v.object({
+  index: numericAttributeSchema,
+  count: countSchema,
+});
+
+/**
+ * Schema for a property value histogram in the OCHRE API response
+ */
+const propertyValueHistogramSchema = v.pipe(
+  v.object({
+    propertyVariableUuid: v.string(),
+    dataType: v.picklist(["integer", "decimal", "date", "dateTime"]),
+    start: v.optional(numericAttributeSchema),
+    binWidth: v.optional(numericAttributeSchema),
+    bucketCount: v.optional(numericAttributeSchema),
+    bucket: v.optional(
+      v.union([
+        v.array(propertyValueHistogramBucketSchema),
+        propertyValueHistogramBucketSchema,
+      ]),
+    ),
+  }),
+  v.transform(
+    (value): { propertyVariableUuid: string } & SetPropertyValueHistogram => {
+      const binWidth = value.binWidth ?? null;
+      const buckets =
+        value.bucket == null
+          ? []
+          : Array.isArray(value.bucket)
+            ? value.bucket
+            : [value.bucket];
+      const countsByIndex = new Map<number, number>();
+      for (const bucket of buckets) {
+        if (bucket.index != null) {
+          countsByIndex.set(bucket.index, bucket.count);
+        }
+      }
+
+      const numericBuckets: Array<SetPropertyValueHistogramBucket<number>> = [];
+      if (binWidth != null && value.start != null) {
+        const bucketCount = Math.min(
+          value.bucketCount ?? 0,
+          MAX_HISTOGRAM_BUCKET_COUNT,
+        );
+        for (let index = 0; index < bucketCount; index += 1) {
+          numericBuckets.push({
+            min: value.start + index * binWidth,
+            max: value.start + (index + 1) * binWidth,
+            count: countsByIndex.get(index) ?? 0,
+          });
+        }
+      }
+
+      if (value.dataType === "date" || value.dataType === "dateTime") {
+        return {
+          propertyVariableUuid: value.propertyVariableUuid,
+          dataType: value.dataType,
+          binWidth,
+          buckets: numericBuckets.map((bucket) => ({
+            min: new Date(bucket.min),
+            max: new Date(bucket.max),
+            count: bucket.count,
+          })),
+        };
+      }
+
+      return {
+        propertyVariableUuid: value.propertyVariableUuid,
+        dataType: value.dataType,
+        binWidth,
+        buckets: numericBuckets,
+      };
+    },
+  ),
+);
+
 /**
  * Schema for the property values OCHRE API response
  */
@@ -369,57 +744,234 @@ const responseSchema = v.object({
           attributeValueQueryItemSchema,
         ]),
       ),
+      histogram: v.optional(
+        v.union([
+          v.array(propertyValueHistogramSchema),
+          propertyValueHistogramSchema,
+        ]),
+      ),
     }),
   }),
 });
 
 /**
- * Build an XQuery string to fetch property values from the OCHRE API
- * @param parameters - The parameters for the fetch
- * @param parameters.setScopeUuids - An array of set scope UUIDs to filter by
- * @param parameters.belongsToCollectionScopeUuids - An array of collection scope UUIDs to filter by
- * @param parameters.queries - Recursive query tree used to filter matching items
+ * XQuery prolog placing property values in their value hierarchy. OCHRE lists
+ * the ancestors of a hierarchical value before it in the same property, each
+ * with its level in `@i`, so the parent of a value is the nearest preceding
+ * value one level up, and the parent of a leaf value the nearest preceding
+ * value with a level.
+ */
+const PROPERTY_VALUE_TREE_XQUERY_PROLOG = `declare function local:value-parent($v) {
+  if (exists($v/@i))
+  then $v/preceding-sibling::value[@i][xs:integer(@i) lt xs:integer($v/@i)][1]
+  else $v/preceding-sibling::value[@i][1]
+};
+
+declare function local:value-ancestors($v) {
+  let $parent := local:value-parent($v)
+  return if (empty($parent)) then () else ($parent, local:value-ancestors($parent))
+};
+
+declare function local:variable-property-key($variable-uuid, $v) {
+  let $data-type := string($v/@dataType)
+  let $content := local:value-content($data-type, string($v/@rawValue), string($v/@uuid), local:value-display-text($v))
+  return string-join(($variable-uuid, $data-type, local:value-kind($data-type), $content), "||")
+};
+
+declare function local:put-property-hierarchy($hierarchy, $key, $variable-uuid, $v) {
+  if (exists(map:get($hierarchy, $key))) then ()
+  else
+    let $parent := local:value-parent($v)
+    return map:put(
+      $hierarchy,
+      $key,
+      <hierarchy level="{string($v/@i)}" parentKey="{
+        if (empty($parent)) then "" else local:variable-property-key($variable-uuid, $parent)
+      }"/>
+    )
+};`;
+
+/**
+ * XQuery prolog declaring `local:histogram-number`, which reads a numeric raw
+ * value, or a date one as milliseconds since the Unix epoch, and
+ * `local:histogram`, which buckets the numbers of each item, counting an item
+ * once per bucket. Fixed-width buckets start at a multiple of their width, and
+ * automatic ones span the values, with integer widths for integers. A fixed
+ * width that would give more than 1000 buckets is widened to a multiple of it
+ * that gives at most that many.
+ */
+const HISTOGRAM_XQUERY_PROLOG = `declare function local:histogram-number($raw-value as xs:string, $data-type as xs:string) as xs:double? {
+  if ($data-type = ("date", "dateTime")) then
+    let $date-time :=
+      if ($raw-value castable as xs:dateTime) then xs:dateTime($raw-value)
+      else if ($raw-value castable as xs:date) then xs:dateTime(xs:date($raw-value))
+      else ()
+    return
+      if (empty($date-time)) then ()
+      else xs:double(
+        (adjust-dateTime-to-timezone($date-time, xs:dayTimeDuration("PT0H")) - xs:dateTime("1970-01-01T00:00:00Z"))
+        div xs:dayTimeDuration("PT0.001S")
+      )
+  else if ($raw-value castable as xs:double) then
+    let $number := xs:double($raw-value)
+    return if ($number = $number and abs($number) lt xs:double("INF")) then $number else ()
+  else ()
+};
+
+declare function local:histogram(
+  $numbers-by-item,
+  $property-variable-uuid as xs:string,
+  $data-type as xs:string,
+  $bin-width as xs:double?,
+  $bin-count as xs:integer
+) {
+  let $numbers := for $key in map:keys($numbers-by-item) return map:get($numbers-by-item, $key)
+  let $min := min($numbers)
+  let $max := max($numbers)
+  return
+    if (empty($min)) then
+      <histogram propertyVariableUuid="{$property-variable-uuid}" dataType="{$data-type}" binWidth="{$bin-width}"/>
+    else
+      let $width :=
+        if (exists($bin-width)) then
+          let $fixed-bucket-count := floor($max div $bin-width) - floor($min div $bin-width) + 1
+          return
+            if ($fixed-bucket-count gt ${MAX_HISTOGRAM_BUCKET_COUNT})
+            then $bin-width * ceiling($fixed-bucket-count div ${MAX_HISTOGRAM_BUCKET_COUNT - 1})
+            else $bin-width
+        else if ($max eq $min) then 1
+        else if ($data-type eq "integer") then ceiling(($max - $min + 1) div $bin-count)
+        else ($max - $min) div $bin-count
+      let $start := if (exists($bin-width)) then floor($min div $width) * $width else $min
+      let $last-index :=
+        if (empty($bin-width) and $data-type ne "integer" and $max ne $min) then $bin-count - 1
+        else xs:integer(floor(($max - $start) div $width))
+      let $counts := map:map()
+      let $_counting :=
+        for $key in map:keys($numbers-by-item)
+        for $index in distinct-values(
+          for $number in map:get($numbers-by-item, $key)
+          return min((xs:integer(floor(($number - $start) div $width)), $last-index))
+        )
+        return local:increment-count($counts, string($index))
+      return (
+        $_counting,
+        <histogram propertyVariableUuid="{$property-variable-uuid}" dataType="{$data-type}" start="{$start}" binWidth="{$width}" bucketCount="{$last-index + 1}">{
+          for $index in map:keys($counts)
+          return <bucket index="{$index}" count="{map:get($counts, $index)}"/>
+        }</histogram>
+      )
+};`;
+
+/**
+ * XQuery prolog declaring `local:item-seen-map`, which returns the seen map of
+ * an item from a map of them, creating it on first use
+ */
+const ITEM_SEEN_MAP_XQUERY_PROLOG = `declare function local:item-seen-map($seen-maps, $item-uuid) {
+  let $existing := map:get($seen-maps, $item-uuid)
+  return
+    if (exists($existing)) then $existing
+    else
+      let $seen := map:map()
+      return (map:put($seen-maps, $item-uuid, $seen), $seen)
+};`;
+
+/**
+ * Build the XQuery counting the requested facets over the items bound to
+ * `$items`. Facets counted over other items, such as disjunctive ones, read
+ * `$facet-items1`, `$facet-items2`, and so on, which the caller binds to the
+ * returned facet queries in order.
+ * @param parameters - The parameters for the facets
+ * @param parameters.queries - Recursive query tree the items are filtered by
+ * @param parameters.getItemFilterQueries - Derives the query tree items are actually filtered by from `queries`, or from `queries` without a facet's own selections
  * @param parameters.propertyFacetSelectors - Property variable/relation selectors to aggregate, if any
- * @param parameters.attributes - Whether to return values for bibliographies and periods
- * @param parameters.attributes.bibliographies - Whether to return values for bibliographies
- * @param parameters.attributes.periods - Whether to return values for periods
+ * @param parameters.attributes - Whether to return values for each item attribute
  * @param parameters.isLimitedToLeafPropertyValues - Whether to limit the property values to leaf property values
- * @returns An XQuery string
+ * @param parameters.shouldIncludePropertyValueTrees - Whether to return the hierarchy level, parent, and own and rolled-up counts of each property value
+ * @param parameters.isDisjunctive - Whether to count each property facet over the items matching the queries without its own selections
+ * @param parameters.histograms - The numeric and date property variables to bucket
+ * @returns The prolog declarations, the queries of the facet item sets, the `let` blocks counting the facets, and the variables holding their output
+ * @internal
  */
-function buildXQuery(parameters: {
-  setScopeUuids: Array<string>;
-  belongsToCollectionScopeUuids: Array<string>;
+export function buildSetFacetsXQuery(parameters: {
   queries: Query | null;
+  getItemFilterQueries: (queries: Query | null) => Query | null;
   propertyFacetSelectors: Array<PropertyFacetSelector>;
-  attributes: { bibliographies: boolean; periods: boolean };
+  attributes: Record<SetAttributeType, boolean>;
   isLimitedToLeafPropertyValues: boolean;
-}): string {
+  shouldIncludePropertyValueTrees: boolean;
+  isDisjunctive: boolean;
+  histograms: Array<SetPropertyValueHistogramParameters>;
+}): {
+  declarations: Array<string>;
+  facetQueries: Array<Query | null>;
+  queryBlocks: Array<string>;
+  returnedSequences: Array<string>;
+} {
   const {
-    setScopeUuids,
-    belongsToCollectionScopeUuids,
     queries,
+    getItemFilterQueries,
     propertyFacetSelectors,
     attributes,
     isLimitedToLeafPropertyValues,
+    shouldIncludePropertyValueTrees,
+    isDisjunctive,
+    histograms,
   } = parameters;
 
-  const setScopeValues = setScopeUuids.map((uuid) => stringLiteral(uuid));
-  const setScopeDeclaration = `declare variable $setScopeUuids := (${setScopeValues.join(", ")});`;
-  const compiledQueryPlan = buildQueryPlan({
-    queries: getItemFilterQueriesFromPropertyValueQueries(queries),
-    baseItemsExpression: "doc()/ochre/set[@uuid = $setScopeUuids]/items/*",
-    scopeQueryExpression: buildBelongsToCollectionQueryExpression(
-      belongsToCollectionScopeUuids,
-      BELONGS_TO_COLLECTION_UUID,
-    ),
-  });
+  const itemFilterQueries = getItemFilterQueries(queries);
+
+  // Facets whose item filter matches the full one, or another facet's, share
+  // its items rather than searching again
+  const facetQueries: Array<Query | null> = [];
+  const itemsVariablesByQueryKey = new Map<string, string>([
+    [JSON.stringify(itemFilterQueries), "$items"],
+  ]);
+  const getFacetItemsVariable = (selector: {
+    uuid: string;
+    relation?: PropertyRelation | null;
+  }): string => {
+    const facetQuery = isDisjunctive
+      ? getItemFilterQueries(
+          getQueriesWithoutPropertyFacetSelections(queries, selector),
+        )
+      : itemFilterQueries;
+    const queryKey = JSON.stringify(facetQuery);
+    const itemsVariable = itemsVariablesByQueryKey.get(queryKey);
+    if (itemsVariable != null) {
+      return itemsVariable;
+    }
+
+    facetQueries.push(facetQuery);
+    const facetItemsVariable = `$facet-items${facetQueries.length}`;
+    itemsVariablesByQueryKey.set(queryKey, facetItemsVariable);
+
+    return facetItemsVariable;
+  };
+  const selectorsByItemsVariable = new Map<
+    string,
+    Array<PropertyFacetSelector>
+  >();
+
+  for (const selector of propertyFacetSelectors) {
+    const itemsVariable = getFacetItemsVariable(selector);
+    const selectors = selectorsByItemsVariable.get(itemsVariable);
+    if (selectors == null) {
+      selectorsByItemsVariable.set(itemsVariable, [selector]);
+    } else {
+      selectors.push(selector);
+    }
+  }
+
+  const histogramItemsVariables = histograms.map((histogram) =>
+    getFacetItemsVariable({ uuid: histogram.propertyVariable }),
+  );
+
   const valueFilter = isLimitedToLeafPropertyValues ? "[not(@i)]" : "";
   const queryBlocks: Array<string> = [];
   const returnedSequences: Array<string> = [];
-  const xqueryDeclarations = [
-    'xquery version "1.0-ml";',
+  const declarations = [
     'declare namespace map = "http://marklogic.com/xdmp/map";',
-    setScopeDeclaration,
     `declare function local:increment-count($counts, $key) {
   let $current := map:get($counts, $key)
   return map:put(
@@ -531,35 +1083,66 @@ declare function local:add-attribute-facet($counts, $seen, $key) {
 };`,
   ];
 
-  if (compiledQueryPlan.prolog !== "") {
-    xqueryDeclarations.push(compiledQueryPlan.prolog);
+  if (shouldIncludePropertyValueTrees) {
+    declarations.push(PROPERTY_VALUE_TREE_XQUERY_PROLOG);
   }
 
-  if (propertyFacetSelectors.length > 0) {
-    const facetPropertyPredicates: Array<string> = [];
-    for (const selector of propertyFacetSelectors) {
-      const uuidPredicate = `label/@uuid = ${stringLiteral(selector.uuid)}`;
-      facetPropertyPredicates.push(
-        selector.relation == null
-          ? uuidPredicate
-          : `(${uuidPredicate} and label/@relation = ${stringLiteral(selector.relation)})`,
-      );
-    }
-    const facetPropertyPredicate =
-      facetPropertyPredicates.length === 1
-        ? (facetPropertyPredicates[0] ?? "false()")
-        : `(${facetPropertyPredicates.join(" or ")})`;
+  if (selectorsByItemsVariable.size > 1) {
+    declarations.push(ITEM_SEEN_MAP_XQUERY_PROLOG);
+  }
 
-    queryBlocks.push(`let $global-property-counts := map:map()
-let $variable-property-counts := map:map()
-let $variable-property-details := map:map()
-let $variable-property-global-keys := map:map()
-let $_property-aggregation := xdmp:eager(
-  for $item in $items
-  let $global-seen := map:map()
-  let $variable-seen := map:map()
+  if (histograms.length > 0) {
+    declarations.push(HISTOGRAM_XQUERY_PROLOG);
+  }
+
+  if (propertyFacetSelectors.length > 0) {
+    // Items counted by several facet loops keep one seen map per item, so a
+    // value shared by their facets is still counted once per item
+    const seenMapNames = [
+      "global-seen",
+      "variable-seen",
+      ...(shouldIncludePropertyValueTrees
+        ? ["own-seen", "rolled-up-seen"]
+        : []),
+    ];
+    const seenMapDeclarations =
+      selectorsByItemsVariable.size > 1
+        ? seenMapNames
+            .map((name) => `\nlet $${name}-maps := map:map()`)
+            .join("")
+        : "";
+    const seenMapBindings = seenMapNames
+      .map((name) =>
+        selectorsByItemsVariable.size > 1
+          ? `\n  let $${name} := local:item-seen-map($${name}-maps, string($item/@uuid))`
+          : `\n  let $${name} := map:map()`,
+      )
+      .join("");
+    const treeMaps = shouldIncludePropertyValueTrees
+      ? `
+let $variable-property-hierarchy := map:map()
+let $variable-property-own-counts := map:map()
+let $variable-property-rolled-up-counts := map:map()`
+      : "";
+    const treeAggregation = shouldIncludePropertyValueTrees
+      ? `,
+      local:put-property-hierarchy($variable-property-hierarchy, $variable-key, $variable-uuid, $v),
+      if (exists($v/@i)) then ()
+      else local:add-attribute-facet($variable-property-own-counts, $own-seen, $variable-key),
+      local:add-attribute-facet($variable-property-rolled-up-counts, $rolled-up-seen, $variable-key),
+      for $ancestor in local:value-ancestors($v)
+      return local:add-attribute-facet($variable-property-rolled-up-counts, $rolled-up-seen, local:variable-property-key($variable-uuid, $ancestor))`
+      : "";
+    const treeAttributes = shouldIncludePropertyValueTrees
+      ? ` key="{$key}" parentKey="{string(map:get($variable-property-hierarchy, $key)/@parentKey)}" level="{string(map:get($variable-property-hierarchy, $key)/@level)}" ownCount="{(map:get($variable-property-own-counts, $key), 0)[1]}" rolledUpCount="{map:get($variable-property-rolled-up-counts, $key)}"`
+      : "";
+
+    const aggregationLoops: Array<string> = [];
+
+    for (const [itemsVariable, selectors] of selectorsByItemsVariable) {
+      aggregationLoops.push(`for $item in ${itemsVariable}${seenMapBindings}
   return
-    for $p in $item/properties/property[${facetPropertyPredicate}]${NOT_SUPPLEMENTAL_PREDICATE}
+    for $p in $item/properties/property[${buildPropertyFacetPredicate(selectors)}]${NOT_SUPPLEMENTAL_PREDICATE}
     let $variable-uuid := string($p/label/@uuid)
     for $v in $p/value${valueFilter}${NOT_SUPPLEMENTAL_PREDICATE}
     let $value-uuid := string($v/@uuid)
@@ -576,8 +1159,16 @@ let $_property-aggregation := xdmp:eager(
     return (
       local:add-attribute-facet($global-property-counts, $global-seen, $global-key),
       local:add-property-facet($variable-property-counts, $variable-property-details, $variable-seen, $variable-key, "variable", $variable-uuid, $value-uuid, $output-raw-value, $data-type, $display, $label-content),
-      map:put($variable-property-global-keys, $variable-key, $global-key)
-    )
+      map:put($variable-property-global-keys, $variable-key, $global-key)${treeAggregation}
+    )`);
+    }
+
+    queryBlocks.push(`let $global-property-counts := map:map()
+let $variable-property-counts := map:map()
+let $variable-property-details := map:map()
+let $variable-property-global-keys := map:map()${treeMaps}${seenMapDeclarations}
+let $_property-aggregation := xdmp:eager(
+  ${aggregationLoops.length === 1 ? (aggregationLoops[0] ?? "") : `(\n  ${aggregationLoops.join(",\n\n  ")}\n  )`}
 )
 
 let $property-values :=
@@ -586,59 +1177,135 @@ let $property-values :=
     for $key in map:keys($variable-property-counts)
     let $detail := map:get($variable-property-details, $key)
     let $global-key := map:get($variable-property-global-keys, $key)
-    return <propertyValue scope="variable" variableUuid="{string($detail/@variableUuid)}" uuid="{string($detail/@uuid)}" rawValue="{string($detail/@rawValue)}" dataType="{string($detail/@dataType)}" count="{map:get($variable-property-counts, $key)}" globalCount="{map:get($global-property-counts, $global-key)}">{
+    return <propertyValue scope="variable" variableUuid="{string($detail/@variableUuid)}" uuid="{string($detail/@uuid)}" rawValue="{string($detail/@rawValue)}" dataType="{string($detail/@dataType)}" count="{map:get($variable-property-counts, $key)}" globalCount="{map:get($global-property-counts, $global-key)}"${treeAttributes}>{
       $detail/node()
     }</propertyValue>
   )`);
     returnedSequences.push("$property-values");
   }
 
-  if (attributes.bibliographies) {
-    queryBlocks.push(`let $bibliography-counts := map:map()
-let $_bibliography-aggregation := xdmp:eager(
-  for $item in $items
-  let $seen := map:map()
-  return
-    for $bibliography in $item/bibliographies/bibliography${NOT_SUPPLEMENTAL_PREDICATE}
-    let $label := string-join($bibliography/identification/label/content[@xml:lang="eng"]//text(), "")
-    where string-length($label) gt 0
-    return local:add-attribute-facet($bibliography-counts, $seen, $label)
-)
+  for (const [index, histogram] of histograms.entries()) {
+    const histogramNumber = index + 1;
 
-let $bibliography-values :=
+    queryBlocks.push(`let $histogram-numbers${histogramNumber} := map:map()
+let $histogram${histogramNumber} :=
   (
-    $_bibliography-aggregation,
-    for $label in map:keys($bibliography-counts)
-    return <attributeValue attributeType="bibliographies" count="{map:get($bibliography-counts, $label)}" content="{$label}" />
+    xdmp:eager(
+      for $item in ${histogramItemsVariables[index] ?? "$items"}
+      let $numbers := distinct-values(
+        for $v in $item/properties/property[label/@uuid = ${stringLiteral(histogram.propertyVariable)}]${NOT_SUPPLEMENTAL_PREDICATE}/value${NOT_SUPPLEMENTAL_PREDICATE}
+        return local:histogram-number(string($v/@rawValue), ${stringLiteral(histogram.dataType)})
+      )
+      where exists($numbers)
+      return map:put($histogram-numbers${histogramNumber}, string($item/@uuid), $numbers)
+    ),
+    local:histogram($histogram-numbers${histogramNumber}, ${stringLiteral(histogram.propertyVariable)}, ${stringLiteral(histogram.dataType)}, ${histogram.binWidth == null ? "()" : `xs:double(${stringLiteral(String(histogram.binWidth))})`}, ${histogram.binCount})
   )`);
-    returnedSequences.push("$bibliography-values");
+    returnedSequences.push(`$histogram${histogramNumber}`);
+  }
+
+  if (attributes.hasOcr) {
+    // The OCR layer lives in the Resource documents rather than in the Set, so
+    // the Resources carrying one are looked up once by their document URIs
+    queryBlocks.push(`let $ocr-resource-uuids := map:new(
+  for $uuid in cts:search(/ochre/resource, cts:and-query((
+    cts:document-query($items/self::resource/@uuid/string()),
+    cts:element-query(xs:QName("ocr"), cts:true-query())
+  )))/@uuid/string()
+  return map:entry($uuid, true())
+)`);
   }
 
-  if (attributes.periods) {
-    queryBlocks.push(`let $period-counts := map:map()
-let $_period-aggregation := xdmp:eager(
+  for (const { attributeType, name, labelsExpression } of ATTRIBUTE_FACETS) {
+    if (!attributes[attributeType]) {
+      continue;
+    }
+
+    queryBlocks.push(`let $${name}-counts := map:map()
+let $_${name}-aggregation := xdmp:eager(
   for $item in $items
   let $seen := map:map()
   return
-    for $period in $item/periods/period${NOT_SUPPLEMENTAL_PREDICATE}
-    let $label := string-join($period/identification/label/content[@xml:lang="eng"]//text(), "")
+    for $label in ${labelsExpression}
     where string-length($label) gt 0
-    return local:add-attribute-facet($period-counts, $seen, $label)
+    return local:add-attribute-facet($${name}-counts, $seen, $label)
 )
 
-let $period-values :=
+let $${name}-values :=
   (
-    $_period-aggregation,
-    for $label in map:keys($period-counts)
-    return <attributeValue attributeType="periods" count="{map:get($period-counts, $label)}" content="{$label}" />
+    $_${name}-aggregation,
+    for $label in map:keys($${name}-counts)
+    return <attributeValue attributeType="${attributeType}" count="{map:get($${name}-counts, $label)}" content="{$label}" />
   )`);
-    returnedSequences.push("$period-values");
+    returnedSequences.push(`$${name}-values`);
+  }
+
+  return { declarations, facetQueries, queryBlocks, returnedSequences };
+}
+
+/**
+ * Build an XQuery string to fetch property values from the OCHRE API
+ * @param parameters - The parameters for the fetch
+ * @param parameters.setScopeUuids - An array of set scope UUIDs to filter by
+ * @param parameters.belongsToCollectionScopeUuids - An array of collection scope UUIDs to filter by
+ * @param parameters.queries - Recursive query tree used to filter matching items
+ * @param parameters.propertyFacetSelectors - Property variable/relation selectors to aggregate, if any
+ * @param parameters.attributes - Whether to return values for each item attribute
+ * @param parameters.isLimitedToLeafPropertyValues - Whether to limit the property values to leaf property values
+ * @param parameters.shouldIncludePropertyValueTrees - Whether to return the hierarchy level, parent, and own and rolled-up counts of each property value
+ * @param parameters.isDisjunctive - Whether to count each property facet over the items matching the queries without its own selections
+ * @param parameters.histograms - The numeric and date property variables to bucket
+ * @returns An XQuery string
+ */
+function buildXQuery(parameters: {
+  setScopeUuids: Array<string>;
+  belongsToCollectionScopeUuids: Array<string>;
+  queries: Query | null;
+  propertyFacetSelectors: Array<PropertyFacetSelector>;
+  attributes: Record<SetAttributeType, boolean>;
+  isLimitedToLeafPropertyValues: boolean;
+  shouldIncludePropertyValueTrees: boolean;
+  isDisjunctive: boolean;
+  histograms: Array<SetPropertyValueHistogramParameters>;
+}): string {
+  const { setScopeUuids, belongsToCollectionScopeUuids, queries } = parameters;
+
+  const setScopeValues = setScopeUuids.map((uuid) => stringLiteral(uuid));
+  const setScopeDeclaration = `declare variable $setScopeUuids := (${setScopeValues.join(", ")});`;
+  const { declarations, facetQueries, queryBlocks, returnedSequences } =
+    buildSetFacetsXQuery({
+      ...parameters,
+      getItemFilterQueries: getItemFilterQueriesFromPropertyValueQueries,
+    });
+  const { prolog, itemsClause, facetItemsExpressions } = buildQueryPlan({
+    queries: getItemFilterQueriesFromPropertyValueQueries(queries),
+    baseItemsExpression: "doc()/ochre/set[@uuid = $setScopeUuids]/items/*",
+    scopeQueryExpression: buildBelongsToCollectionQueryExpression(
+      belongsToCollectionScopeUuids,
+      BELONGS_TO_COLLECTION_UUID,
+    ),
+    facetQueries,
+  });
+  const xqueryDeclarations = [
+    'xquery version "1.0-ml";',
+    ...declarations,
+    setScopeDeclaration,
+  ];
+
+  if (prolog !== "") {
+    xqueryDeclarations.push(prolog);
   }
 
   const xquery = `${xqueryDeclarations.join("\n\n")}
 
 <ochre>{
-${compiledQueryPlan.itemsClause}
+${[
+  itemsClause,
+  ...facetItemsExpressions.map(
+    (itemsExpression, index) =>
+      `let $facet-items${index + 1} := ${itemsExpression}`,
+  ),
+].join("\n  ")}
 ${queryBlocks.join("\n\n")}
 
 return (${returnedSequences.join(", ")})
@@ -647,16 +1314,199 @@ return (${returnedSequences.join(", ")})
   return xquery;
 }
 
+/**
+ * Parse the facets counted by {@link buildSetFacetsXQuery} from an OCHRE
+ * response
+ * @param data - The response XML, parsed with the default parser options or with the Set items ones, whose extra `snippet` and `score` array tags no facet element uses
+ * @param parameters - The requested facets
+ * @param parameters.attributes - Whether values were requested for each item attribute
+ * @param parameters.shouldIncludePropertyValueTrees - Whether to nest the property values in their value hierarchy
+ * @returns The property values, per variable and in trees, the histograms, and the attribute values
+ * @throws {OchreSchemaError} When the response does not have the expected shape
+ * @internal
+ */
+export function parseSetFacetsResponse(
+  data: unknown,
+  parameters: {
+    attributes: Record<SetAttributeType, boolean>;
+    shouldIncludePropertyValueTrees: boolean;
+  },
+): {
+  propertyValues: Array<PropertyValueQueryItem>;
+  propertyValuesByPropertyVariableUuid: Record<
+    string,
+    Array<PropertyValueQueryItem>
+  >;
+  propertyValueTreesByPropertyVariableUuid: Record<
+    string,
+    Array<PropertyValueTreeNode>
+  > | null;
+  histogramsByPropertyVariableUuid: Record<string, SetPropertyValueHistogram>;
+  attributeValues: SetAttributeValues;
+} {
+  const { attributes, shouldIncludePropertyValueTrees } = parameters;
+
+  const { success, issues, output } = v.safeParse(responseSchema, data);
+  if (!success) {
+    throw createSchemaValidationError(
+      "Failed to parse OCHRE Set property values",
+      issues,
+    );
+  }
+
+  const parsedPropertyValues: Array<ParsedPropertyValueItem> = [];
+  const parsedAttributeValues: Array<ParsedAttributeValueItem> = [];
+
+  if (output.result.ochre.propertyValue != null) {
+    parsedPropertyValues.push(
+      ...(Array.isArray(output.result.ochre.propertyValue)
+        ? output.result.ochre.propertyValue
+        : [output.result.ochre.propertyValue]),
+    );
+  }
+
+  if (output.result.ochre.attributeValue != null) {
+    parsedAttributeValues.push(
+      ...(Array.isArray(output.result.ochre.attributeValue)
+        ? output.result.ochre.attributeValue
+        : [output.result.ochre.attributeValue]),
+    );
+  }
+
+  const propertyValuesByPropertyVariableUuid: Record<
+    string,
+    Array<PropertyValueQueryItem>
+  > = {};
+  const flattenedPropertyValuesByKey = new Map<
+    string,
+    PropertyValueQueryItem
+  >();
+
+  for (const propertyValue of parsedPropertyValues) {
+    if (propertyValue.content == null) {
+      continue;
+    }
+
+    const propertyValueItem: PropertyValueQueryItem = {
+      uuid: propertyValue.uuid,
+      count: propertyValue.count,
+      dataType: propertyValue.dataType,
+      content: propertyValue.content,
+      label: propertyValue.label,
+    };
+
+    const globalPropertyValueItem: PropertyValueQueryItem = {
+      uuid: propertyValue.uuid,
+      count: propertyValue.globalCount ?? propertyValue.count,
+      dataType: propertyValue.dataType,
+      content: propertyValue.content,
+      label: propertyValue.label,
+    };
+    const globalPropertyValueKey = getPropertyValueKey({
+      dataType: globalPropertyValueItem.dataType,
+      content: propertyValue.content,
+    });
+    const existingGlobalPropertyValue = flattenedPropertyValuesByKey.get(
+      globalPropertyValueKey,
+    );
+
+    if (existingGlobalPropertyValue == null) {
+      flattenedPropertyValuesByKey.set(
+        globalPropertyValueKey,
+        globalPropertyValueItem,
+      );
+    } else if (
+      existingGlobalPropertyValue.label == null &&
+      globalPropertyValueItem.label != null
+    ) {
+      existingGlobalPropertyValue.label = globalPropertyValueItem.label;
+    }
+
+    if (propertyValue.scope === "global") {
+      continue;
+    }
+
+    if (propertyValue.variableUuid != null) {
+      const valuesByPropertyVariableUuid =
+        (propertyValuesByPropertyVariableUuid[propertyValue.variableUuid] ??=
+          []);
+      valuesByPropertyVariableUuid.push(propertyValueItem);
+    }
+  }
+
+  for (const [propertyVariableUuid, values] of Object.entries(
+    propertyValuesByPropertyVariableUuid,
+  )) {
+    propertyValuesByPropertyVariableUuid[propertyVariableUuid] =
+      sortPropertyValues(values);
+  }
+
+  const histogramsByPropertyVariableUuid: Record<
+    string,
+    SetPropertyValueHistogram
+  > = {};
+  const parsedHistograms: Array<
+    { propertyVariableUuid: string } & SetPropertyValueHistogram
+  > = [];
+
+  if (output.result.ochre.histogram != null) {
+    parsedHistograms.push(
+      ...(Array.isArray(output.result.ochre.histogram)
+        ? output.result.ochre.histogram
+        : [output.result.ochre.histogram]),
+    );
+  }
+
+  for (const { propertyVariableUuid, ...histogram } of parsedHistograms) {
+    histogramsByPropertyVariableUuid[propertyVariableUuid] = histogram;
+  }
+
+  const attributeValuesByType = new Map<
+    SetAttributeType,
+    Array<SetAttributeValueQueryItem>
+  >();
+
+  for (const attributeValue of parsedAttributeValues) {
+    if (attributeValue.content == null || attributeValue.content === "") {
+      continue;
+    }
+
+    const values = attributeValuesByType.get(attributeValue.attributeType);
+    const value = {
+      count: attributeValue.count,
+      content: attributeValue.content,
+    };
+    if (values == null) {
+      attributeValuesByType.set(attributeValue.attributeType, [value]);
+    } else {
+      values.push(value);
+    }
+  }
+
+  return {
+    propertyValues: sortPropertyValues(
+      flattenedPropertyValuesByKey.values().toArray(),
+    ),
+    propertyValuesByPropertyVariableUuid,
+    propertyValueTreesByPropertyVariableUuid: shouldIncludePropertyValueTrees
+      ? buildPropertyValueTrees(parsedPropertyValues)
+      : null,
+    histogramsByPropertyVariableUuid,
+    attributeValues: getAttributeValues(attributes, attributeValuesByType),
+  };
+}
+
 /**
  * Fetches and parses Set property values from the OCHRE API
  *
  * @param parameters - The parameters for the fetch
  * @param parameters.setScopeUuids - An array of set scope UUIDs to filter by
  * @param parameters.queries - Recursive query tree used to filter matching items
- * @param parameters.attributes - Whether to return values for bibliographies and periods
- * @param parameters.attributes.bibliographies - Whether to return values for bibliographies
- * @param parameters.attributes.periods - Whether to return values for periods
+ * @param parameters.attributes - Whether to return values for bibliographies, periods, item categories, creators and authors, and Resource file formats, and whether to count the items with and without coordinates, an image, or an OCR layer
  * @param parameters.isLimitedToLeafPropertyValues - Whether to limit the property values to leaf property values
+ * @param parameters.shouldIncludePropertyValueTrees - Whether to also return the property values nested in their value hierarchy
+ * @param parameters.isDisjunctive - Whether to count each property facet with its own selections left out of the queries, so selecting one value keeps the other values of its facet countable
+ * @param parameters.histograms - The numeric and date property variables to return bucketed histograms for
  * @param options - Options for the fetch
  * @param options.fetch - The fetch function to use
  * @returns Parsed Set property values and requested attribute values.
@@ -666,15 +1516,13 @@ export async function fetchSetPropertyValues(
   parameters: {
     setScopeUuids: Array<string>;
     queries?: Query | null;
-    attributes?: { bibliographies: boolean; periods: boolean };
+    attributes?: Partial<Record<SetAttributeType, boolean>>;
     isLimitedToLeafPropertyValues?: boolean;
+    shouldIncludePropertyValueTrees?: boolean;
+    isDisjunctive?: boolean;
+    histograms?: Array<SetPropertyValueHistogramOptions>;
   },
-  options?: {
-    fetch?: (
-      input: string | URL | globalThis.Request,
-      init?: RequestInit,
-    ) => Promise<Response>;
-  },
+  options?: FetchRequestOptions,
 ): Promise<
   | {
       propertyValues: Array<PropertyValueQueryItem>;
@@ -682,19 +1530,28 @@ export async function fetchSetPropertyValues(
         string,
         Array<PropertyValueQueryItem>
       >;
-      attributeValues: {
-        bibliographies: Array<SetAttributeValueQueryItem> | null;
-        periods: Array<SetAttributeValueQueryItem> | null;
-      };
+      propertyValueTreesByPropertyVariableUuid: Record<
+        string,
+        Array<PropertyValueTreeNode>
+      > | null;
+      histogramsByPropertyVariableUuid: Record<
+        string,
+        SetPropertyValueHistogram
+      >;
+      attributeValues: SetAttributeValues;
       error: null;
       detailedError: null;
+      ochreError: null;
     }
   | {
       propertyValues: null;
       propertyValuesByPropertyVariableUuid: null;
+      propertyValueTreesByPropertyVariableUuid: null;
+      histogramsByPropertyVariableUuid: null;
       attributeValues: null;
       error: string;
       detailedError: string;
+      ochreError: OchreFetchError;
     }
 > {
   try {
@@ -704,21 +1561,28 @@ export async function fetchSetPropertyValues(
       queries,
       attributes,
       isLimitedToLeafPropertyValues,
+      shouldIncludePropertyValueTrees,
+      isDisjunctive,
+      histograms,
     } = v.parse(setPropertyValuesParametersSchema, parameters);
     const propertyFacetSelectors =
       getPropertyFacetSelectorsFromQueries(queries);
 
     if (
       propertyFacetSelectors.length === 0 &&
-      !attributes.bibliographies &&
-      !attributes.periods
+      histograms.length === 0 &&
+      !Object.values(attributes).includes(true)
     ) {
       return {
         propertyValues: [],
         propertyValuesByPropertyVariableUuid: {},
-        attributeValues: { bibliographies: null, periods: null },
+        propertyValueTreesByPropertyVariableUuid:
+          shouldIncludePropertyValueTrees ? {} : null,
+        histogramsByPropertyVariableUuid: {},
+        attributeValues: getAttributeValues(attributes, new Map()),
         error: null,
         detailedError: null,
+        ochreError: null,
       };
     }
 
@@ -729,159 +1593,40 @@ export async function fetchSetPropertyValues(
       propertyFacetSelectors,
       attributes,
       isLimitedToLeafPropertyValues,
+      shouldIncludePropertyValueTrees,
+      isDisjunctive,
+      histograms,
     });
 
-    const response = await (options?.fetch ?? fetch)(
-      'https://ochre.lib.uchicago.edu/ochre/v2/ochre.php?xquery&xsl=none&lang="*"',
-      {
-        method: "POST",
-        body: xquery,
-        headers: { "Content-Type": "application/xquery" },
-      },
-    );
+    const response = await postXQuery(xquery, options);
     if (!response.ok) {
-      throw new Error(`OCHRE API responded with status: ${response.status}`, {
-        cause: response.statusText,
-      });
+      throw new OchreHttpError(
+        `OCHRE API responded with status: ${response.status}`,
+        response,
+      );
     }
 
     const dataRaw = await response.text();
     const parser = new XMLParser(XML_PARSER_OPTIONS);
     const data = parser.parse(dataRaw) as unknown;
 
-    const { success, issues, output } = v.safeParse(responseSchema, data);
-    if (!success) {
-      throw createSchemaValidationError(
-        "Failed to parse OCHRE Set property values",
-        issues,
-      );
-    }
-
-    const parsedPropertyValues: Array<ParsedPropertyValueItem> = [];
-    const parsedAttributeValues: Array<ParsedAttributeValueItem> = [];
-
-    if (output.result.ochre.propertyValue != null) {
-      parsedPropertyValues.push(
-        ...(Array.isArray(output.result.ochre.propertyValue)
-          ? output.result.ochre.propertyValue
-          : [output.result.ochre.propertyValue]),
-      );
-    }
-
-    if (output.result.ochre.attributeValue != null) {
-      parsedAttributeValues.push(
-        ...(Array.isArray(output.result.ochre.attributeValue)
-          ? output.result.ochre.attributeValue
-          : [output.result.ochre.attributeValue]),
-      );
-    }
-
-    const propertyValuesByPropertyVariableUuid: Record<
-      string,
-      Array<PropertyValueQueryItem>
-    > = {};
-    const flattenedPropertyValuesByKey = new Map<
-      string,
-      PropertyValueQueryItem
-    >();
-
-    for (const propertyValue of parsedPropertyValues) {
-      if (propertyValue.content == null) {
-        continue;
-      }
-
-      const propertyValueItem: PropertyValueQueryItem = {
-        uuid: propertyValue.uuid,
-        count: propertyValue.count,
-        dataType: propertyValue.dataType,
-        content: propertyValue.content,
-        label: propertyValue.label,
-      };
-
-      const globalPropertyValueItem: PropertyValueQueryItem = {
-        uuid: propertyValue.uuid,
-        count: propertyValue.globalCount ?? propertyValue.count,
-        dataType: propertyValue.dataType,
-        content: propertyValue.content,
-        label: propertyValue.label,
-      };
-      const globalPropertyValueKey = getPropertyValueKey({
-        dataType: globalPropertyValueItem.dataType,
-        content: propertyValue.content,
-      });
-      const existingGlobalPropertyValue = flattenedPropertyValuesByKey.get(
-        globalPropertyValueKey,
-      );
-
-      if (existingGlobalPropertyValue == null) {
-        flattenedPropertyValuesByKey.set(
-          globalPropertyValueKey,
-          globalPropertyValueItem,
-        );
-      } else if (
-        existingGlobalPropertyValue.label == null &&
-        globalPropertyValueItem.label != null
-      ) {
-        existingGlobalPropertyValue.label = globalPropertyValueItem.label;
-      }
-
-      if (propertyValue.scope === "global") {
-        continue;
-      }
-
-      if (propertyValue.variableUuid != null) {
-        const valuesByPropertyVariableUuid =
-          (propertyValuesByPropertyVariableUuid[propertyValue.variableUuid] ??=
-            []);
-        valuesByPropertyVariableUuid.push(propertyValueItem);
-      }
-    }
-
-    for (const [propertyVariableUuid, values] of Object.entries(
-      propertyValuesByPropertyVariableUuid,
-    )) {
-      propertyValuesByPropertyVariableUuid[propertyVariableUuid] =
-        sortPropertyValues(values);
-    }
-
-    const attributeValuesByType: Record<
-      "bibliographies" | "periods",
-      Array<SetAttributeValueQueryItem>
-    > = { bibliographies: [], periods: [] };
-
-    for (const attributeValue of parsedAttributeValues) {
-      if (attributeValue.content == null || attributeValue.content === "") {
-        continue;
-      }
-
-      attributeValuesByType[attributeValue.attributeType].push({
-        count: attributeValue.count,
-        content: attributeValue.content,
-      });
-    }
-
     return {
-      propertyValues: sortPropertyValues(
-        flattenedPropertyValuesByKey.values().toArray(),
-      ),
-      propertyValuesByPropertyVariableUuid,
-      attributeValues: {
-        bibliographies: attributes.bibliographies
-          ? sortAttributeValues(attributeValuesByType.bibliographies)
-          : null,
-        periods: attributes.periods
-          ? sortAttributeValues(attributeValuesByType.periods)
-          : null,
-      },
+      ...parseSetFacetsResponse(data, {
+        attributes,
+        shouldIncludePropertyValueTrees,
+      }),
       error: null,
       detailedError: null,
+      ochreError: null,
     };
   } catch (error) {
     return {
       propertyValues: null,
       propertyValuesByPropertyVariableUuid: null,
+      propertyValueTreesByPropertyVariableUuid: null,
+      histogramsByPropertyVariableUuid: null,
       attributeValues: null,
-      ...getErrorOutput(error, "Failed to fetch property values"),
+      ...getErrorOutput(error, "Failed to fetch property values", options),
     };
   }
 }
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import type { Query } from "#/types/index.js";
+import { fetchSetSearch } from "#/fetchers/set/search.js";
+
+const SET_SCOPE_UUID = "41f855f5-202e-4ec9-95d6-a87b793a9dcb";
+const MATERIAL_UUID = "8383140a-e676-417f-b5d8-863d9df6d905";
+const FIND_TYPE_UUID = "30054cb2-909a-4f34-8db9-8fe7369d691d";
+
+const queries: Query = {
+  and: [
+    {
+      target: "title",
+      value: "bowl",
+      matchMode: "includes",
+      isCaseSensitive: false,
+      language: "eng",
+    },
+    {
+      target: "property",
+      propertyVariable: MATERIAL_UUID,
+      dataType: "string",
+      value: "Clay",
+      matchMode: "exact",
+      isCaseSensitive: true,
+      language: "eng",
+    },
+  ],
+};
+
+function countOccurrences(value: string, searchValue: string): number {
+  return value.split(searchValue).length - 1;
+}
+
+describe("fetchSetSearch", () => {
+  it("pages the items and counts their facets in a single request", async () => {
+    const bodies: Array<string> = [];
+    const result = await fetchSetSearch(
+      {
+        setScopeUuids: [SET_SCOPE_UUID],
+        queries,
+        page: 2,
+        pageSize: 10,
+        propertyFacets: [{ propertyVariable: FIND_TYPE_UUID }],
+        attributes: { categories: true },
+      },
+      undefined,
+      {
+        fetch: async (_input, init) => {
+          bodies.push(String(init?.body));
+
+          return new Response(
+            `<result><ochre><items totalCount="12" page="2" pageSize="10"/><propertyValue scope="variable" variableUuid="${FIND_TYPE_UUID}" uuid="" rawValue="Bowl" dataType="string" count="12" globalCount="12">Bowl</propertyValue><attributeValue attributeType="categories" count="12" content="resource"/></ochre></result>`,
+          );
+        },
+      },
+    );
+    if (result.error !== null) {
+      throw new Error(result.detailedError);
+    }
+
+    expect(bodies).toHaveLength(1);
+    expect(countOccurrences(bodies[0] ?? "", "cts:search(")).toBe(1);
+    expect(bodies[0]).toContain(
+      "let $pagedItems := subsequence($orderedItems, 11, 10)",
+    );
+    expect(bodies[0]).toContain("for $item in $items\n");
+    expect(result.totalCount).toBe(12);
+    expect(result.page).toBe(2);
+    expect(result.items).toStrictEqual([]);
+    expect(
+      result.propertyValuesByPropertyVariableUuid[FIND_TYPE_UUID]?.map(
+        ({ content, count }) => ({ content, count }),
+      ),
+    ).toStrictEqual([{ content: "Bowl", count: 12 }]);
+    expect(result.attributeValues.categories).toStrictEqual([
+      { count: 12, content: "resource" },
+    ]);
+    expect(result.attributeValues.periods).toBeNull();
+    expect(result.histogramsByPropertyVariableUuid).toStrictEqual({});
+  });
+
+  it("searches the items again only for disjunctive facets with selections", async () => {
+    let postedBody = "";
+    await fetchSetSearch(
+      {
+        setScopeUuids: [SET_SCOPE_UUID],
+        queries,
+        page: 1,
+        propertyFacets: [
+          { propertyVariable: MATERIAL_UUID },
+          { propertyVariable: FIND_TYPE_UUID },
+        ],
+        isDisjunctive: true,
+      },
+      undefined,
+      {
+        fetch: async (_input, init) => {
+          postedBody = String(init?.body);
+
+          return new Response(
+            '<result><ochre><items totalCount="0" page="1" pageSize="48"/></ochre></result>',
+          );
+        },
+      },
+    );
+
+    expect(countOccurrences(postedBody, "let $facet-items")).toBe(1);
+    expect(postedBody).toContain("for $item in $facet-items1\n");
+    expect(postedBody).toContain("for $item in $items\n");
+  });
+
+  it("leaves out the facet declarations when no facet is requested", async () => {
+    let postedBody = "";
+    const result = await fetchSetSearch(
+      { setScopeUuids: [SET_SCOPE_UUID], queries: null, page: 1 },
+      undefined,
+      {
+        fetch: async (_input, init) => {
+          postedBody = String(init?.body);
+
+          return new Response(
+            '<result><ochre><items totalCount="0" page="1" pageSize="48"/></ochre></result>',
+          );
+        },
+      },
+    );
+
+    expect(postedBody).not.toContain("local:increment-count");
+    expect(result.propertyValues).toStrictEqual([]);
+    expect(result.attributeValues).toStrictEqual({
+      bibliographies: null,
+      periods: null,
+      categories: null,
+      creators: null,
+      fileFormats: null,
+      hasCoordinates: null,
+      hasImage: null,
+      hasOcr: null,
+    });
+  });
+
+  it("rejects a cursor without a sort", async () => {
+    const result = await fetchSetSearch({
+      setScopeUuids: [SET_SCOPE_UUID],
+      cursor: "abc",
+    });
+
+    expect(result.error).not.toBeNull();
+    expect(result.items).toBeNull();
+    expect(result.attributeValues).toBeNull();
+  });
+});
@@ -0,0 +1,367 @@
+import { XMLParser } from "fast-xml-parser";
+import * as v from "valibot";
+import type { OchreFetchError } from "#/errors.js";
+import type { FetchSetItemsCategory } from "#/fetchers/set/items.js";
+import type {
+  FetchBaseOptions,
+  FetchLanguages,
+  FetchRuntimeOptions,
+} from "#/parsers/helpers.js";
+import type {
+  PropertyValueQueryItem,
+  PropertyValueTreeNode,
+  Query,
+  SetAttributeValues,
+  SetItem,
+  SetItemCategory,
+  SetItemSnippet,
+  SetItemsSort,
+  SetPropertyFacet,
+  SetPropertyValueHistogram,
+  SetPropertyValueHistogramOptions,
+} from "#/types/index.js";
+import { BELONGS_TO_COLLECTION_UUID } from "#/constants.js";
+import { OchreHttpError } from "#/errors.js";
+import {
+  buildSetItemsPageXQuery,
+  parseLanguages,
+  parseSetItemsResponse,
+  SET_ITEMS_XML_PARSER_OPTIONS,
+} from "#/fetchers/set/items.js";
+import {
+  buildSetFacetsXQuery,
+  parseSetFacetsResponse,
+} from "#/fetchers/set/property-values.js";
+import {
+  buildBelongsToCollectionQueryExpression,
+  buildQueryPlan,
+} from "#/query.js";
+import { postXQuery } from "#/request.js";
+import { setSearchParametersSchema } from "#/schemas.js";
+import { getErrorOutput, stringLiteral } from "#/utilities.js";
+
+/**
+ * Build an XQuery string to fetch a page of Set items and the facets of every
+ * matching item from the OCHRE API
+ * @param parameters - The parameters for the fetch
+ * @param parameters.setScopeUuids - An array of Set scope UUIDs to filter by
+ * @param parameters.belongsToCollectionScopeUuids - An array of collection scope UUIDs to filter by
+ * @param parameters.queries - Recursive query tree used to filter matching items
+ * @param parameters.sort - Optional sorting configuration applied before pagination
+ * @param parameters.page - The page number (1-indexed), ignored when a cursor is given
+ * @param parameters.cursor - The `nextCursor` of a previous response to resume after, or null to page by offset
+ * @param parameters.pageSize - The number of items per page
+ * @param parameters.shouldIncludeSnippets - Whether to return the highlighted snippets of the fields each paged item matched on
+ * @param parameters.propertyFacets - The property variables whose values to count
+ * @param parameters.attributes - Whether to return values for each item attribute
+ * @param parameters.isLimitedToLeafPropertyValues - Whether to limit the property values to leaf property values
+ * @param parameters.shouldIncludePropertyValueTrees - Whether to return the hierarchy level, parent, and own and rolled-up counts of each property value
+ * @param parameters.isDisjunctive - Whether to count each property facet over the items matching the queries without its own selections
+ * @param parameters.histograms - The numeric and date property variables to bucket
+ * @returns An XQuery string
+ */
+function buildXQuery(parameters: {
+  setScopeUuids: Array<string>;
+  belongsToCollectionScopeUuids: Array<string>;
+  queries: Query | null;
+  sort: SetItemsSort;
+  page: number;
+  cursor: string | null;
+  pageSize: number;
+  shouldIncludeSnippets: boolean;
+  propertyFacets: Array<SetPropertyFacet>;
+  attributes: Record<keyof SetAttributeValues, boolean>;
+  isLimitedToLeafPropertyValues: boolean;
+  shouldIncludePropertyValueTrees: boolean;
+  isDisjunctive: boolean;
+  histograms: Array<
+    Omit<SetPropertyValueHistogramOptions, "binCount"> & { binCount: number }
+  >;
+}): string {
+  const {
+    setScopeUuids,
+    belongsToCollectionScopeUuids,
+    queries,
+    propertyFacets,
+  } = parameters;
+
+  const setScopeValues = setScopeUuids.map((uuid) => stringLiteral(uuid));
+  const setScopeDeclaration = `declare variable $setScopeUuids := (${setScopeValues.join(", ")});`;
+  // The items are filtered by the whole query tree, so the facets count the
+  // very items that are paged rather than searching the Set a second time
+  const facets = buildSetFacetsXQuery({
+    ...parameters,
+    getItemFilterQueries: (itemFilterQueries) => itemFilterQueries,
+    propertyFacetSelectors: propertyFacets.map(
+      ({ propertyVariable, propertyRelation }) => ({
+        uuid: propertyVariable,
+        relation: propertyRelation ?? null,
+      }),
+    ),
+  });
+  const compiledQueryPlan = buildQueryPlan({
+    queries,
+    baseItemsExpression: "doc()/ochre/set[@uuid = $setScopeUuids]/items/*",
+    scopeQueryExpression: buildBelongsToCollectionQueryExpression(
+      belongsToCollectionScopeUuids,
+      BELONGS_TO_COLLECTION_UUID,
+    ),
+    facetQueries: facets.facetQueries,
+  });
+  const itemsPage = buildSetItemsPageXQuery({
+    ...parameters,
+    snippetQueryExpression: compiledQueryPlan.snippetQueryExpression,
+    ocrSnippetQueryExpression: compiledQueryPlan.ocrSnippetQueryExpression,
+  });
+  const xqueryDeclarations = [
+    'xquery version "1.0-ml";',
+    ...(facets.queryBlocks.length === 0 ? [] : facets.declarations),
+    setScopeDeclaration,
+    ...itemsPage.declarations,
+  ];
+
+  if (compiledQueryPlan.prolog !== "") {
+    xqueryDeclarations.push(compiledQueryPlan.prolog);
+  }
+
+  const xquery = `${xqueryDeclarations.join("\n\n")}
+
+<ochre>{
+${[
+  compiledQueryPlan.itemsClause,
+  ...compiledQueryPlan.facetItemsExpressions.map(
+    (itemsExpression, index) =>
+      `let $facet-items${index + 1} := ${itemsExpression}`,
+  ),
+].join("\n  ")}
+  ${itemsPage.clauses}
+${facets.queryBlocks.join("\n\n")}
+
+return (${[itemsPage.returnExpression, ...facets.returnedSequences].join(", ")})
+}</ochre>`;
+
+  return xquery;
+}
+
+/**
+ * Fetches a page of Set items together with the facets counted over every
+ * item matching the queries. The query tree is compiled and evaluated once,
+ * in a single XQuery, rather than once by `fetchSetItems` and again by
+ * `fetchSetPropertyValues`.
+ *
+ * Unlike `fetchSetPropertyValues`, the property facets are listed in
+ * `propertyFacets` rather than read from the queries, so a property leaf
+ * without a value keeps filtering the items to those that have the property.
+ *
+ * @param parameters - The parameters for the fetch
+ * @param parameters.setScopeUuids - The Set scope UUIDs to filter by
+ * @param parameters.queries - Recursive query tree used to filter matching items
+ * @param parameters.sort - Optional sorting configuration applied before pagination
+ * @param parameters.page - The page number (1-indexed)
+ * @param parameters.cursor - The `nextCursor` of a previous response, to resume after its last item instead of requesting a page
+ * @param parameters.pageSize - The number of items per page
+ * @param parameters.shouldIncludeSnippets - Return the highlighted snippets of the text each paged item matched in `snippets`, keyed by item UUID
+ * @param parameters.propertyFacets - The property variables whose values to count, each limited to a property relation when given
+ * @param parameters.attributes - Whether to return values for bibliographies, periods, item categories, creators and authors, and Resource file formats, and whether to count the items with and without coordinates, an image, or an OCR layer
+ * @param parameters.isLimitedToLeafPropertyValues - Whether to limit the property values to leaf property values
+ * @param parameters.shouldIncludePropertyValueTrees - Whether to also return the property values nested in their value hierarchy
+ * @param parameters.isDisjunctive - Whether to count each property facet with its own selections left out of the queries, so selecting one value keeps the other values of its facet countable
+ * @param parameters.histograms - The numeric and date property variables to return bucketed histograms for
+ * @param containedItemCategories - The categories of the items to fetch
+ * @param options - Options for the fetch
+ * @param options.fetch - The fetch function to use
+ * @returns The parsed page of Set items and the requested facets, or null outputs if the fetch/parse fails
+ */
+export async function fetchSetSearch<
+  const TContainedItemCategories extends
+    | ReadonlyArray<SetItemCategory>
+    | undefined = undefined,
+  const TLanguages extends ReadonlyArray<string> | undefined = undefined,
+>(
+  parameters: {
+    setScopeUuids: Array<string>;
+    queries?: Query | null;
+    sort?: SetItemsSort;
+    pageSize?: number;
+    shouldIncludeSnippets?: boolean;
+    propertyFacets?: Array<SetPropertyFacet>;
+    attributes?: Partial<Record<keyof SetAttributeValues, boolean>>;
+    isLimitedToLeafPropertyValues?: boolean;
+    shouldIncludePropertyValueTrees?: boolean;
+    isDisjunctive?: boolean;
+    histograms?: Array<SetPropertyValueHistogramOptions>;
+  } & ({ page: number; cursor?: never } | { cursor: string; page?: never }),
+  containedItemCategories?: TContainedItemCategories,
+  options?: FetchBaseOptions<TLanguages>,
+): Promise<
+  | {
+      totalCount: number;
+      page: number;
+      pageSize: number;
+      nextCursor: string | null;
+      items: Array<
+        SetItem<
+          FetchSetItemsCategory<TContainedItemCategories>,
+          FetchLanguages<TLanguages>
+        >
+      >;
+      scores: Record<string, number> | null;
+      snippets: Record<string, Array<SetItemSnippet>> | null;
+      propertyValues: Array<PropertyValueQueryItem>;
+      propertyValuesByPropertyVariableUuid: Record<
+        string,
+        Array<PropertyValueQueryItem>
+      >;
+      propertyValueTreesByPropertyVariableUuid: Record<
+        string,
+        Array<PropertyValueTreeNode>
+      > | null;
+      histogramsByPropertyVariableUuid: Record<
+        string,
+        SetPropertyValueHistogram
+      >;
+      attributeValues: SetAttributeValues;
+      error: null;
+      detailedError: null;
+      ochreError: null;
+    }
+  | {
+      totalCount: null;
+      page: null;
+      pageSize: null;
+      nextCursor: null;
+      items: null;
+      scores: null;
+      snippets: null;
+      propertyValues: null;
+      propertyValuesByPropertyVariableUuid: null;
+      propertyValueTreesByPropertyVariableUuid: null;
+      histogramsByPropertyVariableUuid: null;
+      attributeValues: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
+    }
+>;
+export async function fetchSetSearch(
+  parameters: {
+    setScopeUuids: Array<string>;
+    queries?: Query | null;
+    sort?: SetItemsSort;
+    pageSize?: number;
+    shouldIncludeSnippets?: boolean;
+    propertyFacets?: Array<SetPropertyFacet>;
+    attributes?: Partial<Record<keyof SetAttributeValues, boolean>>;
+    isLimitedToLeafPropertyValues?: boolean;
+    shouldIncludePropertyValueTrees?: boolean;
+    isDisjunctive?: boolean;
+    histograms?: Array<SetPropertyValueHistogramOptions>;
+  } & ({ page: number; cursor?: never } | { cursor: string; page?: never }),
+  containedItemCategories?: ReadonlyArray<SetItemCategory>,
+  options?: FetchRuntimeOptions,
+): Promise<
+  | {
+      totalCount: number;
+      page: number;
+      pageSize: number;
+      nextCursor: string | null;
+      items: Array<SetItem<SetItemCategory, ReadonlyArray<string>>>;
+      scores: Record<string, number> | null;
+      snippets: Record<string, Array<SetItemSnippet>> | null;
+      propertyValues: Array<PropertyValueQueryItem>;
+      propertyValuesByPropertyVariableUuid: Record<
+        string,
+        Array<PropertyValueQueryItem>
+      >;
+      propertyValueTreesByPropertyVariableUuid: Record<
+        string,
+        Array<PropertyValueTreeNode>
+      > | null;
+      histogramsByPropertyVariableUuid: Record<
+        string,
+        SetPropertyValueHistogram
+      >;
+      attributeValues: SetAttributeValues;
+      error: null;
+      detailedError: null;
+      ochreError: null;
+    }
+  | {
+      totalCount: null;
+      page: null;
+      pageSize: null;
+      nextCursor: null;
+      items: null;
+      scores: null;
+      snippets: null;
+      propertyValues: null;
+      propertyValuesByPropertyVariableUuid: null;
+      propertyValueTreesByPropertyVariableUuid: null;
+      histogramsByPropertyVariableUuid: null;
+      attributeValues: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
+    }
+> {
+  try {
+    const { cursor, ...searchParameters } = v.parse(
+      setSearchParametersSchema,
+      parameters,
+    );
+    const {
+      sort,
+      shouldIncludeSnippets,
+      attributes,
+      shouldIncludePropertyValueTrees,
+    } = searchParameters;
+    const requestedLanguages: ReadonlyArray<string> =
+      options?.languages == null ? [] : parseLanguages(options.languages);
+
+    const xquery = buildXQuery({ ...searchParameters, cursor: cursor ?? null });
+
+    const response = await postXQuery(xquery, options);
+    if (!response.ok) {
+      throw new OchreHttpError(
+        `OCHRE API responded with status: ${response.status}`,
+        response,
+      );
+    }
+
+    const dataRaw = await response.text();
+    const parser = new XMLParser(SET_ITEMS_XML_PARSER_OPTIONS);
+    const data = parser.parse(dataRaw) as unknown;
+
+    return {
+      ...parseSetItemsResponse(data, {
+        sort,
+        shouldIncludeSnippets,
+        containedItemCategories,
+        requestedLanguages,
+      }),
+      ...parseSetFacetsResponse(data, {
+        attributes,
+        shouldIncludePropertyValueTrees,
+      }),
+      error: null,
+      detailedError: null,
+      ochreError: null,
+    };
+  } catch (error) {
+    return {
+      totalCount: null,
+      page: null,
+      pageSize: null,
+      nextCursor: null,
+      items: null,
+      scores: null,
+      snippets: null,
+      propertyValues: null,
+      propertyValuesByPropertyVariableUuid: null,
+      propertyValueTreesByPropertyVariableUuid: null,
+      histogramsByPropertyVariableUuid: null,
+      attributeValues: null,
+      ...getErrorOutput(error, "Failed to fetch Set search", options),
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { XMLParser } from "fast-xml-parser";
 import * as v from "valibot";
+import type { OchreFetchError } from "#/errors.js";
 import type {
   FetchBaseOptions,
   FetchLanguages,
@@ -8,6 +9,11 @@ import type {
 import type { WebsiteMetadata } from "#/types/website.js";
 import type { XMLWebsiteData } from "#/xml/types.js";
 import { XML_PARSER_OPTIONS } from "#/constants.js";
+import {
+  OchreHttpError,
+  OchreNotFoundError,
+  OchreParameterError,
+} from "#/errors.js";
 import { parseStringLike } from "#/parsers/helpers.js";
 import {
   parseIdentification,
@@ -16,6 +22,7 @@ import {
   resolveLanguages,
 } from "#/parsers/index.js";
 import { websitePresentationReader } from "#/parsers/website/reader.js";
+import { postXQuery } from "#/request.js";
 import { iso639_3Schema } from "#/schemas.js";
 import {
   createSchemaValidationError,
@@ -203,8 +210,14 @@ export async function fetchWebsiteMetadata<
       websiteMetadata: WebsiteMetadata<FetchLanguages<TLanguages>>;
       error: null;
       detailedError: null;
+      ochreError: null;
+    }
+  | {
+      websiteMetadata: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
     }
-  | { websiteMetadata: null; error: string; detailedError: string }
 >;
 export async function fetchWebsiteMetadata(
   abbreviation: string,
@@ -214,12 +227,18 @@ export async function fetchWebsiteMetadata(
       websiteMetadata: WebsiteMetadata<ReadonlyArray<string>>;
       error: null;
       detailedError: null;
+      ochreError: null;
+    }
+  | {
+      websiteMetadata: null;
+      error: string;
+      detailedError: string;
+      ochreError: OchreFetchError;
     }
-  | { websiteMetadata: null; error: string; detailedError: string }
 > {
   try {
     if (options?.slug == null) {
-      throw new Error("Website metadata slug is required");
+      throw new OchreParameterError("Website metadata slug is required");
     }
 
     const cleanAbbreviation = abbreviation.trim().toLocaleLowerCase("en-US");
@@ -229,23 +248,24 @@ export async function fetchWebsiteMetadata(
       (language) => v.parse(iso639_3Schema, language),
     );
 
-    const response = await (options.fetch ?? fetch)(
-      'https://ochre.lib.uchicago.edu/ochre/v2/ochre.php?xquery&xsl=none&lang="*"',
-      {
-        method: "POST",
-        body: buildXQuery({ abbreviation: cleanAbbreviation, slug }),
-        headers: { "Content-Type": "application/xquery" },
-      },
+    const response = await postXQuery(
+      buildXQuery({ abbreviation: cleanAbbreviation, slug }),
+      options,
     );
     if (!response.ok) {
-      throw new Error("Failed to fetch website metadata", {
-        cause: response.statusText,
-      });
+      throw new OchreHttpError("Failed to fetch website metadata", response);
     }
 
     const dataRaw = await response.text();
     const parser = new XMLParser(XML_PARSER_OPTIONS);
-    const data = parser.parse(dataRaw) as unknown;
+    const data = parser.parse(dataRaw) as { result?: { ochre?: unknown } };
+    if (data.result?.ochre == null) {
+      throw new OchreNotFoundError(
+        `No OCHRE website found for abbreviation "${cleanAbbreviation}"`,
+        cleanAbbreviation,
+        { cause: dataRaw },
+      );
+    }
 
     const { success, issues, output } = v.safeParse(XMLWebsiteDataSchema, data);
     if (!success) {
@@ -260,8 +280,16 @@ export async function fetchWebsiteMetadata(
     const languages = resolveLanguages(requestedLanguages, metadataLanguages);
     const websiteMetadata = parseWebsiteMetadata(output, { languages });
 
-    return { websiteMetadata, error: null, detailedError: null };
+    return {
+      websiteMetadata,
+      error: null,
+      detailedError: null,
+      ochreError: null,
+    };
   } catch (error) {
-    return { websiteMetadata: null, ...getErrorOutput(error, "Unknown error") };
+    return {
+      websiteMetadata: null,
+      ...getErrorOutput(error, "Unknown error", options),
+    };
   }
 }
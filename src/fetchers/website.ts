@@ -1,10 +1,17 @@
 import { XMLParser } from "fast-xml-parser";
 import * as v from "valibot";
-import type { FetchFunction } from "#/parsers/helpers.js";
+import type { OchreFetchError } from "#/errors.js";
+import type { FetchRequestOptions } from "#/parsers/helpers.js";
 import type { LanguageCodes } from "#/types/index.js";
 import type { ProtectedWebsite, Website } from "#/types/website.js";
 import { XML_PARSER_OPTIONS } from "#/constants.js";
+import {
+  OchreHttpError,
+  OchreNotFoundError,
+  OchreParameterError,
+} from "#/errors.js";
 import { parseWebsite } from "#/parsers/website/index.js";
+import { postJSON, postXQuery } from "#/request.js";
 import {
   createSchemaValidationError,
   getErrorOutput,
@@ -18,21 +25,14 @@ import { XMLWebsiteData as XMLWebsiteDataSchema } from "#/xml/schemas.js";
 async function areWebsiteCredentialsValid(
   uuid: string,
   credentials: string | { username: string; password: string },
-  fetcher: FetchFunction,
+  options: FetchRequestOptions | undefined,
 ): Promise<boolean> {
   const security =
     typeof credentials === "string"
       ? { validate: credentials }
       : { validate: credentials.password, userOCHRE: credentials.username };
 
-  const response = await fetcher(
-    "https://ochre.lib.uchicago.edu/ochre/v2/ochre.php",
-    {
-      method: "POST",
-      body: JSON.stringify({ uuid, data: { security } }),
-      headers: { "Content-Type": "application/json" },
-    },
-  );
+  const response = await postJSON({ uuid, data: { security } }, options);
 
   return response.ok;
 }
@@ -52,6 +52,20 @@ for $ochre in collection("ochre/tree")/ochre[tree/identification/abbreviation/co
 return element ochre { $ochre/@*, ${omitSupplemental("$ochre/node()")} }`;
 }
 
+/**
+ * Build an XQuery string returning only the publication date of a website tree
+ * document, used to revalidate a stale cached website.
+ *
+ * @param abbreviation - The lowercased website abbreviation to match
+ * @returns An XQuery string
+ */
+function buildRevalidationXQuery(abbreviation: string): string {
+  return `xquery version "1.0-ml";
+
+for $ochre in collection("ochre/tree")/ochre[tree/identification/abbreviation/content/string = ${stringLiteral(abbreviation)}]
+return element ochre { $ochre/@publicationDateTime }`;
+}
+
 /**
  * Fetches and parses a website configuration from the OCHRE API.
  *
@@ -65,8 +79,7 @@ export async function fetchWebsite<
   const T extends LanguageCodes = LanguageCodes,
 >(
   abbreviation: string,
-  options?: {
-    fetch?: FetchFunction;
+  options?: FetchRequestOptions & {
     languages?: T;
     credentials?: string | { username: string; password: string };
   },
@@ -76,42 +89,46 @@ export async function fetchWebsite<
       protectedWebsite: null;
       error: null;
       detailedError: null;
+      ochreError: null;
     }
   | {
       website: null;
       protectedWebsite: ProtectedWebsite<T>;
       error: null;
       detailedError: null;
+      ochreError: null;
     }
   | {
       website: null;
       protectedWebsite: null;
       error: string;
       detailedError: string;
+      ochreError: OchreFetchError;
     }
 > {
   try {
-    const fetcher = options?.fetch ?? fetch;
     const cleanAbbreviation = abbreviation.trim().toLocaleLowerCase("en-US");
 
-    const response = await fetcher(
-      'https://ochre.lib.uchicago.edu/ochre/v2/ochre.php?xquery&xsl=none&lang="*"',
-      {
-        method: "POST",
-        body: buildXQuery(cleanAbbreviation),
-        headers: { "Content-Type": "application/xquery" },
-      },
+    const response = await postXQuery(
+      buildXQuery(cleanAbbreviation),
+      options,
+      buildRevalidationXQuery(cleanAbbreviation),
     );
     if (!response.ok) {
-      throw new Error("Failed to fetch website", {
-        cause: response.statusText,
-      });
+      throw new OchreHttpError("Failed to fetch website", response);
     }
 
     const dataRaw = await response.text();
 
     const parser = new XMLParser(XML_PARSER_OPTIONS);
-    const data = parser.parse(dataRaw) as unknown;
+    const data = parser.parse(dataRaw) as { result?: { ochre?: unknown } };
+    if (data.result?.ochre == null) {
+      throw new OchreNotFoundError(
+        `No OCHRE website found for abbreviation "${cleanAbbreviation}"`,
+        cleanAbbreviation,
+        { cause: dataRaw },
+      );
+    }
 
     const { success, issues, output } = v.safeParse(XMLWebsiteDataSchema, data);
     if (!success) {
@@ -132,16 +149,19 @@ export async function fetchWebsite<
           },
           error: null,
           detailedError: null,
+          ochreError: null,
         };
       }
 
       const isValid = await areWebsiteCredentialsValid(
         website.uuid,
         options.credentials,
-        fetcher,
+        options,
       );
       if (!isValid) {
-        throw new Error("Invalid credentials for protected website");
+        throw new OchreParameterError(
+          "Invalid credentials for protected website",
+        );
       }
     }
 
@@ -150,12 +170,13 @@ export async function fetchWebsite<
       protectedWebsite: null,
       error: null,
       detailedError: null,
+      ochreError: null,
     };
   } catch (error) {
     return {
       website: null,
       protectedWebsite: null,
-      ...getErrorOutput(error, "Unknown error"),
+      ...getErrorOutput(error, "Unknown error", options),
     };
   }
 }
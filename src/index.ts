@@ -1,10 +1,31 @@
+export { createFileSystemCacheStore, createMemoryCacheStore } from "#/cache.js";
+export type {
+  OchreCacheEntry,
+  OchreCacheOptions,
+  OchreCacheStore,
+} from "#/cache.js";
+export * from "#/client.js";
+export {
+  OchreCategoryMismatchError,
+  OchreError,
+  OchreHttpError,
+  OchreNotFoundError,
+  OchreParameterError,
+  OchreSchemaError,
+} from "#/errors.js";
+export type { OchreErrorKind, OchreFetchError } from "#/errors.js";
 export * from "#/fetchers/gallery.js";
 export * from "#/fetchers/item-children.js";
 export * from "#/fetchers/item-links.js";
 export * from "#/fetchers/item-ocr-data.js";
 export * from "#/fetchers/item.js";
-export * from "#/fetchers/set/items.js";
-export * from "#/fetchers/set/property-values.js";
+export {
+  compileSetItemsXQuery,
+  fetchSetItems,
+  iterateSetItems,
+} from "#/fetchers/set/items.js";
+export { fetchSetPropertyValues } from "#/fetchers/set/property-values.js";
+export * from "#/fetchers/set/search.js";
 export * from "#/fetchers/website-metadata.js";
 export * from "#/fetchers/website.js";
 export * from "#/getters.js";
@@ -19,5 +40,8 @@ export type {
   MultilingualStringObject,
   MultilingualStringText,
 } from "#/parsers/multilingual.js";
+export * from "#/query-normalization.js";
+export * from "#/query-string.js";
+export * from "#/search-params.js";
 export type * from "#/types/index.js";
 export type * from "#/types/website.js";
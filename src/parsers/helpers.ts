@@ -1,3 +1,4 @@
+import type { OchreCacheOptions } from "#/cache.js";
 import type { License } from "#/types/index.js";
 import type { XMLContent, XMLString } from "#/xml/types.js";
 import { DEFAULT_LANGUAGES } from "#/constants.js";
@@ -9,9 +10,42 @@ export type FetchFunction = (
   init?: RequestInit,
 ) => Promise<Response>;
 
+/**
+ * Retry policy for transient OCHRE API failures. A failed attempt is retried
+ * when no response arrived or its status is one of `retryableStatusCodes`,
+ * waiting `minDelayMs * factor ** attempt` (capped at `maxDelayMs`) or the
+ * server's `Retry-After` in between.
+ */
+export type FetchRetryOptions = {
+  retries?: number;
+  minDelayMs?: number;
+  maxDelayMs?: number;
+  factor?: number;
+  retryableStatusCodes?: ReadonlyArray<number>;
+};
+
+/**
+ * Transport options accepted by every fetcher. `baseUrl` replaces the public
+ * OCHRE v2 endpoint, `headers` are sent with every request, and `timeoutMs`
+ * aborts an attempt that has not responded in time. `signal` cancels the whole
+ * request, retries included. `cache` opts the request into the response cache.
+ * `shouldThrow` throws the typed OCHRE error instead of returning it in the
+ * result.
+ */
+export type FetchRequestOptions = {
+  fetch?: FetchFunction;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  retry?: FetchRetryOptions;
+  cache?: OchreCacheOptions;
+  shouldThrow?: boolean;
+};
+
 export type FetchBaseOptions<
   TLanguages extends ReadonlyArray<string> | undefined = undefined,
-> = { languages?: TLanguages; fetch?: FetchFunction };
+> = FetchRequestOptions & { languages?: TLanguages };
 
 export type FetchRuntimeOptions = FetchBaseOptions<ReadonlyArray<string>>;
 
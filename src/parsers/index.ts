@@ -114,6 +114,7 @@ import type {
   XMLTree,
 } from "#/xml/types.js";
 import { DEFAULT_LANGUAGES } from "#/constants.js";
+import { OchreCategoryMismatchError, OchreParameterError } from "#/errors.js";
 import {
   getParserOptions,
   multilingualFromText,
@@ -666,15 +667,17 @@ function normalizeTreeItemCategory(
     typeof containedItemCategory !== "string" &&
     containedItemCategory != null
   ) {
-    throw new Error("Tree containedItemCategory must be a single category", {
-      cause: containedItemCategory,
-    });
+    throw new OchreParameterError(
+      "Tree containedItemCategory must be a single category",
+      { cause: containedItemCategory },
+    );
   }
 
   if (containedItemCategory === "tree") {
-    throw new Error('Tree containedItemCategory cannot be "tree"', {
-      cause: containedItemCategory,
-    });
+    throw new OchreParameterError(
+      'Tree containedItemCategory cannot be "tree"',
+      { cause: containedItemCategory },
+    );
   }
 
   return containedItemCategory;
@@ -704,9 +707,9 @@ function resolveTreeItemCategory<U extends TreeItemCategory>(
     containedItemCategory != null &&
     inferredCategory != null
   ) {
-    throw new Error(
+    throw new OchreCategoryMismatchError(
       `Tree containedItemCategory "${containedItemCategory}" does not match XML items category "${inferredCategory}"`,
-      { cause: { containedItemCategory, inferredCategory } },
+      { expected: [containedItemCategory], received: [inferredCategory] },
     );
   }
 
@@ -2849,9 +2852,9 @@ export function parseItem(
     if (typeof options.category === "string") {
       category = options.category;
     } else if (!options.category.includes(inferredCategory)) {
-      throw new Error(
+      throw new OchreCategoryMismatchError(
         `OCHRE item category "${inferredCategory}" is not one of the expected categories: ${options.category.join(", ")}`,
-        { cause: { category: inferredCategory, categories: options.category } },
+        { expected: options.category, received: [inferredCategory] },
       );
     }
   }
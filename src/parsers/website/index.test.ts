@@ -508,6 +508,7 @@ describe("fetchWebsite", () => {
     expect(result.website).toBeNull();
     expect(result.protectedWebsite).toBeNull();
     expect(result.error).not.toBeNull();
+    expect(result.ochreError?.kind).toBe("parameter");
     expect(mock.calls).toHaveLength(2);
   });
 
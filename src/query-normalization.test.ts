@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import type { QueryLeaf } from "#/types/index.js";
+import { normalizeQuery } from "#/query-normalization.js";
+
+const DEPTH_UUID = "8383140a-e676-417f-b5d8-863d9df6d905";
+
+const TITLE_QUERY: QueryLeaf = {
+  target: "title",
+  value: "tablet",
+  matchMode: "includes",
+  isCaseSensitive: false,
+  language: "eng",
+};
+const DESCRIPTION_QUERY: QueryLeaf = {
+  target: "description",
+  value: "clay",
+  matchMode: "includes",
+  isCaseSensitive: false,
+  language: "eng",
+};
+const DEPTH_QUERY: QueryLeaf = {
+  target: "property",
+  propertyVariable: DEPTH_UUID,
+  dataType: "decimal",
+  value: "1.5",
+  matchMode: "exact",
+  isCaseSensitive: false,
+  language: "eng",
+};
+
+describe("normalizeQuery", () => {
+  it("flattens same-operator groups and unwraps single-child groups", () => {
+    expect(
+      normalizeQuery({
+        and: [
+          { and: [TITLE_QUERY, { and: [DESCRIPTION_QUERY] }] },
+          { or: [{ or: [DEPTH_QUERY, TITLE_QUERY] }] },
+        ],
+      }),
+    ).toEqual({
+      query: {
+        and: [
+          TITLE_QUERY,
+          DESCRIPTION_QUERY,
+          { or: [DEPTH_QUERY, TITLE_QUERY] },
+        ],
+      },
+      isUnsatisfiable: false,
+    });
+    expect(normalizeQuery({ or: [{ and: [TITLE_QUERY] }] })).toEqual({
+      query: TITLE_QUERY,
+      isUnsatisfiable: false,
+    });
+  });
+
+  it("drops repeated leaves and groups whatever their field order", () => {
+    const reorderedTitleQuery: QueryLeaf = {
+      language: "eng",
+      isCaseSensitive: false,
+      matchMode: "includes",
+      value: "tablet",
+      target: "title",
+      isNegated: false,
+    };
+
+    expect(
+      normalizeQuery({
+        and: [
+          TITLE_QUERY,
+          reorderedTitleQuery,
+          { or: [DEPTH_QUERY, DESCRIPTION_QUERY] },
+          { or: [DEPTH_QUERY, DESCRIPTION_QUERY] },
+        ],
+      }),
+    ).toEqual({
+      query: { and: [TITLE_QUERY, { or: [DEPTH_QUERY, DESCRIPTION_QUERY] }] },
+      isUnsatisfiable: false,
+    });
+  });
+
+  it("short-circuits a leaf required and negated under the same and group", () => {
+    expect(
+      normalizeQuery({
+        or: [
+          TITLE_QUERY,
+          {
+            and: [DEPTH_QUERY, { and: [{ ...DEPTH_QUERY, isNegated: true }] }],
+          },
+        ],
+      }),
+    ).toEqual({ query: TITLE_QUERY, isUnsatisfiable: false });
+    expect(
+      normalizeQuery({
+        and: [TITLE_QUERY, DEPTH_QUERY, { ...DEPTH_QUERY, isNegated: true }],
+      }),
+    ).toEqual({ query: null, isUnsatisfiable: true });
+  });
+
+  it("drops an or group that holds a leaf and its negation", () => {
+    expect(
+      normalizeQuery({
+        and: [
+          TITLE_QUERY,
+          { or: [DEPTH_QUERY, { ...DEPTH_QUERY, isNegated: true }] },
+        ],
+      }),
+    ).toEqual({ query: TITLE_QUERY, isUnsatisfiable: false });
+    expect(
+      normalizeQuery({
+        or: [TITLE_QUERY, { ...TITLE_QUERY, isNegated: true }],
+      }),
+    ).toEqual({ query: null, isUnsatisfiable: false });
+    expect(normalizeQuery(null)).toEqual({
+      query: null,
+      isUnsatisfiable: false,
+    });
+  });
+});
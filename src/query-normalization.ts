@@ -0,0 +1,140 @@
+import type { Query } from "#/types/index.js";
+
+/**
+ * A normalized query, or `"all"`/`"none"` for a group that was found to match
+ * every item or no item at all
+ */
+type NormalizedQuery = Query | "all" | "none";
+
+/**
+ * Serialize a value to JSON with its object keys sorted, so leaves written
+ * with their fields in a different order share one key
+ */
+function getStableKey(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => getStableKey(item)).join(",")}]`;
+  }
+
+  if (value != null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, fieldValue]) => fieldValue !== undefined)
+      .toSorted(([leftKey], [rightKey]) => (leftKey < rightKey ? -1 : 1));
+
+    return `{${entries
+      .map(
+        ([key, fieldValue]) =>
+          `${JSON.stringify(key)}:${getStableKey(fieldValue)}`,
+      )
+      .join(",")}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+function normalizeQueryNode(query: Query): NormalizedQuery {
+  if ("target" in query) {
+    return query;
+  }
+
+  const operator = "and" in query ? "and" : "or";
+  const childQueries = "and" in query ? query.and : query.or;
+  // A child matching no item decides an `and` group, and one matching every
+  // item decides an `or` group; the opposite child changes nothing
+  const decidingResult = operator === "and" ? "none" : "all";
+  const neutralResult = operator === "and" ? "all" : "none";
+
+  const normalizedChildQueries: Array<Query> = [];
+  const groupKeys = new Set<string>();
+  const leafNegationsByKey = new Map<string, boolean>();
+
+  for (const childQuery of childQueries) {
+    const normalizedChildQuery = normalizeQueryNode(childQuery);
+
+    if (typeof normalizedChildQuery === "string") {
+      if (normalizedChildQuery === decidingResult) {
+        return decidingResult;
+      }
+
+      continue;
+    }
+
+    const flattenedChildQueries =
+      operator === "and" && "and" in normalizedChildQuery
+        ? normalizedChildQuery.and
+        : operator === "or" && "or" in normalizedChildQuery
+          ? normalizedChildQuery.or
+          : [normalizedChildQuery];
+
+    for (const flattenedChildQuery of flattenedChildQueries) {
+      if ("target" in flattenedChildQuery) {
+        const leafKey = getStableKey({
+          ...flattenedChildQuery,
+          isNegated: false,
+        });
+        const isNegated = flattenedChildQuery.isNegated === true;
+        const existingIsNegated = leafNegationsByKey.get(leafKey);
+
+        if (existingIsNegated === isNegated) {
+          continue;
+        }
+
+        // A leaf next to its own negation contradicts itself under `and`, and
+        // always holds under `or`
+        if (existingIsNegated != null) {
+          return decidingResult;
+        }
+
+        leafNegationsByKey.set(leafKey, isNegated);
+      } else {
+        const groupKey = getStableKey(flattenedChildQuery);
+
+        if (groupKeys.has(groupKey)) {
+          continue;
+        }
+
+        groupKeys.add(groupKey);
+      }
+
+      normalizedChildQueries.push(flattenedChildQuery);
+    }
+  }
+
+  if (normalizedChildQueries.length === 0) {
+    return neutralResult;
+  }
+
+  if (normalizedChildQueries.length === 1) {
+    return normalizedChildQueries[0]!;
+  }
+
+  return operator === "and"
+    ? { and: normalizedChildQueries }
+    : { or: normalizedChildQueries };
+}
+
+/**
+ * Simplify a query tree without changing the items it matches, so it compiles
+ * to a smaller XQuery. Nested groups with the same operator are flattened,
+ * groups with a single child are unwrapped, and repeated leaves and groups are
+ * dropped. Negation already lives on the leaves, so it needs no pushing down.
+ *
+ * A leaf and its own negation contradict each other under `and`, which then
+ * matches nothing, and cancel out under `or`, which then matches everything.
+ * @param query - The query tree to normalize, or `null` for no query
+ * @returns The normalized query, `null` when it matches every item, and whether it matches no item at all
+ */
+export function normalizeQuery(query: Query | null): {
+  query: Query | null;
+  isUnsatisfiable: boolean;
+} {
+  const normalizedQuery = query == null ? "all" : normalizeQueryNode(query);
+
+  if (normalizedQuery === "none") {
+    return { query: null, isUnsatisfiable: true };
+  }
+
+  return {
+    query: normalizedQuery === "all" ? null : normalizedQuery,
+    isUnsatisfiable: false,
+  };
+}
@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import type { Query } from "#/types/index.js";
+import { OchreParameterError } from "#/errors.js";
+import { parseQueryString, stringifyQuery } from "#/query-string.js";
+
+const DEPTH_UUID = "8383140a-e676-417f-b5d8-863d9df6d905";
+const FIND_TYPE_UUID = "30054cb2-909a-4f34-8db9-8fe7369d691d";
+
+const FIELD_ALIASES = {
+  depth: { propertyVariable: DEPTH_UUID, dataType: "decimal" },
+  findType: FIND_TYPE_UUID,
+} as const;
+
+function parseValidQuery(input: string): Query | null {
+  const result = parseQueryString(input, { fieldAliases: FIELD_ALIASES });
+
+  expect(result.errors).toBeNull();
+
+  return result.query;
+}
+
+describe("parseQueryString", () => {
+  it("parses fields, boolean operators, groups, and negation", () => {
+    expect(
+      parseValidQuery(
+        'title:"tablet" AND (period:Achaemenid OR ocr:king) -notes:draft',
+      ),
+    ).toEqual({
+      and: [
+        {
+          target: "title",
+          value: "tablet",
+          matchMode: "exact",
+          isCaseSensitive: false,
+          isFuzzy: false,
+          language: "eng",
+          isNegated: false,
+        },
+        {
+          or: [
+            {
+              target: "periods",
+              value: "Achaemenid",
+              matchMode: "includes",
+              isCaseSensitive: false,
+              language: "eng",
+              isNegated: false,
+            },
+            {
+              target: "ocr",
+              value: "king",
+              matchMode: "includes",
+              isCaseSensitive: false,
+              isNegated: false,
+            },
+          ],
+        },
+        {
+          target: "notes",
+          value: "draft",
+          matchMode: "includes",
+          isCaseSensitive: false,
+          isFuzzy: false,
+          language: "eng",
+          isNegated: true,
+        },
+      ],
+    });
+  });
+
+  it("maps field aliases and property variable UUIDs to property leaves", () => {
+    expect(parseValidQuery(`depth:"1.5" findType:bowl`)).toEqual({
+      and: [
+        expect.objectContaining({
+          target: "property",
+          propertyVariable: DEPTH_UUID,
+          dataType: "decimal",
+          value: "1.5",
+          matchMode: "exact",
+        }),
+        expect.objectContaining({
+          target: "property",
+          propertyVariable: FIND_TYPE_UUID,
+          dataType: "string",
+          value: "bowl",
+          matchMode: "includes",
+        }),
+      ],
+    });
+    expect(parseValidQuery(`${FIND_TYPE_UUID}:bowl`)).toEqual(
+      expect.objectContaining({
+        propertyVariable: FIND_TYPE_UUID,
+        dataType: "string",
+      }),
+    );
+  });
+
+  it("applies a field to a parenthesized group and pushes NOT down to leaves", () => {
+    expect(parseValidQuery("NOT title:(clay OR stone)")).toEqual({
+      and: [
+        expect.objectContaining({
+          target: "title",
+          value: "clay",
+          isNegated: true,
+        }),
+        expect.objectContaining({
+          target: "title",
+          value: "stone",
+          isNegated: true,
+        }),
+      ],
+    });
+  });
+
+  it("applies the parsing options to every leaf", () => {
+    const result = parseQueryString("Persepolis", {
+      defaultTarget: "description",
+      isCaseSensitive: true,
+      language: "fra",
+    });
+
+    expect(result.query).toEqual(
+      expect.objectContaining({
+        target: "description",
+        isCaseSensitive: true,
+        language: "fra",
+      }),
+    );
+  });
+
+  it("returns null for a blank string", () => {
+    expect(parseQueryString(" \t\n")).toEqual({ query: null, errors: null });
+  });
+
+  it("reports syntax errors with their positions", () => {
+    expect(parseQueryString('title:"tablet').errors).toEqual([
+      { message: "Unterminated quoted phrase", start: 6, end: 13 },
+    ]);
+    expect(parseQueryString("(clay OR stone").errors).toEqual([
+      { message: "Missing closing parenthesis", start: 0, end: 1 },
+    ]);
+    expect(parseQueryString("clay) stone").errors).toEqual([
+      { message: "Unexpected closing parenthesis", start: 4, end: 5 },
+    ]);
+    expect(parseQueryString("clay OR").errors).toEqual([
+      { message: "Expected a query after OR", start: 5, end: 7 },
+    ]);
+    expect(parseQueryString("shape:bowl title:").errors).toEqual([
+      { message: 'Unknown field "shape"', start: 0, end: 5 },
+      { message: 'Expected a value after "title:"', start: 11, end: 17 },
+    ]);
+  });
+
+  it("reports invalid alias UUIDs as validation errors", () => {
+    const result = parseQueryString("shape:bowl", {
+      fieldAliases: { shape: "not-a-uuid" },
+    });
+
+    expect(result.query).toBeNull();
+    expect(result.errors?.length).toBeGreaterThan(0);
+  });
+});
+
+describe("stringifyQuery", () => {
+  it("round-trips parsed queries", () => {
+    const inputs = [
+      'title:"tablet" AND (period:Achaemenid OR ocr:king) AND -notes:draft',
+      String.raw`depth:"1.5" OR (findType:bowl AND -"clay \"tablet\"")`,
+      String.raw`title:\AND OR title:north\:south OR \-draft`,
+    ];
+
+    for (const input of inputs) {
+      const query = parseValidQuery(input);
+
+      expect(stringifyQuery(query, { fieldAliases: FIELD_ALIASES })).toBe(
+        input,
+      );
+      expect(
+        parseValidQuery(stringifyQuery(query, { fieldAliases: FIELD_ALIASES })),
+      ).toEqual(query);
+    }
+  });
+
+  it("round-trips multi-word includes values as a single leaf", () => {
+    const query: Query = {
+      target: "title",
+      value: "clay tablet",
+      matchMode: "includes",
+      isCaseSensitive: false,
+      isFuzzy: false,
+      language: "eng",
+      isNegated: false,
+    };
+
+    expect(stringifyQuery(query)).toBe(String.raw`title:clay\ tablet`);
+    expect(parseValidQuery(stringifyQuery(query))).toEqual(query);
+    expect(stringifyQuery(null)).toBe("");
+  });
+
+  it("rejects leaves that no query string can express", () => {
+    expect(() =>
+      stringifyQuery({ target: "chronology", from: -1200, to: -1000 }),
+    ).toThrow(OchreParameterError);
+  });
+});
@@ -0,0 +1,754 @@
+import * as v from "valibot";
+import type {
+  Query,
+  QueryablePropertyValueDataType,
+  QueryLeaf,
+} from "#/types/index.js";
+import { OchreParameterError } from "#/errors.js";
+import { setQuerySchema } from "#/schemas.js";
+import { isPseudoUuid } from "#/utilities.js";
+
+/**
+ * A syntax error in a query string, spanning the characters from `start` up
+ * to, but not including, `end`
+ */
+export type QueryStringSyntaxError = {
+  message: string;
+  start: number;
+  end: number;
+};
+
+/**
+ * A query string field that searches a property variable, given by its UUID
+ * alone for string values or together with the data type of its values
+ */
+export type QueryStringFieldAlias =
+  | string
+  | {
+      propertyVariable: string;
+      dataType: Exclude<QueryablePropertyValueDataType, "date" | "dateTime">;
+    };
+
+/**
+ * Targets a query string field can search besides property variables
+ */
+export type QueryStringTarget =
+  | "string"
+  | "title"
+  | "description"
+  | "image"
+  | "periods"
+  | "bibliography"
+  | "notes"
+  | "ocr";
+
+/**
+ * Options for parsing and stringifying query strings
+ */
+export type QueryStringOptions = {
+  fieldAliases?: Record<string, QueryStringFieldAlias>;
+  defaultTarget?: QueryStringTarget;
+  isCaseSensitive?: boolean;
+  language?: string;
+};
+
+type QueryStringToken =
+  | { kind: "(" | ")" | "-" | "and" | "or" | "not"; start: number; end: number }
+  | { kind: "field"; name: string; start: number; end: number }
+  | {
+      kind: "term";
+      value: string;
+      isQuoted: boolean;
+      start: number;
+      end: number;
+    };
+
+type QueryStringField =
+  | { kind: "target"; target: QueryStringTarget }
+  | {
+      kind: "property";
+      propertyVariable: string;
+      dataType: Exclude<QueryablePropertyValueDataType, "date" | "dateTime">;
+    };
+
+type QueryStringParser = {
+  tokens: Array<QueryStringToken>;
+  position: number;
+  errors: Array<QueryStringSyntaxError>;
+  options: QueryStringOptions;
+};
+
+const QUERY_STRING_FIELD_TARGETS = new Map<string, QueryStringTarget>([
+  ["string", "string"],
+  ["title", "title"],
+  ["description", "description"],
+  ["image", "image"],
+  ["period", "periods"],
+  ["periods", "periods"],
+  ["bibliography", "bibliography"],
+  ["bibliographies", "bibliography"],
+  ["notes", "notes"],
+  ["note", "notes"],
+  ["ocr", "ocr"],
+]);
+
+const QUERY_STRING_TARGET_FIELDS: Record<QueryStringTarget, string> = {
+  string: "string",
+  title: "title",
+  description: "description",
+  image: "image",
+  periods: "period",
+  bibliography: "bibliography",
+  notes: "notes",
+  ocr: "ocr",
+};
+
+const QUERY_STRING_KEYWORDS = new Map<string, "and" | "or" | "not">([
+  ["AND", "and"],
+  ["OR", "or"],
+  ["NOT", "not"],
+]);
+
+const QUERY_STRING_SPECIAL_CHARACTER_REGEX = /[\s"():\\]/u;
+
+function isQueryStringWordBoundary(character: string): boolean {
+  return /\s/u.test(character) || ["(", ")", '"', ":"].includes(character);
+}
+
+function readQuotedTerm(
+  input: string,
+  start: number,
+  errors: Array<QueryStringSyntaxError>,
+): QueryStringToken {
+  let value = "";
+  let index = start + 1;
+
+  while (index < input.length) {
+    const character = input[index] ?? "";
+
+    if (character === "\\" && index + 1 < input.length) {
+      value += input[index + 1] ?? "";
+      index += 2;
+      continue;
+    }
+
+    if (character === '"') {
+      return { kind: "term", value, isQuoted: true, start, end: index + 1 };
+    }
+
+    value += character;
+    index += 1;
+  }
+
+  errors.push({ message: "Unterminated quoted phrase", start, end: index });
+
+  return { kind: "term", value, isQuoted: true, start, end: index };
+}
+
+function readWord(
+  input: string,
+  start: number,
+  errors: Array<QueryStringSyntaxError>,
+): QueryStringToken {
+  let value = "";
+  let isEscaped = false;
+  let index = start;
+
+  while (index < input.length) {
+    const character = input[index] ?? "";
+
+    if (character === "\\") {
+      if (index + 1 >= input.length) {
+        errors.push({
+          message: String.raw`Expected a character after '\'`,
+          start: index,
+          end: index + 1,
+        });
+        index += 1;
+        break;
+      }
+
+      value += input[index + 1] ?? "";
+      isEscaped = true;
+      index += 2;
+      continue;
+    }
+
+    if (isQueryStringWordBoundary(character)) {
+      break;
+    }
+
+    value += character;
+    index += 1;
+  }
+
+  if (input[index] === ":") {
+    return { kind: "field", name: value, start, end: index + 1 };
+  }
+
+  const keyword = isEscaped ? undefined : QUERY_STRING_KEYWORDS.get(value);
+
+  return keyword == null
+    ? { kind: "term", value, isQuoted: false, start, end: index }
+    : { kind: keyword, start, end: index };
+}
+
+function tokenizeQueryString(
+  input: string,
+  errors: Array<QueryStringSyntaxError>,
+): Array<QueryStringToken> {
+  const tokens: Array<QueryStringToken> = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const character = input[index] ?? "";
+    const nextCharacter = input[index + 1] ?? "";
+
+    if (/\s/u.test(character)) {
+      index += 1;
+    } else if (character === "(" || character === ")") {
+      tokens.push({ kind: character, start: index, end: index + 1 });
+      index += 1;
+    } else if (
+      character === "-" &&
+      nextCharacter !== "" &&
+      nextCharacter !== ")" &&
+      !/\s/u.test(nextCharacter)
+    ) {
+      tokens.push({ kind: "-", start: index, end: index + 1 });
+      index += 1;
+    } else if (character === '"') {
+      const token = readQuotedTerm(input, index, errors);
+      tokens.push(token);
+      index = token.end;
+    } else if (character === ":") {
+      errors.push({
+        message: "Expected a field name before ':'",
+        start: index,
+        end: index + 1,
+      });
+      index += 1;
+    } else {
+      const token = readWord(input, index, errors);
+      tokens.push(token);
+      index = token.end;
+    }
+  }
+
+  return tokens;
+}
+
+function peekToken(parser: QueryStringParser): QueryStringToken | null {
+  return parser.tokens[parser.position] ?? null;
+}
+
+function resolveQueryStringField(
+  parser: QueryStringParser,
+  token: Extract<QueryStringToken, { kind: "field" }>,
+): QueryStringField {
+  const fieldName = token.name.toLowerCase();
+
+  const fieldAliases = Object.entries(parser.options.fieldAliases ?? {});
+
+  for (const [alias, fieldAlias] of fieldAliases) {
+    if (alias.toLowerCase() === fieldName) {
+      return typeof fieldAlias === "string"
+        ? { kind: "property", propertyVariable: fieldAlias, dataType: "string" }
+        : { kind: "property", ...fieldAlias };
+    }
+  }
+
+  const target = QUERY_STRING_FIELD_TARGETS.get(fieldName);
+
+  if (target != null) {
+    return { kind: "target", target };
+  }
+
+  if (isPseudoUuid(token.name)) {
+    return {
+      kind: "property",
+      propertyVariable: token.name,
+      dataType: "string",
+    };
+  }
+
+  parser.errors.push({
+    message: `Unknown field "${token.name}"`,
+    start: token.start,
+    end: token.end - 1,
+  });
+
+  return { kind: "target", target: "string" };
+}
+
+function buildQueryStringLeaf(parameters: {
+  field: QueryStringField;
+  token: Extract<QueryStringToken, { kind: "term" }>;
+  options: QueryStringOptions;
+}): QueryLeaf {
+  const { field, token, options } = parameters;
+  const matchMode = token.isQuoted ? "exact" : "includes";
+  const isCaseSensitive = options.isCaseSensitive ?? false;
+  const language = options.language ?? "eng";
+
+  if (field.kind === "property") {
+    return {
+      target: "property",
+      propertyVariable: field.propertyVariable,
+      dataType: field.dataType,
+      value: token.value,
+      matchMode,
+      isCaseSensitive,
+      language,
+    };
+  }
+
+  if (field.target === "ocr") {
+    return { target: "ocr", value: token.value, matchMode, isCaseSensitive };
+  }
+
+  return {
+    target: field.target,
+    value: token.value,
+    matchMode,
+    isCaseSensitive,
+    language,
+  };
+}
+
+/**
+ * Negate a query, pushing the negation down to the leaves since groups carry
+ * no negation of their own
+ */
+function negateQuery(query: Query): Query {
+  if ("and" in query) {
+    return { or: query.and.map((childQuery) => negateQuery(childQuery)) };
+  }
+
+  if ("or" in query) {
+    return { and: query.or.map((childQuery) => negateQuery(childQuery)) };
+  }
+
+  return { ...query, isNegated: query.isNegated !== true };
+}
+
+function parseGroup(
+  parser: QueryStringParser,
+  field: QueryStringField,
+): Query | null {
+  const openingToken = peekToken(parser);
+
+  if (openingToken == null) {
+    return null;
+  }
+
+  parser.position += 1;
+  const query = parseOr(parser, field);
+  const closingToken = peekToken(parser);
+
+  if (closingToken?.kind === ")") {
+    parser.position += 1;
+  } else {
+    parser.errors.push({
+      message: "Missing closing parenthesis",
+      start: openingToken.start,
+      end: openingToken.end,
+    });
+  }
+
+  if (query == null) {
+    parser.errors.push({
+      message: "Expected a query inside parentheses",
+      start: openingToken.start,
+      end: closingToken?.kind === ")" ? closingToken.end : openingToken.end,
+    });
+  }
+
+  return query;
+}
+
+function parsePrimary(
+  parser: QueryStringParser,
+  field: QueryStringField,
+): Query | null {
+  const token = peekToken(parser);
+
+  switch (token?.kind) {
+    case "(": {
+      return parseGroup(parser, field);
+    }
+    case "field": {
+      parser.position += 1;
+      const valueToken = peekToken(parser);
+      const resolvedField = resolveQueryStringField(parser, token);
+
+      if (valueToken?.kind === "(") {
+        return parseGroup(parser, resolvedField);
+      }
+
+      if (valueToken?.kind === "term") {
+        parser.position += 1;
+
+        return buildQueryStringLeaf({
+          field: resolvedField,
+          token: valueToken,
+          options: parser.options,
+        });
+      }
+
+      parser.errors.push({
+        message: `Expected a value after "${token.name}:"`,
+        start: token.start,
+        end: token.end,
+      });
+
+      return null;
+    }
+    case "term": {
+      parser.position += 1;
+
+      return buildQueryStringLeaf({ field, token, options: parser.options });
+    }
+    default: {
+      return null;
+    }
+  }
+}
+
+function parseUnary(
+  parser: QueryStringParser,
+  field: QueryStringField,
+): Query | null {
+  const token = peekToken(parser);
+
+  if (token?.kind !== "-" && token?.kind !== "not") {
+    return parsePrimary(parser, field);
+  }
+
+  parser.position += 1;
+  const query = parseUnary(parser, field);
+
+  if (query == null) {
+    parser.errors.push({
+      message:
+        token.kind === "not"
+          ? "Expected a query after NOT"
+          : "Expected a query after '-'",
+      start: token.start,
+      end: token.end,
+    });
+
+    return null;
+  }
+
+  return negateQuery(query);
+}
+
+function parseAnd(
+  parser: QueryStringParser,
+  field: QueryStringField,
+): Query | null {
+  const queries: Array<Query> = [];
+
+  for (
+    let token = peekToken(parser);
+    token != null && token.kind !== ")" && token.kind !== "or";
+    token = peekToken(parser)
+  ) {
+    if (token.kind === "and") {
+      parser.position += 1;
+
+      if (queries.length === 0) {
+        parser.errors.push({
+          message: "Expected a query before AND",
+          start: token.start,
+          end: token.end,
+        });
+      }
+    }
+
+    const query = parseUnary(parser, field);
+
+    if (query == null) {
+      if (token.kind === "and") {
+        parser.errors.push({
+          message: "Expected a query after AND",
+          start: token.start,
+          end: token.end,
+        });
+      }
+
+      break;
+    }
+
+    queries.push(query);
+  }
+
+  if (queries.length <= 1) {
+    return queries[0] ?? null;
+  }
+
+  return { and: queries };
+}
+
+function parseOr(
+  parser: QueryStringParser,
+  field: QueryStringField,
+): Query | null {
+  const queries: Array<Query> = [];
+  const firstQuery = parseAnd(parser, field);
+
+  if (firstQuery != null) {
+    queries.push(firstQuery);
+  }
+
+  for (
+    let token = peekToken(parser);
+    token?.kind === "or";
+    token = peekToken(parser)
+  ) {
+    parser.position += 1;
+
+    if (queries.length === 0) {
+      parser.errors.push({
+        message: "Expected a query before OR",
+        start: token.start,
+        end: token.end,
+      });
+    }
+
+    const query = parseAnd(parser, field);
+
+    if (query == null) {
+      parser.errors.push({
+        message: "Expected a query after OR",
+        start: token.start,
+        end: token.end,
+      });
+    } else {
+      queries.push(query);
+    }
+  }
+
+  if (queries.length <= 1) {
+    return queries[0] ?? null;
+  }
+
+  return { or: queries };
+}
+
+/**
+ * Parse a search string into a validated Set items `Query`
+ *
+ * Terms are joined with `AND` (or whitespace) and `OR`, grouped with
+ * parentheses, and negated with `NOT` or a leading `-`. `field:value` searches
+ * a single target; a field in front of parentheses applies to every term
+ * inside them. Quoted phrases match exactly, bare words with `includes`. A
+ * backslash escapes the next character, so `clay\ tablet` is one `includes`
+ * term. Fields are `string`, `title`, `description`, `image`, `period`,
+ * `bibliography`, `notes`, `ocr`, any key of `fieldAliases`, or a property
+ * variable UUID.
+ *
+ * @param input - The query string, such as `title:"tablet" AND (period:Achaemenid OR ocr:king) -notes:draft`
+ * @param options - Parsing options
+ * @param options.fieldAliases - Field names that search a property variable
+ * @param options.defaultTarget - The target of terms without a field, `string` by default
+ * @param options.isCaseSensitive - Whether every term is matched case-sensitively, false by default
+ * @param options.language - The language of every term, `eng` by default
+ * @returns The parsed query, null for a blank string, or the syntax errors
+ */
+export function parseQueryString(
+  input: string,
+  options: QueryStringOptions = {},
+):
+  | { query: Query | null; errors: null }
+  | { query: null; errors: Array<QueryStringSyntaxError> } {
+  const errors: Array<QueryStringSyntaxError> = [];
+  const parser: QueryStringParser = {
+    tokens: tokenizeQueryString(input, errors),
+    position: 0,
+    errors,
+    options,
+  };
+  const defaultField: QueryStringField = {
+    kind: "target",
+    target: options.defaultTarget ?? "string",
+  };
+  const query = parseOr(parser, defaultField);
+
+  // Skip past a stray token and keep parsing, so the errors after it are
+  // reported in the same pass
+  for (
+    let token = peekToken(parser);
+    token != null;
+    token = peekToken(parser)
+  ) {
+    parser.errors.push({
+      message:
+        token.kind === ")"
+          ? "Unexpected closing parenthesis"
+          : "Unexpected token",
+      start: token.start,
+      end: token.end,
+    });
+    parser.position += 1;
+    parseOr(parser, defaultField);
+  }
+
+  if (errors.length > 0) {
+    return {
+      query: null,
+      errors: errors.toSorted((left, right) => left.start - right.start),
+    };
+  }
+
+  if (query == null) {
+    return { query: null, errors: null };
+  }
+
+  const result = v.safeParse(setQuerySchema, query);
+
+  if (!result.success) {
+    return {
+      query: null,
+      errors: result.issues.map((issue) => ({
+        message: issue.message,
+        start: 0,
+        end: input.length,
+      })),
+    };
+  }
+
+  return { query: result.output, errors: null };
+}
+
+function stringifyQueryStringValue(parameters: {
+  value: string;
+  matchMode: "includes" | "exact";
+}): string {
+  const { value, matchMode } = parameters;
+
+  if (matchMode === "exact" || value === "") {
+    return `"${value.replaceAll(/["\\]/gu, (character) => `\\${character}`)}"`;
+  }
+
+  const escapedValue = [...value]
+    .map((character) =>
+      QUERY_STRING_SPECIAL_CHARACTER_REGEX.test(character)
+        ? `\\${character}`
+        : character,
+    )
+    .join("");
+
+  return QUERY_STRING_KEYWORDS.has(value) || value.startsWith("-")
+    ? `\\${escapedValue}`
+    : escapedValue;
+}
+
+function getQueryStringPropertyField(
+  query: Extract<QueryLeaf, { target: "property" }>,
+  options: QueryStringOptions,
+): string | null {
+  const fieldAliases = Object.entries(options.fieldAliases ?? {});
+
+  for (const [alias, fieldAlias] of fieldAliases) {
+    const { propertyVariable, dataType } =
+      typeof fieldAlias === "string"
+        ? { propertyVariable: fieldAlias, dataType: "string" }
+        : fieldAlias;
+
+    if (
+      propertyVariable === query.propertyVariable &&
+      dataType === query.dataType
+    ) {
+      return alias;
+    }
+  }
+
+  return query.dataType === "string" ? (query.propertyVariable ?? null) : null;
+}
+
+function isQueryStringTarget(target: string): target is QueryStringTarget {
+  return Object.hasOwn(QUERY_STRING_TARGET_FIELDS, target);
+}
+
+function getQueryStringLeafField(
+  query: QueryLeaf,
+  options: QueryStringOptions,
+): string | null {
+  if (query.target === "property") {
+    return query.propertyRelation == null
+      ? getQueryStringPropertyField(query, options)
+      : null;
+  }
+
+  if (
+    !isQueryStringTarget(query.target) ||
+    ("isFuzzy" in query && query.isFuzzy === true)
+  ) {
+    return null;
+  }
+
+  return query.target === (options.defaultTarget ?? "string")
+    ? ""
+    : QUERY_STRING_TARGET_FIELDS[query.target];
+}
+
+function stringifyQueryLeaf(
+  query: QueryLeaf,
+  options: QueryStringOptions,
+): string {
+  const field = getQueryStringLeafField(query, options);
+
+  if (
+    field == null ||
+    !("value" in query) ||
+    query.value == null ||
+    (query.matchMode !== "includes" && query.matchMode !== "exact")
+  ) {
+    throw new OchreParameterError(
+      `Query leaves with target "${query.target}" and these options cannot be written as a query string`,
+    );
+  }
+
+  return `${query.isNegated === true ? "-" : ""}${field === "" ? "" : `${field}:`}${stringifyQueryStringValue({ value: query.value, matchMode: query.matchMode })}`;
+}
+
+/**
+ * Write a Set items `Query` as a query string that `parseQueryString` reads
+ * back into the same query, given the same options
+ *
+ * Nested groups are always parenthesized so their structure survives the
+ * round trip. Case sensitivity and language come from the parsing options, so
+ * they are not written out.
+ *
+ * @param query - The query to write, or null for no query
+ * @param options - The options the string will be parsed with
+ * @param options.fieldAliases - Field names that search a property variable
+ * @param options.defaultTarget - The target written without a field, `string` by default
+ * @returns The query string
+ * @throws {OchreParameterError} If the query has a leaf no query string can express
+ */
+export function stringifyQuery(
+  query: Query | null,
+  options: Pick<QueryStringOptions, "fieldAliases" | "defaultTarget"> = {},
+): string {
+  if (query == null) {
+    return "";
+  }
+
+  if (!("and" in query) && !("or" in query)) {
+    return stringifyQueryLeaf(query, options);
+  }
+
+  const [operator, childQueries] =
+    "and" in query ? [" AND ", query.and] : [" OR ", query.or];
+
+  return childQueries
+    .map((childQuery) =>
+      "and" in childQuery || "or" in childQuery
+        ? `(${stringifyQuery(childQuery, options)})`
+        : stringifyQuery(childQuery, options),
+    )
+    .join(operator);
+}
@@ -1,5 +1,10 @@
 import { describe, expect, it } from "vitest";
-import type { Query, SetItemsSort } from "#/types/index.js";
+import type {
+  Query,
+  SetAttributeValues,
+  SetItemsSort,
+  SetPropertyValueHistogramOptions,
+} from "#/types/index.js";
 import { fetchSetItems } from "#/fetchers/set/items.js";
 import { fetchSetPropertyValues } from "#/fetchers/set/property-values.js";
 import {
@@ -29,6 +34,7 @@ function compiledItemsClause(queries: Query | null): string {
  */
 function compiledQueryPlan(parameters: { queries: Query | null }): {
   prolog: string;
+  itemsClause: string;
   queryExpression: string | null;
 } {
   const { prolog, itemsClause } = buildQueryPlan({
@@ -40,6 +46,7 @@ function compiledQueryPlan(parameters: { queries: Query | null }): {
 
   return {
     prolog,
+    itemsClause,
     queryExpression:
       startIndex === -1 || endIndex === -1
         ? null
@@ -97,8 +104,10 @@ async function captureSetItemsQuery(parameters: {
 async function captureSetPropertyValuesQuery(parameters: {
   setScopeUuids: Array<string>;
   queries?: Query | null;
-  attributes?: { bibliographies: boolean; periods: boolean };
+  attributes?: Partial<Record<keyof SetAttributeValues, boolean>>;
   isLimitedToLeafPropertyValues?: boolean;
+  isDisjunctive?: boolean;
+  histograms?: Array<SetPropertyValueHistogramOptions>;
 }): Promise<string> {
   let postedBody = "";
 
@@ -124,6 +133,22 @@ describe("query helpers", () => {
     );
   });
 
+  it("binds no items for a query that contradicts itself", () => {
+    const titleQuery = {
+      target: "title",
+      value: "tablet",
+      matchMode: "exact",
+      isCaseSensitive: false,
+      language: "eng",
+    } as const;
+
+    expect(
+      compiledItemsClause({
+        and: [titleQuery, { ...titleQuery, isNegated: true }],
+      }),
+    ).toBe("let $items := ()");
+  });
+
   it("builds collection membership queries through the property scope", () => {
     const queryExpression = buildBelongsToCollectionQueryExpression(
       [COLLECTION_UUID],
@@ -138,6 +163,41 @@ describe("query helpers", () => {
       `cts:element-attribute-value-query(xs:QName("value"), xs:QName("uuid"), "${COLLECTION_UUID}")`,
     ]);
   });
+
+  it("shares query helpers and bindings between the query trees compiled together", () => {
+    const titleQuery = {
+      target: "title",
+      value: "tablet",
+      matchMode: "exact",
+      isCaseSensitive: false,
+      language: "eng",
+    } as const;
+    const ocrQuery = {
+      target: "ocr",
+      value: "king",
+      matchMode: "includes",
+      isCaseSensitive: false,
+    } as const;
+    const { prolog, itemsClause, facetItemsExpressions } = buildQueryPlan({
+      queries: { and: [titleQuery, ocrQuery] },
+      baseItemsExpression: BASE_ITEMS_EXPRESSION,
+      facetQueries: [titleQuery, ocrQuery, null],
+    });
+
+    expect(countOccurrences(prolog, "declare function")).toBe(1);
+    expect(countOccurrences(itemsClause, "let $ocrItemUuids1 := ")).toBe(1);
+    expect(itemsClause).toContain(
+      `let $items := cts:search(${BASE_ITEMS_EXPRESSION}[@uuid = $ocrItemUuids1], $query)`,
+    );
+    expect(facetItemsExpressions).toStrictEqual([
+      `(
+    let $query := local:queryHelper1()
+    return cts:search(${BASE_ITEMS_EXPRESSION}, $query)
+  )`,
+      `${BASE_ITEMS_EXPRESSION}[@uuid = $ocrItemUuids1]`,
+      BASE_ITEMS_EXPRESSION,
+    ]);
+  });
 });
 
 describe("content target queries", () => {
@@ -298,6 +358,200 @@ describe("string target queries", () => {
   });
 });
 
+describe("text match modes", () => {
+  const PHRASE_OPTIONS =
+    '("case-insensitive", "diacritic-sensitive", "punctuation-insensitive", "whitespace-insensitive", "unstemmed", "unwildcarded")';
+
+  it("compiles near queries as an ordered or unordered proximity query", () => {
+    const { prolog, queryExpression } = compiledQueryPlan({
+      queries: {
+        target: "description",
+        terms: ["clay", "tablet"],
+        matchMode: "near",
+        distance: 3,
+        isOrdered: true,
+        isCaseSensitive: false,
+        language: "eng",
+      },
+    });
+
+    expect(prolog).toBe("");
+    expect(queryExpression).toBe(
+      `cts:element-query(xs:QName("description"), cts:element-query(xs:QName("content"), cts:and-query((cts:element-attribute-value-query(xs:QName("content"), xs:QName("xml:lang"), "eng"), cts:near-query((cts:word-query("clay", ${PHRASE_OPTIONS}), cts:word-query("tablet", ${PHRASE_OPTIONS})), 3, "ordered")))))`,
+    );
+  });
+
+  it("compiles startsWith as a wildcarded phrase", () => {
+    const { queryExpression } = compiledQueryPlan({
+      queries: {
+        target: "title",
+        value: "clay tab",
+        matchMode: "startsWith",
+        isCaseSensitive: false,
+        language: "eng",
+      },
+    });
+
+    expect(queryExpression).toContain(
+      'cts:word-query("clay tab*", ("case-insensitive", "diacritic-sensitive", "punctuation-insensitive", "whitespace-insensitive", "unstemmed", "wildcarded"))',
+    );
+  });
+
+  it("compiles anyOf and allOf term lists as or and and queries", () => {
+    const anyOfExpression = compiledQueryPlan({
+      queries: {
+        target: "notes",
+        terms: ["seal", "sealing"],
+        matchMode: "anyOf",
+        isCaseSensitive: false,
+        language: "eng",
+      },
+    }).queryExpression;
+    const allOfExpression = compiledQueryPlan({
+      queries: {
+        target: "notes",
+        terms: ["seal", "impression"],
+        matchMode: "allOf",
+        isCaseSensitive: false,
+        language: "eng",
+      },
+    }).queryExpression;
+
+    expectContainsAll(anyOfExpression ?? "", [
+      'cts:element-query(xs:QName("notes")',
+      `cts:or-query((cts:word-query("seal", ${PHRASE_OPTIONS}), cts:word-query("sealing", ${PHRASE_OPTIONS})))`,
+    ]);
+    expect(allOfExpression).toContain(
+      `cts:and-query((cts:word-query("seal", ${PHRASE_OPTIONS}), cts:word-query("impression", ${PHRASE_OPTIONS})))`,
+    );
+  });
+
+  it("ignores diacritics for fuzzy terms and fuzzy exact phrases", () => {
+    const fuzzyTermsText = compiledQueryText({
+      target: "title",
+      terms: ["sarru"],
+      matchMode: "anyOf",
+      isCaseSensitive: false,
+      isFuzzy: true,
+      language: "akk",
+    });
+    const fuzzyExactText = compiledQueryText({
+      target: "title",
+      value: "sarru kissati",
+      matchMode: "exact",
+      isCaseSensitive: false,
+      isFuzzy: true,
+      language: "akk",
+    });
+
+    expectContainsAll(fuzzyTermsText, [
+      'cts:word-query("sarru", ("case-insensitive", "diacritic-insensitive"',
+      '"stemmed"',
+      '"lang=akk"',
+    ]);
+    expectContainsAll(fuzzyExactText, [
+      'cts:word-query("sarru kissati", ("case-insensitive", "diacritic-insensitive", "punctuation-insensitive", "whitespace-insensitive", "unstemmed", "unwildcarded"))',
+    ]);
+    expectContainsNone(fuzzyExactText, ["local:queryHelper", '"stemmed"']);
+  });
+
+  it("searches string property values and composes with negation", () => {
+    const { queryExpression } = compiledQueryPlan({
+      queries: {
+        and: [
+          {
+            target: "string",
+            terms: ["ziggurat", "temple"],
+            matchMode: "anyOf",
+            isCaseSensitive: false,
+            language: "eng",
+            isNegated: true,
+          },
+          {
+            target: "title",
+            value: "tell",
+            matchMode: "includes",
+            isCaseSensitive: false,
+            language: "eng",
+          },
+        ],
+      },
+    });
+
+    expectContainsAll(queryExpression ?? "", [
+      "cts:not-query(cts:or-query((",
+      'cts:element-query(xs:QName("identification")',
+      'cts:element-query(xs:QName("properties")',
+      "let $contentQuery :=",
+      "let $bareValueQuery :=",
+    ]);
+    expectContainsNone(queryExpression ?? "", ["let $rawValueQuery :="]);
+  });
+
+  it("rejects empty term lists, single-term near queries, and unsupported targets or fuzzy modes", async () => {
+    const invalidQueries = [
+      {
+        target: "title",
+        terms: [],
+        matchMode: "anyOf",
+        isCaseSensitive: false,
+      },
+      {
+        target: "title",
+        terms: ["clay"],
+        matchMode: "near",
+        distance: 2,
+        isCaseSensitive: false,
+      },
+      {
+        target: "title",
+        terms: ["clay", "tablet"],
+        matchMode: "near",
+        distance: -1,
+        isCaseSensitive: false,
+      },
+      {
+        target: "bibliography",
+        value: "Smith",
+        matchMode: "startsWith",
+        isCaseSensitive: false,
+      },
+      {
+        target: "title",
+        value: "sarru",
+        matchMode: "includes",
+        isCaseSensitive: false,
+        isFuzzy: true,
+      },
+      {
+        target: "periods",
+        value: "Achaemenid",
+        matchMode: "exact",
+        isCaseSensitive: false,
+        isFuzzy: true,
+      },
+    ];
+
+    for (const query of invalidQueries) {
+      const result = await fetchSetItems(
+        {
+          setScopeUuids: [SET_UUID],
+          queries: query as unknown as Query,
+          page: 1,
+        },
+        undefined,
+        {
+          fetch: async () => {
+            throw new Error("Should not fetch");
+          },
+        },
+      );
+
+      expect(result.ochreError?.kind).toBe("parameter");
+    }
+  });
+});
+
 describe("ocr target queries", () => {
   const ocrQuery = {
     target: "ocr",
@@ -633,6 +887,138 @@ describe("property target queries", () => {
     ]);
   });
 
+  it("compiles numeric range property queries as decimal cast predicates with inclusive and exclusive bounds", () => {
+    const { prolog, queryExpression, itemsClause } = compiledQueryPlan({
+      queries: {
+        and: [
+          {
+            target: "property",
+            propertyVariable: MEDIA_TYPE_UUID,
+            dataType: "decimal",
+            from: 1.2,
+            to: 3.5,
+            isToExclusive: true,
+            matchMode: "exact",
+            isCaseSensitive: false,
+            language: "eng",
+          },
+          {
+            target: "property",
+            propertyVariable: COLLECTION_PROPERTY_UUID,
+            dataType: "integer",
+            from: 10,
+            isFromExclusive: true,
+            matchMode: "exact",
+            isCaseSensitive: false,
+            language: "eng",
+          },
+        ],
+      },
+    });
+
+    expect(prolog).toBe("");
+    expect(queryExpression).toBeNull();
+    expectContainsAll(itemsClause, [
+      `[properties//property[label/@uuid = "${MEDIA_TYPE_UUID}"]/value[@rawValue castable as xs:decimal][xs:decimal(@rawValue) ge xs:decimal("1.2")][xs:decimal(@rawValue) lt xs:decimal("3.5")]]`,
+      `[properties//property[label/@uuid = "${COLLECTION_PROPERTY_UUID}"]/value[@rawValue castable as xs:decimal][xs:decimal(@rawValue) gt xs:decimal("10")]]`,
+    ]);
+    expectContainsNone(itemsClause, [
+      "cts:element-attribute-range-query",
+      'le xs:decimal("3.5")',
+    ]);
+  });
+
+  it("compiles negated numeric range property queries as a negated predicate with the relation", () => {
+    const itemsClause = compiledItemsClause({
+      target: "property",
+      propertyVariable: MEDIA_TYPE_UUID,
+      propertyRelation: "inverse",
+      dataType: "time",
+      to: 5,
+      isNegated: true,
+      matchMode: "exact",
+      isCaseSensitive: false,
+      language: "eng",
+    });
+
+    expect(itemsClause).toContain(
+      `[not(properties//property[label/@uuid = "${MEDIA_TYPE_UUID}"][label/@relation = "inverse"]/value[@rawValue castable as xs:decimal][xs:decimal(@rawValue) le xs:decimal("5")])]`,
+    );
+  });
+
+  it("writes very small and very large numeric range bounds without an exponent", () => {
+    const itemsClause = compiledItemsClause({
+      target: "property",
+      propertyVariable: MEDIA_TYPE_UUID,
+      dataType: "decimal",
+      from: -1.5e-7,
+      to: 1e21,
+      matchMode: "exact",
+      isCaseSensitive: false,
+      language: "eng",
+    });
+
+    expectContainsAll(itemsClause, [
+      'ge xs:decimal("-0.00000015")',
+      'le xs:decimal("1000000000000000000000")',
+    ]);
+    expect(itemsClause).not.toContain("e-7");
+  });
+
+  it("rejects numeric ranges whose from bound is after the to bound", async () => {
+    const result = await fetchSetItems(
+      {
+        setScopeUuids: [SET_UUID],
+        queries: {
+          target: "property",
+          propertyVariable: MEDIA_TYPE_UUID,
+          dataType: "integer",
+          from: 20,
+          to: 10,
+          matchMode: "exact",
+          isCaseSensitive: false,
+          language: "eng",
+        },
+        page: 1,
+      },
+      undefined,
+      {
+        fetch: async () => {
+          throw new Error("Should not fetch");
+        },
+      },
+    );
+
+    expect(result.ochreError?.kind).toBe("parameter");
+  });
+
+  it("rejects numeric range bounds alongside a value", async () => {
+    const result = await fetchSetItems(
+      {
+        setScopeUuids: [SET_UUID],
+        queries: {
+          target: "property",
+          propertyVariable: MEDIA_TYPE_UUID,
+          dataType: "time",
+          value: "12",
+          from: 1,
+          matchMode: "exact",
+          isCaseSensitive: false,
+          language: "eng",
+        } as unknown as Query,
+        page: 1,
+      },
+      undefined,
+      {
+        fetch: async () => {
+          throw new Error("Should not fetch");
+        },
+      },
+    );
+
+    expect(result.ochreError?.kind).toBe("parameter");
+  });
+
   it("keeps relation-specific helpers distinct for otherwise identical property queries", () => {
     const queryText = compiledQueryText({
       or: [
@@ -672,6 +1058,332 @@ describe("property target queries", () => {
   });
 });
 
+describe("coordinates target queries", () => {
+  it("matches point and plane coordinates inside a bounding box", () => {
+    const { prolog, queryExpression } = compiledQueryPlan({
+      queries: {
+        target: "coordinates",
+        region: {
+          type: "boundingBox",
+          south: 30.5,
+          west: 35,
+          north: 32,
+          east: 36.25,
+        },
+      },
+    });
+
+    expect(prolog).toBe("");
+    expect(queryExpression).toBe(
+      'cts:element-query(xs:QName("coordinates"), cts:or-query((cts:element-pair-geospatial-query(xs:QName("coord"), xs:QName("latitude"), xs:QName("longitude"), cts:box(30.5, 35, 32, 36.25)), cts:element-query(xs:QName("coord"), cts:and-query((cts:element-pair-geospatial-query(xs:QName("minimum"), xs:QName("latitude"), xs:QName("longitude"), cts:box(30.5, 35, 32, 36.25)), cts:element-pair-geospatial-query(xs:QName("maximum"), xs:QName("latitude"), xs:QName("longitude"), cts:box(30.5, 35, 32, 36.25))))))))',
+    );
+  });
+
+  it("converts point-radius regions to miles and builds polygons from vertices", () => {
+    const queryText = compiledQueryText({
+      or: [
+        {
+          target: "coordinates",
+          region: {
+            type: "pointRadius",
+            latitude: 31.5,
+            longitude: 35.2,
+            radiusKm: 1.609344,
+          },
+        },
+        {
+          target: "coordinates",
+          region: {
+            type: "polygon",
+            vertices: [
+              { latitude: 30, longitude: 35 },
+              { latitude: 31, longitude: 36 },
+              { latitude: 30, longitude: 36 },
+            ],
+          },
+        },
+      ],
+    });
+
+    expectContainsAll(queryText, [
+      "cts:circle(1, cts:point(31.5, 35.2))",
+      "cts:polygon((cts:point(30, 35), cts:point(31, 36), cts:point(30, 36)))",
+    ]);
+  });
+
+  it("composes with other leaves and negation", () => {
+    const { queryExpression } = compiledQueryPlan({
+      queries: {
+        and: [
+          {
+            target: "title",
+            value: "tell",
+            matchMode: "includes",
+            isCaseSensitive: false,
+            language: "eng",
+          },
+          {
+            target: "coordinates",
+            region: {
+              type: "boundingBox",
+              south: 30,
+              west: 35,
+              north: 31,
+              east: 36,
+            },
+            isNegated: true,
+          },
+        ],
+      },
+    });
+
+    expect(queryExpression?.startsWith("cts:and-query((")).toBe(true);
+    expect(queryExpression).toContain(
+      'cts:not-query(cts:element-query(xs:QName("coordinates")',
+    );
+  });
+
+  it("rejects out-of-range coordinates and degenerate polygons", async () => {
+    const invalidRegions = [
+      { type: "boundingBox", south: -91, west: 0, north: 10, east: 10 },
+      { type: "boundingBox", south: 10, west: 0, north: 5, east: 10 },
+      { type: "pointRadius", latitude: 10, longitude: 181, radiusKm: 5 },
+      { type: "pointRadius", latitude: 10, longitude: 10, radiusKm: 0 },
+      {
+        type: "polygon",
+        vertices: [
+          { latitude: 0, longitude: 0 },
+          { latitude: 1, longitude: 1 },
+        ],
+      },
+    ];
+
+    for (const region of invalidRegions) {
+      const result = await fetchSetItems(
+        {
+          setScopeUuids: [SET_UUID],
+          queries: { target: "coordinates", region } as unknown as Query,
+          page: 1,
+        },
+        undefined,
+        {
+          fetch: async () => {
+            throw new Error("Should not fetch");
+          },
+        },
+      );
+
+      expect(result.ochreError?.kind).toBe("parameter");
+    }
+  });
+});
+
+describe("chronology target queries", () => {
+  const PERIOD_UUID = "bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb";
+
+  it("matches Event dates and linked periods that overlap a BCE year range", () => {
+    const { prolog } = compiledQueryPlan({
+      queries: { target: "chronology", from: -1200, to: -1000 },
+    });
+    const itemsClause = compiledItemsClause({
+      target: "chronology",
+      from: -1200,
+      to: -1000,
+    });
+
+    expectContainsAll(prolog, [
+      "declare function local:eventYear(",
+      "declare function local:eventsOverlapYears(",
+    ]);
+    expectContainsAll(itemsClause, [
+      'let $chronologyDatedPeriods := cts:search(/ochre/period, cts:element-query(xs:QName("events"), cts:element-query(xs:QName("event"), cts:true-query())))/descendant-or-self::period[events/event]',
+      "let $chronologyPeriodUuids1 := $chronologyDatedPeriods[local:eventsOverlapYears(events/event, -1200, -1000)]/@uuid/string()",
+      `let $items := ${BASE_ITEMS_EXPRESSION}[local:eventsOverlapYears(events/event, -1200, -1000) or periods/period/@uuid = $chronologyPeriodUuids1]`,
+    ]);
+    expectContainsNone(itemsClause, [QUERY_BINDING]);
+  });
+
+  it("leaves an omitted year bound open and negates through the predicate", () => {
+    const itemsClause = compiledItemsClause({
+      target: "chronology",
+      to: 500,
+      isNegated: true,
+    });
+
+    expect(itemsClause).toContain(
+      `[not(local:eventsOverlapYears(events/event, (), 500) or periods/period/@uuid = $chronologyPeriodUuids1)]`,
+    );
+  });
+
+  it("matches a period directly or through its narrower periods", () => {
+    const { queryExpression } = compiledQueryPlan({
+      queries: { target: "chronology", periodUuid: PERIOD_UUID },
+    });
+    const itemsClause = compiledItemsClause({
+      target: "chronology",
+      periodUuid: PERIOD_UUID,
+      isIncludingNarrowerPeriods: true,
+    });
+
+    expect(queryExpression).toBe(
+      `cts:element-query(xs:QName("periods"), cts:element-attribute-value-query(xs:QName("period"), xs:QName("uuid"), "${PERIOD_UUID}"))`,
+    );
+    expectContainsAll(itemsClause, [
+      `let $chronologyPeriodUuids1 := distinct-values(("${PERIOD_UUID}", cts:search(/ochre/period, `,
+      `//period[@uuid = "${PERIOD_UUID}"]//period/@uuid/string()))`,
+      'cts:element-attribute-value-query(xs:QName("period"), xs:QName("uuid"), $chronologyPeriodUuids1)',
+    ]);
+  });
+
+  it("composes with other leaves and reuses repeated bindings", () => {
+    const rangeQuery = { target: "chronology", from: 100, to: 200 } as const;
+    const itemsClause = compiledItemsClause({
+      or: [
+        rangeQuery,
+        {
+          target: "title",
+          value: "tell",
+          matchMode: "includes",
+          isCaseSensitive: false,
+          language: "eng",
+        },
+        {
+          and: [rangeQuery, { target: "chronology", periodUuid: PERIOD_UUID }],
+        },
+      ],
+    });
+
+    expect(countOccurrences(itemsClause, "let $chronologyPeriodUuids")).toBe(1);
+    expectContainsAll(itemsClause, [
+      "cts:search(doc()/ochre/set[@uuid = $setScopeUuids]/items/*, $query1) | ",
+      "/items/*[local:eventsOverlapYears(events/event, 100, 200) or periods/period/@uuid = $chronologyPeriodUuids1], $query2)",
+    ]);
+  });
+
+  it("searches the dated periods once for every year range", () => {
+    const itemsClause = compiledItemsClause({
+      and: [
+        { target: "chronology", from: 100, to: 200 },
+        { target: "chronology", from: 300 },
+      ],
+    });
+
+    expect(countOccurrences(itemsClause, "cts:search(/ochre/period")).toBe(1);
+    expectContainsAll(itemsClause, [
+      "let $chronologyPeriodUuids1 := $chronologyDatedPeriods[local:eventsOverlapYears(events/event, 100, 200)]",
+      "let $chronologyPeriodUuids2 := $chronologyDatedPeriods[local:eventsOverlapYears(events/event, 300, ())]",
+    ]);
+    expect(itemsClause.indexOf("let $chronologyDatedPeriods")).toBeLessThan(
+      itemsClause.indexOf("let $chronologyPeriodUuids1"),
+    );
+  });
+
+  it("rejects empty and inverted year ranges", async () => {
+    const invalidQueries = [
+      { target: "chronology" },
+      { target: "chronology", from: 200, to: 100 },
+      { target: "chronology", from: 1.5 },
+      { target: "chronology", periodUuid: PERIOD_UUID, from: 100 },
+    ];
+
+    for (const query of invalidQueries) {
+      const result = await fetchSetItems(
+        {
+          setScopeUuids: [SET_UUID],
+          queries: query as unknown as Query,
+          page: 1,
+        },
+        undefined,
+        {
+          fetch: async () => {
+            throw new Error("Should not fetch");
+          },
+        },
+      );
+
+      expect(result.ochreError?.kind).toBe("parameter");
+    }
+  });
+});
+
+describe("link target queries", () => {
+  const PERSON_UUID = "cccccccc-cccc-4ccc-8ccc-cccccccccccc";
+
+  it("matches items that link to an item of a given category", () => {
+    const { queryExpression } = compiledQueryPlan({
+      queries: { target: "link", uuid: PERSON_UUID, category: "person" },
+    });
+
+    expect(queryExpression).toBe(
+      `cts:element-query(xs:QName("links"), cts:element-attribute-value-query(xs:QName("person"), xs:QName("uuid"), "${PERSON_UUID}"))`,
+    );
+  });
+
+  it("searches reverse links and both spellings of property categories", () => {
+    const { queryExpression } = compiledQueryPlan({
+      queries: {
+        target: "link",
+        uuid: PERSON_UUID,
+        category: "propertyValue",
+        direction: "reverseLinks",
+      },
+    });
+
+    expect(queryExpression).toBe(
+      `cts:element-query(xs:QName("reverseLinks"), cts:element-attribute-value-query((xs:QName("propertyValue"), xs:QName("value")), xs:QName("uuid"), "${PERSON_UUID}"))`,
+    );
+  });
+
+  it("matches any link category when none is given and composes with negation", () => {
+    const { queryExpression } = compiledQueryPlan({
+      queries: {
+        or: [
+          { target: "link", uuid: PERSON_UUID, isNegated: true },
+          {
+            target: "title",
+            value: "tell",
+            matchMode: "includes",
+            isCaseSensitive: false,
+            language: "eng",
+          },
+        ],
+      },
+    });
+
+    expectContainsAll(queryExpression ?? "", [
+      "cts:or-query((",
+      'cts:not-query(cts:element-query(xs:QName("links"), cts:element-attribute-value-query((xs:QName("tree"), ',
+      'xs:QName("dictionaryUnit")), xs:QName("uuid")',
+    ]);
+  });
+
+  it("rejects unknown link categories and directions", async () => {
+    const invalidQueries = [
+      { target: "link", uuid: PERSON_UUID, category: "heading" },
+      { target: "link", uuid: PERSON_UUID, direction: "both" },
+      { target: "link", uuid: "not-a-uuid" },
+    ];
+
+    for (const query of invalidQueries) {
+      const result = await fetchSetItems(
+        {
+          setScopeUuids: [SET_UUID],
+          queries: query as unknown as Query,
+          page: 1,
+        },
+        undefined,
+        {
+          fetch: async () => {
+            throw new Error("Should not fetch");
+          },
+        },
+      );
+
+      expect(result.ochreError?.kind).toBe("parameter");
+    }
+  });
+});
+
 describe("query groups", () => {
   it("compiles AND groups", () => {
     const { queryExpression } = compiledQueryPlan({
@@ -983,7 +1695,7 @@ describe("fetchSetItems query assembly", () => {
 
     expectContainsAll(postedBody, [
       'string-join($item/identification/label/content[@xml:lang="eng"]/string, "")',
-      'stable order by ($sortKey = "") ascending, lower-case($sortKey) descending, $position ascending',
+      'stable order by ($sortKey = "") ascending, lower-case($sortKey) descending, string($item/@uuid) ascending',
       "let $pagedItems := subsequence($orderedItems, 21, 20)",
     ]);
   });
@@ -1005,9 +1717,82 @@ describe("fetchSetItems query assembly", () => {
     expectContainsAll(postedBody, [
       `$item//properties//property[label/@uuid="${MEDIA_TYPE_UUID}"]/value[not(@i)]`,
       "where $candidate castable as xs:decimal",
-      "stable order by empty($sortKey) ascending, $sortKey ascending, $position ascending",
+      "stable order by empty($sortKey) ascending, $sortKey ascending, string($item/@uuid) ascending",
+    ]);
+  });
+
+  it("compiles an array of sort keys into a multi-clause order by", async () => {
+    const postedBody = await captureSetItemsQuery({
+      setScopeUuids: [SET_UUID],
+      queries: null,
+      sort: [
+        {
+          target: "propertyValue",
+          propertyVariableUuid: MEDIA_TYPE_UUID,
+          dataType: "string",
+        },
+        {
+          target: "propertyValue",
+          propertyVariableUuid: COLLECTION_PROPERTY_UUID,
+          dataType: "integer",
+          direction: "desc",
+        },
+        { target: "title", language: "tur" },
+      ],
+      page: 1,
+    });
+
+    expectContainsAll(postedBody, [
+      `let $sortKey := string((for $v in $item//properties//property[label/@uuid="${MEDIA_TYPE_UUID}"]`,
+      `let $sortKey2 := (for $v in $item//properties//property[label/@uuid="${COLLECTION_PROPERTY_UUID}"]`,
+      'let $sortKey3 := string-join($item/identification/label/content[@xml:lang="tur"]/string, "")',
+      'stable order by ($sortKey = "") ascending, lower-case($sortKey) ascending, empty($sortKey2) ascending, $sortKey2 descending, ($sortKey3 = "") ascending, lower-case($sortKey3) ascending, string($item/@uuid) ascending',
+    ]);
+  });
+
+  it("compiles attribute sort keys", async () => {
+    const postedBody = await captureSetItemsQuery({
+      setScopeUuids: [SET_UUID],
+      queries: null,
+      sort: [
+        { target: "publicationDateTime", direction: "desc" },
+        { target: "date" },
+        { target: "category" },
+        { target: "period", language: "eng" },
+        { target: "bibliography" },
+        { target: "latitude", direction: "desc" },
+        { target: "longitude" },
+      ],
+      page: 1,
+    });
+
+    expectContainsAll(postedBody, [
+      "let $sortKey := (for $v in $item/@publicationDateTime",
+      "else if ($candidate castable as xs:date) then xs:dateTime(xs:date($candidate))",
+      "let $sortKey2 := (for $v in ($item/date, $item/@date)[1]",
+      "let $sortKey3 := local-name($item)",
+      'let $sortKey4 := string-join($item/periods/period[1]/identification/label/content[@xml:lang="eng"]/string, "")',
+      'let $sortKey5 := string-join($item/bibliographies/bibliography[1]/identification/label/content[@xml:lang="eng"]/string, "")',
+      'let $sortKey6 := (for $v in $item/coordinates/coord[@type = "point"]/latitude',
+      'let $sortKey7 := (for $v in $item/coordinates/coord[@type = "point"]/longitude',
+      'stable order by empty($sortKey) ascending, $sortKey descending, empty($sortKey2) ascending, $sortKey2 ascending, ($sortKey3 = "") ascending, lower-case($sortKey3) ascending',
+      "empty($sortKey6) ascending, $sortKey6 descending",
     ]);
   });
+
+  it("rejects an empty array of sort keys", async () => {
+    const result = await fetchSetItems(
+      { setScopeUuids: [SET_UUID], sort: [], page: 1 },
+      undefined,
+      {
+        fetch: async () => {
+          throw new Error("Should not fetch");
+        },
+      },
+    );
+
+    expect(result.ochreError?.kind).toBe("parameter");
+  });
 });
 
 describe("fetchSetPropertyValues query assembly", () => {
@@ -1105,6 +1890,130 @@ describe("fetchSetPropertyValues query assembly", () => {
     expect(postedBody).toContain("for $v in $p/value[not(@i)]");
   });
 
+  it("counts each disjunctive facet without its own selections", async () => {
+    const mediaTypeQuery = (value: string) =>
+      ({
+        target: "property",
+        propertyVariable: MEDIA_TYPE_UUID,
+        dataType: "IDREF",
+        value,
+        matchMode: "exact",
+        isCaseSensitive: true,
+        language: "eng",
+      }) as const;
+    const postedBody = await captureSetPropertyValuesQuery({
+      setScopeUuids: [SET_UUID],
+      queries: {
+        and: [
+          {
+            or: [
+              mediaTypeQuery(LOCUS_6082_UUID),
+              mediaTypeQuery(COLLECTION_UUID),
+            ],
+          },
+          {
+            target: "property",
+            propertyVariable: LOCI_VERTICAL_RELATION_UUID,
+            dataType: "IDREF",
+            value: LOCUS_6082_UUID,
+            matchMode: "exact",
+            isCaseSensitive: true,
+            language: "eng",
+          },
+        ],
+      },
+      isDisjunctive: true,
+    });
+
+    expectContainsAll(postedBody, [
+      "let $items := cts:search(",
+      "let $facet-items1 := (",
+      "let $facet-items2 := (",
+      `for $item in $facet-items1
+  let $global-seen := local:item-seen-map($global-seen-maps, string($item/@uuid))`,
+      `$item/properties/property[label/@uuid = "${LOCI_VERTICAL_RELATION_UUID}"]`,
+      `$item/properties/property[label/@uuid = "${MEDIA_TYPE_UUID}"]`,
+    ]);
+    expect(
+      countOccurrences(postedBody, "declare function local:queryHelper"),
+    ).toBe(3);
+  });
+
+  it("buckets histograms over the items without their own selections", async () => {
+    const postedBody = await captureSetPropertyValuesQuery({
+      setScopeUuids: [SET_UUID],
+      queries: {
+        target: "property",
+        propertyVariable: MEDIA_TYPE_UUID,
+        dataType: "date",
+        from: "2018-01-01",
+        to: "2018-12-31",
+        matchMode: "exact",
+        isCaseSensitive: false,
+        language: "eng",
+      },
+      histograms: [
+        {
+          propertyVariable: MEDIA_TYPE_UUID,
+          dataType: "date",
+          binWidth: 86_400_000,
+        },
+      ],
+      isDisjunctive: true,
+    });
+
+    expectContainsAll(postedBody, [
+      "declare function local:histogram(",
+      `let $facet-items1 := ${BASE_ITEMS_EXPRESSION}`,
+      "for $item in $facet-items1",
+      `local:histogram($histogram-numbers1, "${MEDIA_TYPE_UUID}", "date", xs:double("86400000"), 10)`,
+      "return ($histogram1)",
+    ]);
+    expect(postedBody).not.toContain("$property-values");
+  });
+
+  it("buckets histograms without their own selections of any relation", async () => {
+    const postedBody = await captureSetPropertyValuesQuery({
+      setScopeUuids: [SET_UUID],
+      queries: {
+        target: "property",
+        propertyVariable: MEDIA_TYPE_UUID,
+        propertyRelation: "related",
+        dataType: "decimal",
+        from: 10,
+        to: 20,
+        matchMode: "exact",
+        isCaseSensitive: false,
+        language: "eng",
+      },
+      histograms: [{ propertyVariable: MEDIA_TYPE_UUID, dataType: "decimal" }],
+      isDisjunctive: true,
+    });
+
+    expectContainsAll(postedBody, [
+      `let $facet-items1 := ${BASE_ITEMS_EXPRESSION}\n`,
+      "for $item in $facet-items1",
+    ]);
+  });
+
+  it("shares the full item set between facets without selections", async () => {
+    const postedBody = await captureSetPropertyValuesQuery({
+      setScopeUuids: [SET_UUID],
+      queries: {
+        target: "property",
+        propertyVariable: MEDIA_TYPE_UUID,
+        dataType: "string",
+        matchMode: "exact",
+        isCaseSensitive: true,
+        language: "eng",
+      },
+      isDisjunctive: true,
+    });
+
+    expect(postedBody).toContain("for $item in $items\n");
+    expectContainsNone(postedBody, ["$facet-items", "local:item-seen-map"]);
+  });
+
   it("compiles requested bibliography and period attribute facets", async () => {
     const postedBody = await captureSetPropertyValuesQuery({
       setScopeUuids: [SET_UUID],
@@ -1119,4 +2028,31 @@ describe("fetchSetPropertyValues query assembly", () => {
       "$period-values",
     ]);
   });
+
+  it("compiles requested item attribute and presence facets", async () => {
+    const postedBody = await captureSetPropertyValuesQuery({
+      setScopeUuids: [SET_UUID],
+      queries: null,
+      attributes: {
+        categories: true,
+        creators: true,
+        fileFormats: true,
+        hasCoordinates: true,
+        hasImage: true,
+        hasOcr: true,
+      },
+    });
+
+    expectContainsAll(postedBody, [
+      "for $label in local-name($item)",
+      "($item/creators/creator | $item/authors/person)",
+      "for $label in $item/fileFormat/string()",
+      "exists($item/coordinates/coord)",
+      "exists($item/image)",
+      "cts:document-query($items/self::resource/@uuid/string())",
+      'attributeType="hasOcr"',
+      "$has-ocr-values",
+    ]);
+    expectContainsNone(postedBody, ["$bibliography-values", "$period-values"]);
+  });
 });
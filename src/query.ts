@@ -1,9 +1,14 @@
 import type {
+  ItemLinkCategory,
   PropertyRelation,
   Query,
+  QueryBinding,
   QueryGroup,
   QueryLeaf,
+  QueryPlan,
+  QuerySearchPlan,
 } from "#/types/index.js";
+import { normalizeQuery } from "#/query-normalization.js";
 import { stringLiteral } from "#/utilities.js";
 
 const CTS_INCLUDES_STOP_WORDS = new Set<string>([
@@ -36,32 +41,37 @@ type TextTargetQuery = Extract<
 type ContentTextTarget = Exclude<TextTargetQuery["target"], "notes">;
 type PropertyQuery = Extract<QueryLeaf, { target: "property" }>;
 type AllPropertyQuery = Extract<PropertyQuery, { dataType: "all" }>;
+type NumericRangePropertyQuery = Extract<
+  PropertyQuery,
+  { dataType: "integer" | "decimal" | "time"; from?: number; to?: number }
+>;
 type OcrQuery = Extract<QueryLeaf, { target: "ocr" }>;
-type CtsQueryLeaf = Exclude<QueryLeaf, OcrQuery>;
-
-type OcrBinding = { name: string; expression: string };
-
-/**
- * A search over the Set items, optionally narrowed by item path predicates.
- * Predicates carry the OCR joins, which only ever AND, so anything a predicate
- * cannot express becomes a `union`/`intersect` of plans instead.
- */
-type ItemsSearchPlan = {
-  kind: "search";
-  itemPredicates: Array<string>;
-  queryExpressions: Array<string>;
-};
-
-type ItemsPlan =
-  | ItemsSearchPlan
-  | { kind: "union" | "intersect"; children: Array<ItemsPlan> };
+type CoordinatesQuery = Extract<QueryLeaf, { target: "coordinates" }>;
+type ChronologyQuery = Extract<QueryLeaf, { target: "chronology" }>;
+type LinkQuery = Extract<QueryLeaf, { target: "link" }>;
+type TextMatchModeQuery = Extract<
+  QueryLeaf,
+  { matchMode: "startsWith" | "anyOf" | "allOf" | "near" }
+>;
+type ChronologyRangeQuery = Exclude<ChronologyQuery, { periodUuid: string }>;
+type CtsQueryLeaf = Exclude<
+  QueryLeaf,
+  OcrQuery | CoordinatesQuery | ChronologyQuery | LinkQuery | TextMatchModeQuery
+>;
+type FuzzyExactQuery = Extract<
+  CtsQueryLeaf,
+  { target: "string" | ContentTextTarget | "notes" }
+> & { matchMode: "exact"; isFuzzy: true };
+type TextMatchQuery = TextMatchModeQuery | FuzzyExactQuery;
 
 type QueryCompilerContext = {
   nextHelperSerial: number;
   helperNamesByKey: Map<string, string>;
   helperDeclarations: Array<string>;
   ocrBindingNamesByKey: Map<string, string>;
-  ocrBindings: Array<OcrBinding>;
+  chronologyBindingNamesByKey: Map<string, string>;
+  bindings: Array<QueryBinding>;
+  ocrSnippetQueryExpressions: Array<string>;
 };
 
 type QueryHelperRegistration = { name: string; callExpression: string };
@@ -71,6 +81,27 @@ type ParameterizedQueryHelperRegistration = {
   call: (valueExpression: string) => string;
 };
 
+const NUMERIC_RANGE_DATA_TYPES = new Set<PropertyQuery["dataType"]>([
+  "integer",
+  "decimal",
+  "time",
+]);
+
+const LINK_CATEGORY_ELEMENT_NAMES: Record<ItemLinkCategory, Array<string>> = {
+  tree: ["tree"],
+  bibliography: ["bibliography"],
+  concept: ["concept"],
+  spatialUnit: ["spatialUnit"],
+  period: ["period"],
+  person: ["person"],
+  propertyVariable: ["propertyVariable", "variable"],
+  propertyValue: ["propertyValue", "value"],
+  resource: ["resource"],
+  text: ["text"],
+  set: ["set"],
+  dictionaryUnit: ["dictionaryUnit"],
+};
+
 const CONTENT_TARGET_CONTENT_ELEMENT_PATHS: Record<
   ContentTextTarget,
   Array<string>
@@ -239,15 +270,19 @@ function buildWordQueryOptionsExpression(parameters: {
 
 function buildRichTextPhraseOptionsExpression(parameters: {
   isCaseSensitive: boolean;
+  isDiacriticInsensitive?: boolean;
+  isWildcarded?: boolean;
 }): string {
-  const { isCaseSensitive } = parameters;
+  const { isCaseSensitive, isDiacriticInsensitive, isWildcarded } = parameters;
   const options: Array<string> = [
     isCaseSensitive ? "case-sensitive" : "case-insensitive",
-    "diacritic-sensitive",
+    isDiacriticInsensitive === true
+      ? "diacritic-insensitive"
+      : "diacritic-sensitive",
     "punctuation-insensitive",
     "whitespace-insensitive",
     "unstemmed",
-    "unwildcarded",
+    isWildcarded === true ? "wildcarded" : "unwildcarded",
   ];
 
   return `(${options.map((option) => stringLiteral(option)).join(", ")})`;
@@ -275,21 +310,26 @@ function buildCtsWordQueryExpression(parameters: {
 function buildRichTextPhraseQueryExpression(parameters: {
   value: string;
   isCaseSensitive: boolean;
+  isDiacriticInsensitive?: boolean;
+  isWildcarded?: boolean;
 }): string {
-  const { value, isCaseSensitive } = parameters;
+  const { value, isCaseSensitive, isDiacriticInsensitive, isWildcarded } =
+    parameters;
 
-  return `cts:word-query(${stringLiteral(value)}, ${buildRichTextPhraseOptionsExpression({ isCaseSensitive })})`;
+  return `cts:word-query(${stringLiteral(value)}, ${buildRichTextPhraseOptionsExpression({ isCaseSensitive, isDiacriticInsensitive, isWildcarded })})`;
 }
 
 function buildRichTextExactQueryExpression(parameters: {
   value: string;
   isCaseSensitive: boolean;
+  isDiacriticInsensitive?: boolean;
   language: string;
 }): string {
-  const { value, isCaseSensitive } = parameters;
+  const { value, isCaseSensitive, isDiacriticInsensitive } = parameters;
   const phraseQuery = buildRichTextPhraseQueryExpression({
     value,
     isCaseSensitive,
+    isDiacriticInsensitive,
   });
   const terms = tokenizeExactTextSearchValue({ value, isCaseSensitive });
 
@@ -299,7 +339,11 @@ function buildRichTextExactQueryExpression(parameters: {
 
   const tokenAndQuery = buildAndCtsQueryExpressionInternal(
     terms.map((term) =>
-      buildRichTextPhraseQueryExpression({ value: term, isCaseSensitive }),
+      buildRichTextPhraseQueryExpression({
+        value: term,
+        isCaseSensitive,
+        isDiacriticInsensitive,
+      }),
     ),
   );
 
@@ -865,6 +909,33 @@ function buildPropertyIdReferenceQueryExpression(parameters: {
   });
 }
 
+function buildRawValueRangeQueryExpression(parameters: {
+  operator: ">=" | ">" | "<=" | "<";
+  valueExpression: string;
+}): string {
+  const { operator, valueExpression } = parameters;
+
+  return `cts:element-attribute-range-query(xs:QName("value"), xs:QName("rawValue"), "${operator}", ${valueExpression})`;
+}
+
+function buildPropertyRangeQueryExpression(parameters: {
+  propertyVariable: string;
+  propertyRelation?: PropertyRelation;
+  rangeQueryExpressions: Array<string>;
+}): string {
+  const { propertyVariable, propertyRelation, rangeQueryExpressions } =
+    parameters;
+
+  return buildPropertyQueryExpression({
+    propertyVariable,
+    propertyRelation,
+    queryExpression: buildNestedElementQuery(
+      ["value"],
+      buildAndCtsQueryExpressionInternal(rangeQueryExpressions),
+    ),
+  });
+}
+
 function buildPropertyDateRangeQueryExpression(
   query: Extract<
     PropertyQuery,
@@ -875,26 +946,196 @@ function buildPropertyDateRangeQueryExpression(
 
   if (query.from != null) {
     rangeQueryExpressions.push(
-      `cts:element-attribute-range-query(xs:QName("value"), xs:QName("rawValue"), ">=", ${stringLiteral(query.from)})`,
+      buildRawValueRangeQueryExpression({
+        operator: ">=",
+        valueExpression: stringLiteral(query.from),
+      }),
     );
   }
 
   if (query.to != null) {
     rangeQueryExpressions.push(
-      `cts:element-attribute-range-query(xs:QName("value"), xs:QName("rawValue"), "<=", ${stringLiteral(query.to)})`,
+      buildRawValueRangeQueryExpression({
+        operator: "<=",
+        valueExpression: stringLiteral(query.to),
+      }),
     );
   }
 
-  return buildPropertyQueryExpression({
+  return buildPropertyRangeQueryExpression({
     propertyVariable: query.propertyVariable,
     propertyRelation: query.propertyRelation,
-    queryExpression: buildNestedElementQuery(
-      ["value"],
-      buildAndCtsQueryExpressionInternal(rangeQueryExpressions),
-    ),
+    rangeQueryExpressions,
   });
 }
 
+/**
+ * Write a finite number as an `xs:decimal` literal, which has no exponent
+ * notation, so `1e-7` becomes `0.0000001`
+ */
+function buildDecimalLiteral(value: number): string {
+  const text = String(value);
+  const match = /^(-?)(\d+)(?:\.(\d+))?e([+-]\d+)$/.exec(text);
+  if (match == null) {
+    return stringLiteral(text);
+  }
+
+  const [, sign = "", integerDigits = "", fractionDigits = "", exponent = ""] =
+    match;
+  const digits = `${integerDigits}${fractionDigits}`;
+  const pointIndex = integerDigits.length + Number(exponent);
+  const decimalText =
+    pointIndex <= 0
+      ? `0.${"0".repeat(-pointIndex)}${digits}`
+      : pointIndex >= digits.length
+        ? `${digits}${"0".repeat(pointIndex - digits.length)}`
+        : `${digits.slice(0, pointIndex)}.${digits.slice(pointIndex)}`;
+
+  return stringLiteral(`${sign}${decimalText}`);
+}
+
+/**
+ * Plan a numeric range on a property. The `rawValue` attribute index is not
+ * typed as a number, so the bounds are compared as decimals in an item path
+ * predicate, reading the value the same way the numeric sort does.
+ */
+function buildNumericRangeItemsPlan(
+  query: NumericRangePropertyQuery,
+): QueryPlan {
+  const propertyPredicates: Array<string> = [
+    `[label/@uuid = ${stringLiteral(query.propertyVariable)}]`,
+  ];
+  const valuePredicates: Array<string> = ["[@rawValue castable as xs:decimal]"];
+
+  if (query.propertyRelation != null) {
+    propertyPredicates.push(
+      `[label/@relation = ${stringLiteral(query.propertyRelation)}]`,
+    );
+  }
+
+  if (query.from != null) {
+    valuePredicates.push(
+      `[xs:decimal(@rawValue) ${query.isFromExclusive === true ? "gt" : "ge"} xs:decimal(${buildDecimalLiteral(query.from)})]`,
+    );
+  }
+
+  if (query.to != null) {
+    valuePredicates.push(
+      `[xs:decimal(@rawValue) ${query.isToExclusive === true ? "lt" : "le"} xs:decimal(${buildDecimalLiteral(query.to)})]`,
+    );
+  }
+
+  const condition = `properties//property${propertyPredicates.join("")}/value${valuePredicates.join("")}`;
+
+  return {
+    kind: "search",
+    itemPredicates: [
+      query.isNegated === true ? `[not(${condition})]` : `[${condition}]`,
+    ],
+    queryExpressions: [],
+  };
+}
+
+function isNumericRangePropertyQuery(
+  query: QueryLeaf,
+): query is NumericRangePropertyQuery {
+  return (
+    query.target === "property" &&
+    NUMERIC_RANGE_DATA_TYPES.has(query.dataType) &&
+    (("from" in query && query.from != null) ||
+      ("to" in query && query.to != null))
+  );
+}
+
+const KILOMETERS_PER_MILE = 1.609344;
+
+function buildCtsPointExpression(parameters: {
+  latitude: number;
+  longitude: number;
+}): string {
+  return `cts:point(${parameters.latitude}, ${parameters.longitude})`;
+}
+
+function buildCoordinatesRegionExpression(
+  region: CoordinatesQuery["region"],
+): string {
+  switch (region.type) {
+    case "boundingBox": {
+      return `cts:box(${region.south}, ${region.west}, ${region.north}, ${region.east})`;
+    }
+    case "pointRadius": {
+      return `cts:circle(${region.radiusKm / KILOMETERS_PER_MILE}, ${buildCtsPointExpression(region)})`;
+    }
+    case "polygon": {
+      return `cts:polygon((${region.vertices
+        .map((vertex) => buildCtsPointExpression(vertex))
+        .join(", ")}))`;
+    }
+  }
+}
+
+function buildCoordinatePairQueryExpression(parameters: {
+  elementName: string;
+  regionExpression: string;
+}): string {
+  return `cts:element-pair-geospatial-query(xs:QName("${parameters.elementName}"), xs:QName("latitude"), xs:QName("longitude"), ${parameters.regionExpression})`;
+}
+
+/**
+ * Builds the CTS query for a `coordinates` leaf. A point `<coord>` matches when
+ * its latitude and longitude lie in the region; a plane `<coord>` matches when
+ * both its `<minimum>` and `<maximum>` corners do. The plane corners are
+ * scoped to the same `<coord>` so corners of different planes cannot pair up.
+ * `cts:circle` takes its radius in miles.
+ */
+function buildCoordinatesQueryExpression(query: CoordinatesQuery): string {
+  const regionExpression = buildCoordinatesRegionExpression(query.region);
+
+  return buildNestedElementQuery(
+    ["coordinates"],
+    buildOrCtsQueryExpressionInternal([
+      buildCoordinatePairQueryExpression({
+        elementName: "coord",
+        regionExpression,
+      }),
+      buildNestedElementQuery(
+        ["coord"],
+        buildAndCtsQueryExpressionInternal([
+          buildCoordinatePairQueryExpression({
+            elementName: "minimum",
+            regionExpression,
+          }),
+          buildCoordinatePairQueryExpression({
+            elementName: "maximum",
+            regionExpression,
+          }),
+        ]),
+      ),
+    ]),
+  );
+}
+
+/**
+ * Builds the CTS query for a `link` leaf. Links are listed under an element
+ * named for the linked item's category, with both spellings OCHRE uses for
+ * property variables and values.
+ */
+function buildLinkQueryExpression(query: LinkQuery): string {
+  const elementNames =
+    query.category == null
+      ? Object.values(LINK_CATEGORY_ELEMENT_NAMES).flat()
+      : LINK_CATEGORY_ELEMENT_NAMES[query.category];
+  const elementNamesExpression =
+    elementNames.length === 1
+      ? `xs:QName("${elementNames[0]}")`
+      : `(${elementNames.map((elementName) => `xs:QName("${elementName}")`).join(", ")})`;
+
+  return buildNestedElementQuery(
+    [query.direction ?? "links"],
+    `cts:element-attribute-value-query(${elementNamesExpression}, xs:QName("uuid"), ${stringLiteral(query.uuid)})`,
+  );
+}
+
 function buildItemStringQueryExpression(parameters: {
   value: string;
   matchMode: QueryMatchMode;
@@ -920,6 +1161,155 @@ function buildItemStringQueryExpression(parameters: {
   ]);
 }
 
+function isTextMatchQuery(query: QueryLeaf): query is TextMatchQuery {
+  if (!("matchMode" in query)) {
+    return false;
+  }
+
+  switch (query.matchMode) {
+    case "startsWith":
+    case "anyOf":
+    case "allOf":
+    case "near": {
+      return true;
+    }
+    case "exact": {
+      return "isFuzzy" in query && query.isFuzzy === true;
+    }
+    default: {
+      return false;
+    }
+  }
+}
+
+function buildTextTermQueryExpression(parameters: {
+  value: string;
+  isCaseSensitive: boolean;
+  isFuzzy: boolean;
+  isPrefix?: boolean;
+  language: string;
+}): string {
+  const { isCaseSensitive, isFuzzy, isPrefix, language } = parameters;
+  const value = isPrefix === true ? `${parameters.value}*` : parameters.value;
+
+  if (isFuzzy) {
+    return buildCtsWordQueryExpression({
+      value,
+      matchMode: "includes",
+      isCaseSensitive,
+      queryFamily: "text",
+      language,
+    });
+  }
+
+  return buildRichTextPhraseQueryExpression({
+    value,
+    isCaseSensitive,
+    isWildcarded: isPrefix,
+  });
+}
+
+function buildTextMatchInnerQueryExpression(query: TextMatchQuery): string {
+  const { isCaseSensitive, language } = query;
+  const isFuzzy = query.isFuzzy === true;
+
+  switch (query.matchMode) {
+    case "exact": {
+      return buildRichTextExactQueryExpression({
+        value: query.value,
+        isCaseSensitive,
+        isDiacriticInsensitive: true,
+        language,
+      });
+    }
+    case "startsWith": {
+      return buildTextTermQueryExpression({
+        value: query.value,
+        isCaseSensitive,
+        isFuzzy,
+        isPrefix: true,
+        language,
+      });
+    }
+    case "anyOf":
+    case "allOf": {
+      const termQueryExpressions = query.terms.map((term) =>
+        buildTextTermQueryExpression({
+          value: term,
+          isCaseSensitive,
+          isFuzzy,
+          language,
+        }),
+      );
+
+      return query.matchMode === "anyOf"
+        ? buildOrCtsQueryExpressionInternal(termQueryExpressions)
+        : buildAndCtsQueryExpressionInternal(termQueryExpressions);
+    }
+    case "near": {
+      const termQueryExpressions = query.terms.map((term) =>
+        buildTextTermQueryExpression({
+          value: term,
+          isCaseSensitive,
+          isFuzzy,
+          language,
+        }),
+      );
+
+      return `cts:near-query((${termQueryExpressions.join(", ")}), ${query.distance}, ${stringLiteral(query.isOrdered === true ? "ordered" : "unordered")})`;
+    }
+  }
+}
+
+/**
+ * Builds the CTS query for the text match modes, and for `exact` leaves that
+ * ignore diacritics. The terms are matched inside one language's content, so
+ * a `near` query never pairs words across languages or fields. `string`
+ * leaves search property values as well as titles, skipping `rawValue`, which
+ * only holds typed values.
+ */
+function buildTextMatchQueryExpression(query: TextMatchQuery): string {
+  const contentQueryExpression = buildAndCtsQueryExpressionInternal([
+    buildContentLanguageQuery(query.language),
+    buildTextMatchInnerQueryExpression(query),
+  ]);
+
+  switch (query.target) {
+    case "notes": {
+      return buildNestedElementQuery(
+        ["notes", "note", "content"],
+        contentQueryExpression,
+      );
+    }
+    case "string": {
+      return buildOrCtsQueryExpressionInternal([
+        buildNestedElementQuery(
+          CONTENT_TARGET_CONTENT_ELEMENT_PATHS.title,
+          contentQueryExpression,
+        ),
+        buildPropertyTextMatchQueryExpression({
+          contentQueryExpression: buildNestedElementQuery(
+            ["content"],
+            contentQueryExpression,
+          ),
+          bareValueQueryExpression: buildAndCtsQueryExpressionInternal([
+            buildNotCtsQueryExpression(
+              buildNestedElementQuery(["content"], "cts:true-query()"),
+            ),
+            buildTextMatchInnerQueryExpression(query),
+          ]),
+        }),
+      ]);
+    }
+    default: {
+      return buildNestedElementQuery(
+        CONTENT_TARGET_CONTENT_ELEMENT_PATHS[query.target],
+        contentQueryExpression,
+      );
+    }
+  }
+}
+
 // OCHRE serves OCR word elements under more than one element name, so every
 // query over the layer carries all of them. The namespace is an identifier
 // matched verbatim, not an address, so it stays on http.
@@ -988,38 +1378,34 @@ function buildOcrValueQueryExpression(parameters: {
  * documents this narrowing returns.
  */
 function buildOcrQueryExpression(query: OcrQuery): string {
-  const { value, matchMode, isCaseSensitive } = query;
-
-  if (matchMode === "exact") {
-    const terms = tokenizeOcrExactValue(value);
-
-    if (terms.length === 0) {
-      return "cts:false-query()";
-    }
-
-    return buildNestedElementQuery(
-      ["ocr"],
-      buildAndCtsQueryExpressionInternal(
-        Array.from(terms, (term) =>
-          buildOcrValueQueryExpression({ value: term, isCaseSensitive }),
-        ),
-      ),
-    );
-  }
-
-  const terms = tokenizeIncludesSearchValue({ value, isCaseSensitive });
+  const termQueryExpressions = buildOcrTermQueryExpressions(query);
 
-  if (terms.length === 0) {
+  if (termQueryExpressions.length === 0) {
     return "cts:false-query()";
   }
 
   return buildNestedElementQuery(
     ["ocr"],
-    buildAndCtsQueryExpressionInternal(
-      Array.from(terms, (term) =>
-        buildOcrWordQueryExpression({ value: term, isCaseSensitive }),
-      ),
-    ),
+    buildAndCtsQueryExpressionInternal(termQueryExpressions),
+  );
+}
+
+/**
+ * Compile the query matching a single OCR word node for each term of an OCR
+ * text search
+ */
+function buildOcrTermQueryExpressions(query: OcrQuery): Array<string> {
+  const { value, matchMode, isCaseSensitive } = query;
+
+  if (matchMode === "exact") {
+    return Array.from(tokenizeOcrExactValue(value), (term) =>
+      buildOcrValueQueryExpression({ value: term, isCaseSensitive }),
+    );
+  }
+
+  return Array.from(
+    tokenizeIncludesSearchValue({ value, isCaseSensitive }),
+    (term) => buildOcrWordQueryExpression({ value: term, isCaseSensitive }),
   );
 }
 
@@ -1075,7 +1461,7 @@ function registerOcrBinding(
     return existingName;
   }
 
-  const name = `$ocrItemUuids${context.ocrBindings.length + 1}`;
+  const name = `$ocrItemUuids${context.ocrBindingNamesByKey.size + 1}`;
   const queryExpression = buildOcrQueryExpression(query);
   const phraseTerms =
     query.matchMode === "exact" ? tokenizeOcrExactValue(query.value) : [];
@@ -1086,7 +1472,7 @@ function registerOcrBinding(
   const searchExpression = `cts:search(/ochre/resource, ${queryExpression})`;
   const phraseHelperName =
     phraseTerms.length > 1 ? registerOcrPhraseHelper(context) : null;
-  context.ocrBindings.push({
+  context.bindings.push({
     name,
     expression:
       queryExpression === "cts:false-query()"
@@ -1101,6 +1487,154 @@ function registerOcrBinding(
   return name;
 }
 
+/**
+ * Declare the year overlap test for Event dates. Years are read from the
+ * lexical form so BCE dates, which carry a leading minus sign, compare as
+ * negative years; an Event without an end date spans its start year.
+ */
+function registerChronologyOverlapHelper(
+  context: QueryCompilerContext,
+): string {
+  const helperName = "local:eventsOverlapYears";
+
+  if (context.helperNamesByKey.has(helperName)) {
+    return helperName;
+  }
+
+  context.helperNamesByKey.set(helperName, helperName);
+  context.helperDeclarations.push(
+    `declare function local:eventYear($value as item()?) as xs:integer? {
+  let $text := normalize-space(string($value))
+  return
+    if (matches($text, "^-?[0-9]{4,}"))
+    then xs:integer(replace($text, "^(-?[0-9]+).*$", "$1"))
+    else ()
+};
+
+declare function ${helperName}($events as element()*, $fromYear as xs:integer?, $toYear as xs:integer?) as xs:boolean {
+  some $event in $events
+  satisfies (
+    let $startYear := local:eventYear(($event/dateTime, $event/@dateTime)[1])
+    let $endYear := (local:eventYear(($event/endDateTime, $event/@endDateTime)[1]), $startYear)[1]
+    return
+      exists($startYear)
+      and (empty($toYear) or $startYear le $toYear)
+      and (empty($fromYear) or $endYear ge $fromYear)
+  )
+};`,
+  );
+
+  return helperName;
+}
+
+function buildOptionalYearLiteral(year: number | undefined): string {
+  return year == null ? "()" : String(year);
+}
+
+/**
+ * Bind the periods that carry Event dates once per query, so every year range
+ * filters the same period search instead of scanning all period documents.
+ */
+function registerChronologyDatedPeriodsBinding(
+  context: QueryCompilerContext,
+): string {
+  const name = "$chronologyDatedPeriods";
+
+  if (context.bindings.every((binding) => binding.name !== name)) {
+    context.bindings.push({
+      name,
+      expression: `cts:search(/ochre/period, ${buildNestedElementQuery(["events", "event"], "cts:true-query()")})/descendant-or-self::period[events/event]`,
+    });
+  }
+
+  return name;
+}
+
+/**
+ * Bind the UUIDs of the periods a chronology query resolves to, reusing the
+ * binding when the same periods are requested more than once. Periods live in
+ * their own documents, with narrower periods nested inside broader ones, so
+ * both a year range and a period hierarchy resolve against those documents
+ * rather than the period links the Set items carry.
+ */
+function registerChronologyPeriodBinding(
+  context: QueryCompilerContext,
+  query: ChronologyQuery,
+): string {
+  const key =
+    query.periodUuid == null
+      ? `years|${query.from ?? ""}|${query.to ?? ""}`
+      : `period|${query.periodUuid}`;
+  const existingName = context.chronologyBindingNamesByKey.get(key);
+
+  if (existingName != null) {
+    return existingName;
+  }
+
+  const name = `$chronologyPeriodUuids${context.chronologyBindingNamesByKey.size + 1}`;
+  context.chronologyBindingNamesByKey.set(key, name);
+
+  if (query.periodUuid == null) {
+    const datedPeriodsName = registerChronologyDatedPeriodsBinding(context);
+    const overlapHelperName = registerChronologyOverlapHelper(context);
+
+    context.bindings.push({
+      name,
+      expression: `${datedPeriodsName}[${overlapHelperName}(events/event, ${buildOptionalYearLiteral(query.from)}, ${buildOptionalYearLiteral(query.to)})]/@uuid/string()`,
+    });
+  } else {
+    const periodUuid = stringLiteral(query.periodUuid);
+
+    context.bindings.push({
+      name,
+      expression: `distinct-values((${periodUuid}, cts:search(/ochre/period, ${buildPlainElementAttributeValueQueryExpression({ elementName: "period", attributeName: "uuid", value: query.periodUuid })})//period[@uuid = ${periodUuid}]//period/@uuid/string()))`,
+    });
+  }
+
+  return name;
+}
+
+function buildLinkedPeriodsQueryExpression(uuidsExpression: string): string {
+  return `cts:element-query(xs:QName("periods"), cts:element-attribute-value-query(xs:QName("period"), xs:QName("uuid"), ${uuidsExpression}))`;
+}
+
+/**
+ * Plan a `chronology` leaf. A period match is a plain CTS query over the
+ * item's period links; a year range also has to read the item's own Event
+ * dates, which no CTS query can compare as years, so it becomes a predicate.
+ */
+function buildChronologyItemsPlan(
+  context: QueryCompilerContext,
+  query: ChronologyQuery,
+): QueryPlan {
+  if (query.periodUuid != null) {
+    const queryExpression = buildLinkedPeriodsQueryExpression(
+      query.isIncludingNarrowerPeriods === true
+        ? registerChronologyPeriodBinding(context, query)
+        : stringLiteral(query.periodUuid),
+    );
+
+    return buildCtsItemsPlan(
+      query.isNegated === true
+        ? buildNotCtsQueryExpression(queryExpression)
+        : queryExpression,
+    );
+  }
+
+  const rangeQuery: ChronologyRangeQuery = query;
+  const bindingName = registerChronologyPeriodBinding(context, rangeQuery);
+  const overlapHelperName = registerChronologyOverlapHelper(context);
+  const condition = `${overlapHelperName}(events/event, ${buildOptionalYearLiteral(rangeQuery.from)}, ${buildOptionalYearLiteral(rangeQuery.to)}) or periods/period/@uuid = ${bindingName}`;
+
+  return {
+    kind: "search",
+    itemPredicates: [
+      query.isNegated === true ? `[not(${condition})]` : `[${condition}]`,
+    ],
+    queryExpressions: [],
+  };
+}
+
 function getLeafSearchValue(query: CtsQueryLeaf): string | null {
   switch (query.target) {
     case "string":
@@ -1211,7 +1745,9 @@ function createQueryCompilerContext(): QueryCompilerContext {
     helperNamesByKey: new Map(),
     helperDeclarations: [],
     ocrBindingNamesByKey: new Map(),
-    ocrBindings: [],
+    chronologyBindingNamesByKey: new Map(),
+    bindings: [],
+    ocrSnippetQueryExpressions: [],
   };
 }
 
@@ -1533,7 +2069,14 @@ function getCompatibleIncludesGroupLeaves(
   const leafQueries: Array<CtsQueryLeaf> = [];
 
   for (const childQuery of query.or) {
-    if (!isQueryLeaf(childQuery) || childQuery.target === "ocr") {
+    if (
+      !isQueryLeaf(childQuery) ||
+      childQuery.target === "ocr" ||
+      childQuery.target === "coordinates" ||
+      childQuery.target === "chronology" ||
+      childQuery.target === "link" ||
+      isTextMatchQuery(childQuery)
+    ) {
       return null;
     }
 
@@ -1655,7 +2198,7 @@ function buildIncludesGroupQueryExpression(
   ]);
 }
 
-function buildCtsItemsPlan(queryExpression: string): ItemsSearchPlan {
+function buildCtsItemsPlan(queryExpression: string): QuerySearchPlan {
   return {
     kind: "search",
     itemPredicates: [],
@@ -1668,10 +2211,10 @@ function buildCtsItemsPlan(queryExpression: string): ItemsSearchPlan {
  * nested group of the same operator does not cost an extra search
  */
 function flattenItemsPlans(
-  childPlans: Array<ItemsPlan>,
+  childPlans: Array<QueryPlan>,
   kind: "union" | "intersect",
-): Array<ItemsPlan> {
-  const flattenedPlans: Array<ItemsPlan> = [];
+): Array<QueryPlan> {
+  const flattenedPlans: Array<QueryPlan> = [];
 
   for (const childPlan of childPlans) {
     if (childPlan.kind === kind) {
@@ -1692,13 +2235,13 @@ function flattenItemsPlans(
  * every child that is a plain search collapses into a single search, and only
  * the children that resolved to a union stay separate.
  */
-function buildAndItemsPlan(childPlans: Array<ItemsPlan>): ItemsPlan {
-  const mergedPlan: ItemsSearchPlan = {
+function buildAndItemsPlan(childPlans: Array<QueryPlan>): QueryPlan {
+  const mergedPlan: QuerySearchPlan = {
     kind: "search",
     itemPredicates: [],
     queryExpressions: [],
   };
-  const unfoldablePlans: Array<ItemsPlan> = [];
+  const unfoldablePlans: Array<QueryPlan> = [];
 
   for (const childPlan of flattenItemsPlans(childPlans, "intersect")) {
     if (childPlan.kind !== "search") {
@@ -1736,9 +2279,9 @@ function buildAndItemsPlan(childPlans: Array<ItemsPlan>): ItemsPlan {
  * Item path predicates cannot be disjoined, so a child carrying one becomes its
  * own arm of a node union. Everything else is still a single CTS query.
  */
-function buildOrItemsPlan(childPlans: Array<ItemsPlan>): ItemsPlan {
+function buildOrItemsPlan(childPlans: Array<QueryPlan>): QueryPlan {
   const mergedQueryExpressions: Array<string> = [];
-  const unionedPlans: Array<ItemsPlan> = [];
+  const unionedPlans: Array<QueryPlan> = [];
 
   for (const childPlan of flattenItemsPlans(childPlans, "union")) {
     if (childPlan.kind === "search" && childPlan.itemPredicates.length === 0) {
@@ -1773,11 +2316,17 @@ function buildOrItemsPlan(childPlans: Array<ItemsPlan>): ItemsPlan {
 function buildItemsPlan(
   context: QueryCompilerContext,
   query: Query,
-): ItemsPlan {
+): QueryPlan {
   if (isQueryLeaf(query)) {
     if (query.target === "ocr") {
       const bindingName = registerOcrBinding(context, query);
 
+      if (query.isNegated !== true) {
+        context.ocrSnippetQueryExpressions.push(
+          ...buildOcrTermQueryExpressions(query),
+        );
+      }
+
       return {
         kind: "search",
         itemPredicates: [
@@ -1789,7 +2338,28 @@ function buildItemsPlan(
       };
     }
 
-    const queryExpression = buildLeafQueryExpression(context, query);
+    if (query.target === "chronology") {
+      return buildChronologyItemsPlan(context, query);
+    }
+
+    if (isNumericRangePropertyQuery(query)) {
+      return buildNumericRangeItemsPlan(query);
+    }
+
+    if (isTextMatchQuery(query)) {
+      return buildCtsItemsPlan(
+        query.isNegated === true
+          ? buildNotCtsQueryExpression(buildTextMatchQueryExpression(query))
+          : buildTextMatchQueryExpression(query),
+      );
+    }
+
+    const queryExpression =
+      query.target === "coordinates"
+        ? buildCoordinatesQueryExpression(query)
+        : query.target === "link"
+          ? buildLinkQueryExpression(query)
+          : buildLeafQueryExpression(context, query);
 
     return buildCtsItemsPlan(
       query.isNegated === true
@@ -1806,7 +2376,7 @@ function buildItemsPlan(
     );
   }
 
-  const childPlans: Array<ItemsPlan> = Array.from(
+  const childPlans: Array<QueryPlan> = Array.from(
     getQueryGroupChildren(query),
     (childQuery) => buildItemsPlan(context, childQuery),
   );
@@ -1817,8 +2387,8 @@ function buildItemsPlan(
 }
 
 function collectItemsSearchPlans(
-  plan: ItemsPlan,
-  searchPlans: Array<ItemsSearchPlan>,
+  plan: QueryPlan,
+  searchPlans: Array<QuerySearchPlan>,
 ): void {
   if (plan.kind === "search") {
     searchPlans.push(plan);
@@ -1831,9 +2401,9 @@ function collectItemsSearchPlans(
 }
 
 function buildItemsPlanExpression(parameters: {
-  plan: ItemsPlan;
+  plan: QueryPlan;
   baseItemsExpression: string;
-  queryNamesByPlan: Map<ItemsSearchPlan, string>;
+  queryNamesByPlan: Map<QuerySearchPlan, string>;
 }): string {
   const { plan, baseItemsExpression, queryNamesByPlan } = parameters;
 
@@ -1884,42 +2454,32 @@ export function buildBelongsToCollectionQueryExpression(
   });
 }
 
-/**
- * Compile a query tree into the XQuery `let` clauses that bind `$items` to the
- * matching Set items
- *
- * Most queries compile to a single `cts:search` over the Set item projections.
- * An `ocr` leaf cannot: the projections drop the `<ocr>` layer, so it resolves
- * to a search over the Resource documents whose matching UUIDs are joined back
- * in as an item path predicate. Path predicates only ever AND, so an `ocr` leaf
- * that sits under an `or` becomes its own arm of a node union instead, and one
- * that sits under an `and` alongside a union becomes an intersection.
- *
- * The searchable path has to stay inline in `cts:search`: binding it to a
- * variable first makes every query XDMP-UNSEARCHABLE.
- * @param parameters - The parameters for the compilation
- * @param parameters.queries - Recursive query tree to compile, if any
- * @param parameters.baseItemsExpression - The inline XQuery path selecting the items to search
- * @param parameters.scopeQueryExpression - An optional CTS query ANDed into every compiled search
- * @returns The prolog declaring the query helpers, and the `let` clauses binding `$items`
- */
-export function buildQueryPlan(parameters: {
-  queries: Query | null;
-  baseItemsExpression: string;
-  scopeQueryExpression?: string | null;
-}): { prolog: string; itemsClause: string } {
+function compileQueryPlan(
+  context: QueryCompilerContext,
+  parameters: {
+    queries: Query | null;
+    baseItemsExpression: string;
+    scopeQueryExpression?: string | null;
+  },
+): {
+  plan: QueryPlan;
+  queryLetClauses: Array<string>;
+  itemsExpression: string;
+  snippetQueryNames: Array<string>;
+} {
   const { queries, baseItemsExpression, scopeQueryExpression } = parameters;
 
-  const context = createQueryCompilerContext();
-  const plan: ItemsPlan =
-    queries == null
+  const normalizedQuery = normalizeQuery(queries);
+  const plan: QueryPlan = normalizedQuery.isUnsatisfiable
+    ? { kind: "union", children: [] }
+    : normalizedQuery.query == null
       ? { kind: "search", itemPredicates: [], queryExpressions: [] }
-      : buildItemsPlan(context, queries);
-  const searchPlans: Array<ItemsSearchPlan> = [];
+      : buildItemsPlan(context, normalizedQuery.query);
+  const searchPlans: Array<QuerySearchPlan> = [];
   collectItemsSearchPlans(plan, searchPlans);
 
   const boundSearchPlans: Array<{
-    plan: ItemsSearchPlan;
+    plan: QuerySearchPlan;
     queryExpression: string;
   }> = [];
 
@@ -1934,26 +2494,125 @@ export function buildQueryPlan(parameters: {
     }
   }
 
-  const queryNamesByPlan = new Map<ItemsSearchPlan, string>();
-  const letClauses: Array<string> = Array.from(
-    context.ocrBindings,
-    (binding) => `let ${binding.name} := ${binding.expression}`,
-  );
+  const queryNamesByPlan = new Map<QuerySearchPlan, string>();
+  const snippetQueryNames: Array<string> = [];
+  const queryLetClauses: Array<string> = [];
 
   for (const [index, boundSearchPlan] of boundSearchPlans.entries()) {
     const queryName =
       boundSearchPlans.length === 1 ? "$query" : `$query${index + 1}`;
 
     queryNamesByPlan.set(boundSearchPlan.plan, queryName);
-    letClauses.push(`let ${queryName} := ${boundSearchPlan.queryExpression}`);
+    queryLetClauses.push(
+      `let ${queryName} := ${boundSearchPlan.queryExpression}`,
+    );
+
+    if (boundSearchPlan.plan.queryExpressions.length > 0) {
+      snippetQueryNames.push(queryName);
+    }
   }
 
-  letClauses.push(
-    `let $items := ${buildItemsPlanExpression({ plan, baseItemsExpression, queryNamesByPlan })}`,
-  );
+  return {
+    plan,
+    queryLetClauses,
+    itemsExpression: buildItemsPlanExpression({
+      plan,
+      baseItemsExpression,
+      queryNamesByPlan,
+    }),
+    snippetQueryNames,
+  };
+}
+
+/**
+ * Compile a query tree into the XQuery `let` clauses that bind `$items` to the
+ * matching Set items
+ *
+ * Most queries compile to a single `cts:search` over the Set item projections.
+ * An `ocr` leaf cannot: the projections drop the `<ocr>` layer, so it resolves
+ * to a search over the Resource documents whose matching UUIDs are joined back
+ * in as an item path predicate. Path predicates only ever AND, so an `ocr` leaf
+ * that sits under an `or` becomes its own arm of a node union instead, and one
+ * that sits under an `and` alongside a union becomes an intersection.
+ *
+ * The tree is normalized first, so a query that contradicts itself compiles
+ * to an empty union and binds `$items` to `()` without searching.
+ *
+ * The searchable path has to stay inline in `cts:search`: binding it to a
+ * variable first makes every query XDMP-UNSEARCHABLE.
+ * @param parameters - The parameters for the compilation
+ * @param parameters.queries - Recursive query tree to compile, if any
+ * @param parameters.baseItemsExpression - The inline XQuery path selecting the items to search
+ * @param parameters.scopeQueryExpression - An optional CTS query ANDed into every compiled search
+ * @param parameters.facetQueries - Further query trees over the same items, for callers that need a differently filtered item set per facet.
+ * They share the query helpers and bindings of the main tree, so a helper or an OCR join they have in common is declared and resolved once.
+ * @returns The prolog declaring the query helpers, the `let` clauses binding `$items`, the compiled plan, the variables bound ahead of the searches,
+ * the CTS queries to highlight the matched text and OCR words with, which are null when nothing can be highlighted,
+ * and one standalone items expression per facet query tree, which binds its own `$query` variables
+ */
+export function buildQueryPlan(parameters: {
+  queries: Query | null;
+  baseItemsExpression: string;
+  scopeQueryExpression?: string | null;
+  facetQueries?: Array<Query | null>;
+}): {
+  prolog: string;
+  itemsClause: string;
+  plan: QueryPlan;
+  bindings: Array<QueryBinding>;
+  snippetQueryExpression: string | null;
+  ocrSnippetQueryExpression: string | null;
+  facetItemsExpressions: Array<string>;
+} {
+  const {
+    queries,
+    baseItemsExpression,
+    scopeQueryExpression,
+    facetQueries = [],
+  } = parameters;
+
+  const context = createQueryCompilerContext();
+  const { plan, queryLetClauses, itemsExpression, snippetQueryNames } =
+    compileQueryPlan(context, {
+      queries,
+      baseItemsExpression,
+      scopeQueryExpression,
+    });
+  const facetItemsExpressions = facetQueries.map((facetQuery) => {
+    const compiledFacetQueryPlan = compileQueryPlan(context, {
+      queries: facetQuery,
+      baseItemsExpression,
+      scopeQueryExpression,
+    });
+
+    return compiledFacetQueryPlan.queryLetClauses.length === 0
+      ? compiledFacetQueryPlan.itemsExpression
+      : `(\n    ${compiledFacetQueryPlan.queryLetClauses.join("\n    ")}\n    return ${compiledFacetQueryPlan.itemsExpression}\n  )`;
+  });
+  const letClauses: Array<string> = [
+    ...Array.from(
+      context.bindings,
+      (binding) => `let ${binding.name} := ${binding.expression}`,
+    ),
+    ...queryLetClauses,
+    `let $items := ${itemsExpression}`,
+  ];
 
   return {
     prolog: context.helperDeclarations.join("\n\n"),
     itemsClause: letClauses.join("\n  "),
+    plan,
+    bindings: context.bindings,
+    snippetQueryExpression:
+      snippetQueryNames.length === 0
+        ? null
+        : buildOrCtsQueryExpressionInternal(snippetQueryNames),
+    ocrSnippetQueryExpression:
+      context.ocrSnippetQueryExpressions.length === 0
+        ? null
+        : buildOrCtsQueryExpressionInternal([
+            ...new Set(context.ocrSnippetQueryExpressions),
+          ]),
+    facetItemsExpressions,
   };
 }
@@ -0,0 +1,224 @@
+import { describe, expect, it } from "vitest";
+import type { OchreCacheStore } from "#/cache.js";
+import type { FetchFunction } from "#/parsers/helpers.js";
+import { OchreAbortError, OchreHttpError } from "#/errors.js";
+import { fetchSetItems } from "#/fetchers/set/items.js";
+import { postXQuery } from "#/request.js";
+
+const SET_UUID = "41f855f5-202e-4ec9-95d6-a87b793a9dcb";
+const EMPTY_SET_ITEMS =
+  '<result><ochre><items totalCount="0" page="1" pageSize="10"/></ochre></result>';
+
+function makeSequenceFetch(
+  responses: Array<(() => Response) | Error>,
+): FetchFunction & { calls: number } {
+  const fetchMock = Object.assign(
+    async () => {
+      const response = responses[fetchMock.calls];
+      fetchMock.calls += 1;
+      if (response instanceof Error) {
+        throw response;
+      }
+
+      return response?.() ?? new Response("", { status: 500 });
+    },
+    { calls: 0 },
+  );
+
+  return fetchMock;
+}
+
+const hangingFetch: FetchFunction = async (_input, init) =>
+  new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener("abort", () => {
+      reject(init.signal?.reason);
+    });
+  });
+
+describe("request retries", () => {
+  it("retries retryable statuses until a response succeeds", async () => {
+    const fetchMock = makeSequenceFetch([
+      () => new Response("", { status: 502 }),
+      () => new Response("", { status: 503 }),
+      () => new Response(EMPTY_SET_ITEMS),
+    ]);
+
+    const result = await fetchSetItems(
+      { setScopeUuids: [SET_UUID], page: 1 },
+      undefined,
+      { fetch: fetchMock, retry: { retries: 2, minDelayMs: 0 } },
+    );
+
+    expect(result.error).toBeNull();
+    expect(fetchMock.calls).toBe(3);
+  });
+
+  it("returns non-retryable statuses and skips retries without a policy", async () => {
+    const badRequestFetch = makeSequenceFetch([
+      () => new Response("", { status: 400 }),
+    ]);
+    const unavailableFetch = makeSequenceFetch([
+      () => new Response("", { status: 503 }),
+    ]);
+
+    const badRequest = await postXQuery("query", {
+      fetch: badRequestFetch,
+      retry: { minDelayMs: 0 },
+    });
+    const unavailable = await postXQuery("query", { fetch: unavailableFetch });
+
+    expect(badRequest.status).toBe(400);
+    expect(badRequestFetch.calls).toBe(1);
+    expect(unavailable.status).toBe(503);
+    expect(unavailableFetch.calls).toBe(1);
+  });
+
+  it("retries network failures and reports the last one", async () => {
+    const fetchMock = makeSequenceFetch([
+      new TypeError("fetch failed"),
+      new TypeError("fetch failed"),
+    ]);
+
+    const request = postXQuery("query", {
+      fetch: fetchMock,
+      retry: { retries: 1, minDelayMs: 0 },
+    });
+
+    await expect(request).rejects.toBeInstanceOf(OchreHttpError);
+    expect(fetchMock.calls).toBe(2);
+  });
+
+  it("waits for the server's Retry-After, capped at the maximum delay", async () => {
+    const fetchMock = makeSequenceFetch([
+      () =>
+        new Response("", { status: 429, headers: { "Retry-After": "120" } }),
+      () => new Response("ok"),
+    ]);
+    const startedAt = Date.now();
+
+    const response = await postXQuery("query", {
+      fetch: fetchMock,
+      retry: { maxDelayMs: 20 },
+    });
+
+    expect(await response.text()).toBe("ok");
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  });
+
+  it("waits for a Retry-After date and ignores a blank Retry-After", async () => {
+    const retryAfterDate = new Date(Date.now() + 60_000).toUTCString();
+    const datedFetch = makeSequenceFetch([
+      () =>
+        new Response("", {
+          status: 503,
+          headers: { "Retry-After": retryAfterDate },
+        }),
+      () => new Response("ok"),
+    ]);
+    const blankFetch = makeSequenceFetch([
+      () => new Response("", { status: 503, headers: { "Retry-After": "" } }),
+      () => new Response("ok"),
+    ]);
+
+    let startedAt = Date.now();
+    await postXQuery("query", {
+      fetch: datedFetch,
+      retry: { minDelayMs: 0, maxDelayMs: 100 },
+    });
+    const datedElapsedMs = Date.now() - startedAt;
+
+    startedAt = Date.now();
+    await postXQuery("query", {
+      fetch: blankFetch,
+      retry: { minDelayMs: 100, maxDelayMs: 1000 },
+    });
+    const blankElapsedMs = Date.now() - startedAt;
+
+    expect(datedElapsedMs).toBeGreaterThanOrEqual(90);
+    expect(blankElapsedMs).toBeGreaterThanOrEqual(90);
+    expect(datedFetch.calls).toBe(2);
+    expect(blankFetch.calls).toBe(2);
+  });
+});
+
+describe("request timeouts and abort", () => {
+  it("times out an attempt that does not respond", async () => {
+    const result = await fetchSetItems(
+      { setScopeUuids: [SET_UUID], page: 1 },
+      undefined,
+      { fetch: hangingFetch, timeoutMs: 10 },
+    );
+
+    expect(result.ochreError).toBeInstanceOf(OchreHttpError);
+    expect(result.error).toBe("The OCHRE API did not respond in time");
+  });
+
+  it("stops retrying once the caller aborts", async () => {
+    const controller = new AbortController();
+    const fetchMock = makeSequenceFetch([
+      () => {
+        controller.abort();
+        return new Response("", { status: 503 });
+      },
+    ]);
+
+    const result = await fetchSetItems(
+      { setScopeUuids: [SET_UUID], page: 1 },
+      undefined,
+      {
+        fetch: fetchMock,
+        signal: controller.signal,
+        retry: { retries: 5, minDelayMs: 10_000 },
+      },
+    );
+
+    expect(result.ochreError).toBeInstanceOf(OchreAbortError);
+    expect(result.ochreError?.kind).toBe("aborted");
+    expect(fetchMock.calls).toBe(1);
+  });
+
+  it("aborts an in-flight request", async () => {
+    const controller = new AbortController();
+    const request = postXQuery("query", {
+      fetch: hangingFetch,
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(request).rejects.toBeInstanceOf(OchreAbortError);
+  });
+});
+
+describe("request cache failures", () => {
+  it("goes to the network and returns the response when the store rejects", async () => {
+    const fetchMock = makeSequenceFetch([
+      () => new Response(EMPTY_SET_ITEMS),
+      () => new Response(EMPTY_SET_ITEMS),
+    ]);
+    const store: OchreCacheStore = {
+      get: async () => {
+        throw new Error("store unavailable");
+      },
+      set: async () => {
+        throw new Error("disk full");
+      },
+      delete: async () => {
+        throw new Error("store unavailable");
+      },
+    };
+
+    const response = await postXQuery("query", {
+      fetch: fetchMock,
+      cache: { store },
+    });
+    const result = await fetchSetItems(
+      { setScopeUuids: [SET_UUID], page: 1 },
+      undefined,
+      { fetch: fetchMock, cache: { store } },
+    );
+
+    expect(await response.text()).toBe(EMPTY_SET_ITEMS);
+    expect(result.error).toBeNull();
+    expect(fetchMock.calls).toBe(2);
+  });
+});
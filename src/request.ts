@@ -0,0 +1,334 @@
+import * as v from "valibot";
+import type { OchreCacheEntry, OchreCacheOptions } from "#/cache.js";
+import type { FetchRequestOptions } from "#/parsers/helpers.js";
+import {
+  createCacheEntry,
+  getCacheKey,
+  getResponsePublicationDateTime,
+  isCacheEntryFresh,
+} from "#/cache.js";
+import { OCHRE_API_URL } from "#/constants.js";
+import { OchreAbortError, OchreHttpError } from "#/errors.js";
+import { fetchRetryOptionsSchema } from "#/schemas.js";
+
+type RetryPolicy = v.InferOutput<typeof fetchRetryOptionsSchema>;
+
+/**
+ * Build the URL that runs a posted XQuery against an OCHRE API endpoint
+ * @param baseUrl - The OCHRE API endpoint, defaulting to the public OCHRE v2 API
+ * @returns The XQuery URL, returning raw XML in every language
+ */
+export function getXQueryUrl(baseUrl: string = OCHRE_API_URL): string {
+  const separator = baseUrl.includes("?") ? "&" : "?";
+
+  return `${baseUrl}${separator}xquery&xsl=none&lang="*"`;
+}
+
+function buildRequestInit(parameters: {
+  body: string;
+  contentType: string;
+  options: FetchRequestOptions | undefined;
+}): RequestInit {
+  const { body, contentType, options } = parameters;
+
+  return {
+    method: "POST",
+    body,
+    headers: { ...options?.headers, "Content-Type": contentType },
+  };
+}
+
+/**
+ * Combine the caller's signal with the per-attempt timeout
+ */
+function getAttemptSignal(
+  options: FetchRequestOptions | undefined,
+): AbortSignal | undefined {
+  const signals: Array<AbortSignal> = [];
+  if (options?.signal != null) {
+    signals.push(options.signal);
+  }
+  if (options?.timeoutMs != null) {
+    signals.push(AbortSignal.timeout(options.timeoutMs));
+  }
+
+  return signals.length > 1 ? AbortSignal.any(signals) : signals[0];
+}
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted === true) {
+    throw new OchreAbortError("The OCHRE request was aborted", {
+      cause: signal.reason,
+    });
+  }
+}
+
+/**
+ * Read a `Retry-After` header given either as a non-negative number of seconds
+ * or as an HTTP date in the future. Blank, negative and past values are
+ * ignored, so they fall back to the backoff instead of retrying at once.
+ */
+function getRetryAfterDelayMs(response: Response | null): number | null {
+  const retryAfter = response?.headers.get("Retry-After")?.trim() ?? "";
+  if (retryAfter === "") {
+    return null;
+  }
+
+  if (/^\d+(?:\.\d+)?$/.test(retryAfter)) {
+    return Number(retryAfter) * 1000;
+  }
+
+  const delayMs = Date.parse(retryAfter) - Date.now();
+
+  return delayMs > 0 ? delayMs : null;
+}
+
+function getRetryDelayMs(parameters: {
+  response: Response | null;
+  attempt: number;
+  retry: RetryPolicy;
+}): number {
+  const { response, attempt, retry } = parameters;
+
+  const delayMs =
+    getRetryAfterDelayMs(response) ??
+    retry.minDelayMs * retry.factor ** attempt;
+
+  return Math.min(retry.maxDelayMs, delayMs);
+}
+
+async function wait(
+  delayMs: number,
+  signal: AbortSignal | undefined,
+): Promise<void> {
+  return new Promise<void>((resolve) => {
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+
+    function onAbort(): void {
+      clearTimeout(timeout);
+      resolve();
+    }
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Send a request, retrying transient failures according to the retry policy.
+ * A response with a non-retryable status is returned as is, so the fetcher
+ * decides how to report it.
+ */
+async function send(
+  url: string,
+  requestInit: RequestInit,
+  options: FetchRequestOptions | undefined,
+): Promise<Response> {
+  const retry =
+    options?.retry == null
+      ? null
+      : v.parse(fetchRetryOptionsSchema, options.retry);
+  const retries = retry?.retries ?? 0;
+
+  for (let attempt = 0; ; attempt += 1) {
+    throwIfAborted(options?.signal);
+
+    let response: Response | null = null;
+    let failure: unknown = null;
+    try {
+      response = await (options?.fetch ?? fetch)(url, {
+        ...requestInit,
+        signal: getAttemptSignal(options),
+      });
+    } catch (error) {
+      throwIfAborted(options?.signal);
+      failure = error;
+    }
+
+    const isRetryable =
+      response == null ||
+      retry?.retryableStatusCodes.includes(response.status) === true;
+    if (!isRetryable || retry == null || attempt >= retries) {
+      if (response != null) {
+        return response;
+      }
+
+      throw new OchreHttpError(
+        failure instanceof Error && failure.name === "TimeoutError"
+          ? "The OCHRE API did not respond in time"
+          : "Failed to reach the OCHRE API",
+        null,
+        { cause: failure },
+      );
+    }
+
+    await response?.body?.cancel();
+    await wait(getRetryDelayMs({ response, attempt, retry }), options?.signal);
+  }
+}
+
+async function sendXQuery(
+  xquery: string,
+  options: FetchRequestOptions | undefined,
+): Promise<Response> {
+  return send(
+    getXQueryUrl(options?.baseUrl),
+    buildRequestInit({
+      body: xquery,
+      contentType: "application/xquery",
+      options,
+    }),
+    options,
+  );
+}
+
+function createCachedResponse(value: string): Response {
+  return new Response(value, {
+    status: 200,
+    headers: { "Content-Type": "application/xml" },
+  });
+}
+
+/**
+ * Read a cache entry, treating a failing store as a miss so the request
+ * still goes to the network
+ */
+async function readCacheEntry(
+  cache: OchreCacheOptions,
+  key: string,
+): Promise<OchreCacheEntry | null> {
+  try {
+    return await cache.store.get(key);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store a response body, ignoring a failing store so the response that was
+ * already downloaded is still returned
+ */
+async function writeCacheEntry(
+  cache: OchreCacheOptions,
+  key: string,
+  value: string,
+): Promise<void> {
+  try {
+    await cache.store.set(key, createCacheEntry(value, cache.ttlMs));
+  } catch {}
+}
+
+/**
+ * Check whether the document behind a stale cache entry is unchanged by
+ * comparing its current `publicationDateTime` with the cached one
+ */
+async function isPublicationUnchanged(parameters: {
+  revalidationXQuery: string;
+  publicationDateTime: string;
+  options: FetchRequestOptions | undefined;
+}): Promise<boolean> {
+  const { revalidationXQuery, publicationDateTime, options } = parameters;
+
+  try {
+    const response = await sendXQuery(revalidationXQuery, options);
+    if (!response.ok) {
+      return false;
+    }
+
+    return (
+      getResponsePublicationDateTime(await response.text()) ===
+      publicationDateTime
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Post an XQuery to the OCHRE API
+ *
+ * When a cache is configured, successful response bodies are stored under a
+ * hash of the endpoint, the headers and the XQuery and replayed while fresh. A stale entry
+ * is kept if `revalidationXQuery` reports an unchanged `publicationDateTime`.
+ * The cache is best-effort: a store that fails to read or write is bypassed.
+ *
+ * @param xquery - The XQuery to run
+ * @param options - The transport options for the request
+ * @param revalidationXQuery - An XQuery returning `<ochre publicationDateTime="…"/>` for the requested document
+ * @returns The raw response
+ */
+export async function postXQuery(
+  xquery: string,
+  options: FetchRequestOptions | undefined,
+  revalidationXQuery?: string,
+): Promise<Response> {
+  const cache = options?.cache;
+  if (cache == null) {
+    return sendXQuery(xquery, options);
+  }
+
+  const key = await getCacheKey({
+    url: getXQueryUrl(options?.baseUrl),
+    xquery,
+    headers: options?.headers,
+  });
+  const entry = await readCacheEntry(cache, key);
+
+  if (entry != null) {
+    if (isCacheEntryFresh(entry)) {
+      return createCachedResponse(entry.value);
+    }
+
+    if (
+      revalidationXQuery != null &&
+      entry.publicationDateTime != null &&
+      (await isPublicationUnchanged({
+        revalidationXQuery,
+        publicationDateTime: entry.publicationDateTime,
+        options,
+      }))
+    ) {
+      await writeCacheEntry(cache, key, entry.value);
+
+      return createCachedResponse(entry.value);
+    }
+  }
+
+  const response = await sendXQuery(xquery, options);
+  if (!response.ok) {
+    return response;
+  }
+
+  const value = await response.text();
+  await writeCacheEntry(cache, key, value);
+
+  return new Response(value, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Post a JSON payload to the OCHRE API endpoint itself, as used by the
+ * non-XQuery operations such as credential validation
+ * @param payload - The JSON-serializable payload to send
+ * @param options - The transport options for the request
+ * @returns The raw response
+ */
+export async function postJSON(
+  payload: unknown,
+  options: FetchRequestOptions | undefined,
+): Promise<Response> {
+  return send(
+    options?.baseUrl ?? OCHRE_API_URL,
+    buildRequestInit({
+      body: JSON.stringify(payload),
+      contentType: "application/json",
+      options,
+    }),
+    options,
+  );
+}
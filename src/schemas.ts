@@ -1,12 +1,21 @@
 import * as v from "valibot";
 import type {
+  CoordinatesQueryRegion,
+  ItemLinkCategory,
   PropertyRelation,
   Query,
   QueryablePropertyValueDataType,
   QueryLeaf,
   SetItemsSort,
+  SetItemsSortKey,
+  SetPropertyValueHistogramOptions,
+  TextMatchQueryTarget,
 } from "#/types/index.js";
 import type { WebElementComponent } from "#/types/website.js";
+import {
+  DEFAULT_RETRYABLE_STATUS_CODES,
+  MAX_HISTOGRAM_BUCKET_COUNT,
+} from "#/constants.js";
 import { DEFAULT_PAGE_SIZE } from "#/helpers.js";
 import { isPseudoUuid } from "#/utilities.js";
 
@@ -108,6 +117,98 @@ const dateDataTypeSchema = v.picklist([
   Extract<QueryablePropertyValueDataType, "date" | "dateTime">
 >);
 
+/**
+ * Schema for validating numeric data types that support range queries
+ * @internal
+ */
+const numericDataTypeSchema = v.picklist([
+  "integer",
+  "decimal",
+  "time",
+] as const satisfies ReadonlyArray<
+  Extract<QueryablePropertyValueDataType, "integer" | "decimal" | "time">
+>);
+
+const rangeBoundSchema = v.pipe(
+  v.number(),
+  v.finite("Range bounds must be finite numbers"),
+);
+
+function isRangeBoundsOrdered(range: { from?: number; to?: number }): boolean {
+  return range.from == null || range.to == null || range.from <= range.to;
+}
+
+const itemLinkCategorySchema = v.picklist([
+  "tree",
+  "bibliography",
+  "concept",
+  "spatialUnit",
+  "period",
+  "person",
+  "propertyVariable",
+  "propertyValue",
+  "resource",
+  "text",
+  "set",
+  "dictionaryUnit",
+]) satisfies v.GenericSchema<unknown, ItemLinkCategory>;
+
+const yearSchema = v.pipe(v.number(), v.integer("Years must be integers"));
+
+const latitudeSchema = v.pipe(
+  v.number(),
+  v.minValue(-90, "Latitude must be between -90 and 90"),
+  v.maxValue(90, "Latitude must be between -90 and 90"),
+);
+
+const longitudeSchema = v.pipe(
+  v.number(),
+  v.minValue(-180, "Longitude must be between -180 and 180"),
+  v.maxValue(180, "Longitude must be between -180 and 180"),
+);
+
+/**
+ * Schema for validating the region of a coordinates query
+ * @internal
+ */
+const coordinatesQueryRegionSchema = v.variant("type", [
+  v.pipe(
+    v.strictObject({
+      type: v.literal("boundingBox"),
+      south: latitudeSchema,
+      west: longitudeSchema,
+      north: latitudeSchema,
+      east: longitudeSchema,
+    }),
+    v.check(
+      (region) => region.south <= region.north,
+      "Bounding box south must not be greater than north",
+    ),
+  ),
+  v.strictObject({
+    type: v.literal("pointRadius"),
+    latitude: latitudeSchema,
+    longitude: longitudeSchema,
+    radiusKm: v.pipe(
+      v.number(),
+      v.gtValue(0, "Radius must be greater than 0"),
+      v.finite("Radius must be finite"),
+    ),
+  }),
+  v.strictObject({
+    type: v.literal("polygon"),
+    vertices: v.pipe(
+      v.array(
+        v.strictObject({
+          latitude: latitudeSchema,
+          longitude: longitudeSchema,
+        }),
+      ),
+      v.minLength(3, "Polygons must have at least three vertices"),
+    ),
+  }),
+]) satisfies v.GenericSchema<unknown, CoordinatesQueryRegion>;
+
 /**
  * Shared schema for query fields
  * @internal
@@ -119,6 +220,41 @@ const standardQueryFields = {
   isNegated: defaultBoolean(false),
 } as const;
 
+/**
+ * Shared schema for the fields of `startsWith`, `anyOf`, `allOf`, and `near`
+ * text queries
+ * @internal
+ */
+const textMatchQueryFields = {
+  ...standardQueryFields,
+  isFuzzy: defaultBoolean(false),
+} as const;
+
+/**
+ * `includes` already ignores diacritics and matches other forms of a word, so
+ * `isFuzzy` is only accepted with `exact`
+ */
+function isFuzzyMatchModeSupported(query: {
+  matchMode: string;
+  isFuzzy: boolean;
+}): boolean {
+  return !query.isFuzzy || query.matchMode !== "includes";
+}
+
+const textMatchQueryTargetSchema = v.picklist([
+  "string",
+  "title",
+  "description",
+  "notes",
+] as const satisfies ReadonlyArray<TextMatchQueryTarget>);
+
+const textMatchTermsSchema = v.pipe(
+  v.array(
+    v.pipe(v.string(), v.trim(), v.nonEmpty("Query terms must not be empty")),
+  ),
+  v.minLength(1, "At least one query term is required"),
+);
+
 const propertyRelationSchema = v.picklist([
   "related",
   "inverse",
@@ -185,6 +321,42 @@ const setQueryLeafSchema = v.union([
     to: v.string(),
     ...standardQueryFields,
   }),
+  v.pipe(
+    v.strictObject({
+      target: v.literal("property"),
+      propertyVariable: uuidSchema,
+      propertyRelation: v.optional(propertyRelationSchema),
+      dataType: numericDataTypeSchema,
+      value: v.optional(v.never()),
+      from: rangeBoundSchema,
+      to: v.optional(rangeBoundSchema),
+      isFromExclusive: defaultBoolean(false),
+      isToExclusive: defaultBoolean(false),
+      ...standardQueryFields,
+    }),
+    v.check(
+      (query) => isRangeBoundsOrdered(query),
+      "Range from bound must not be after the to bound",
+    ),
+  ),
+  v.pipe(
+    v.strictObject({
+      target: v.literal("property"),
+      propertyVariable: uuidSchema,
+      propertyRelation: v.optional(propertyRelationSchema),
+      dataType: numericDataTypeSchema,
+      value: v.optional(v.never()),
+      from: v.optional(rangeBoundSchema),
+      to: rangeBoundSchema,
+      isFromExclusive: defaultBoolean(false),
+      isToExclusive: defaultBoolean(false),
+      ...standardQueryFields,
+    }),
+    v.check(
+      (query) => isRangeBoundsOrdered(query),
+      "Range from bound must not be after the to bound",
+    ),
+  ),
   v.strictObject({
     target: v.literal("property"),
     propertyVariable: v.optional(uuidSchema),
@@ -193,10 +365,88 @@ const setQueryLeafSchema = v.union([
     value: v.string(),
     ...standardQueryFields,
   }),
+  v.pipe(
+    v.strictObject({
+      target: v.literal("string"),
+      value: v.string(),
+      isFuzzy: defaultBoolean(false),
+      ...standardQueryFields,
+    }),
+    v.check(
+      (query) => isFuzzyMatchModeSupported(query),
+      "isFuzzy does not apply to includes queries",
+    ),
+  ),
   v.strictObject({
-    target: v.literal("string"),
-    value: v.string(),
-    ...standardQueryFields,
+    target: textMatchQueryTargetSchema,
+    value: v.pipe(
+      v.string(),
+      v.trim(),
+      v.nonEmpty("A startsWith value must not be empty"),
+    ),
+    ...textMatchQueryFields,
+    matchMode: v.literal("startsWith"),
+  }),
+  v.strictObject({
+    target: textMatchQueryTargetSchema,
+    terms: textMatchTermsSchema,
+    ...textMatchQueryFields,
+    matchMode: v.picklist(["anyOf", "allOf"]),
+  }),
+  v.strictObject({
+    target: textMatchQueryTargetSchema,
+    terms: v.pipe(
+      textMatchTermsSchema,
+      v.minLength(2, "A near query requires at least two terms"),
+    ),
+    distance: v.pipe(
+      v.number(),
+      v.integer("Near distance must be an integer"),
+      v.minValue(0, "Near distance must not be negative"),
+    ),
+    isOrdered: defaultBoolean(false),
+    ...textMatchQueryFields,
+    matchMode: v.literal("near"),
+  }),
+  v.strictObject({
+    target: v.literal("coordinates"),
+    region: coordinatesQueryRegionSchema,
+    isNegated: standardQueryFields.isNegated,
+  }),
+  v.pipe(
+    v.strictObject({
+      target: v.literal("chronology"),
+      periodUuid: v.optional(v.never()),
+      from: yearSchema,
+      to: v.optional(yearSchema),
+      isNegated: standardQueryFields.isNegated,
+    }),
+    v.check(
+      (query) => query.to == null || query.from <= query.to,
+      "Chronology from year must not be after the to year",
+    ),
+  ),
+  v.strictObject({
+    target: v.literal("chronology"),
+    periodUuid: v.optional(v.never()),
+    from: v.optional(v.never()),
+    to: yearSchema,
+    isNegated: standardQueryFields.isNegated,
+  }),
+  v.strictObject({
+    target: v.literal("chronology"),
+    periodUuid: uuidSchema,
+    isIncludingNarrowerPeriods: defaultBoolean(false),
+    from: v.optional(v.never()),
+    to: v.optional(v.never()),
+    isNegated: standardQueryFields.isNegated,
+  }),
+  v.strictObject({
+    target: v.literal("link"),
+    uuid: uuidSchema,
+    category: v.optional(itemLinkCategorySchema),
+    direction: v.optional(v.picklist(["links", "reverseLinks"]), "links"),
+    isNegated: standardQueryFields.isNegated,
   }),
   v.strictObject({
     target: v.literal("ocr"),
@@ -205,15 +455,20 @@ const setQueryLeafSchema = v.union([
     isCaseSensitive: standardQueryFields.isCaseSensitive,
     isNegated: standardQueryFields.isNegated,
   }),
+  v.pipe(
+    v.strictObject({
+      target: v.picklist(["title", "description", "notes"]),
+      value: v.string(),
+      isFuzzy: defaultBoolean(false),
+      ...standardQueryFields,
+    }),
+    v.check(
+      (query) => isFuzzyMatchModeSupported(query),
+      "isFuzzy does not apply to includes queries",
+    ),
+  ),
   v.strictObject({
-    target: v.picklist([
-      "title",
-      "description",
-      "image",
-      "periods",
-      "bibliography",
-      "notes",
-    ]),
+    target: v.picklist(["image", "periods", "bibliography"]),
     value: v.string(),
     ...standardQueryFields,
   }),
@@ -223,7 +478,7 @@ const setQueryLeafSchema = v.union([
  * Schema for validating Set queries
  * @internal
  */
-const setQuerySchema: v.GenericSchema<unknown, Query> = v.lazy(() =>
+export const setQuerySchema: v.GenericSchema<unknown, Query> = v.lazy(() =>
   v.union([
     setQueryLeafSchema,
     v.strictObject({
@@ -251,53 +506,155 @@ const setQueriesSchema = v.optional(v.nullable(setQuerySchema), null);
  * Schema for validating Set items sort
  * @internal
  */
-const setItemsSortSchema = v.optional(
-  v.variant("target", [
+const setItemsSortKeySchema = v.variant("target", [
+  v.strictObject({
+    target: v.picklist(["title", "period", "bibliography"]),
+    direction: sortDirectionSchema,
+    language: defaultString("eng"),
+  }),
+  v.strictObject({
+    target: v.picklist([
+      "publicationDateTime",
+      "date",
+      "category",
+      "latitude",
+      "longitude",
+    ]),
+    direction: sortDirectionSchema,
+  }),
+  v.strictObject({
+    target: v.literal("propertyValue"),
+    propertyVariableUuid: uuidSchema,
+    dataType: v.picklist([
+      "string",
+      "integer",
+      "decimal",
+      "boolean",
+      "date",
+      "dateTime",
+      "time",
+      "IDREF",
+    ] as const satisfies ReadonlyArray<QueryablePropertyValueDataType>),
+    direction: sortDirectionSchema,
+    language: defaultString("eng"),
+  }),
+  v.strictObject({ target: v.literal("relevance") }),
+]) satisfies v.GenericSchema<unknown, SetItemsSortKey>;
+
+/**
+ * Schema for validating a Set items sort, a single key or several applied in
+ * turn
+ * @internal
+ */
+export const setItemsSortSchema = v.optional(
+  v.union([
     v.strictObject({ target: v.literal("none") }),
-    v.strictObject({
-      target: v.literal("title"),
-      direction: sortDirectionSchema,
-      language: defaultString("eng"),
-    }),
-    v.strictObject({
-      target: v.literal("propertyValue"),
-      propertyVariableUuid: uuidSchema,
-      dataType: v.picklist([
-        "string",
-        "integer",
-        "decimal",
-        "boolean",
-        "date",
-        "dateTime",
-        "time",
-        "IDREF",
-      ] as const satisfies ReadonlyArray<QueryablePropertyValueDataType>),
-      direction: sortDirectionSchema,
-      language: defaultString("eng"),
-    }),
+    setItemsSortKeySchema,
+    v.pipe(
+      v.array(setItemsSortKeySchema),
+      v.minLength(1, "At least one sort key is required"),
+    ),
   ]),
   { target: "none" },
 ) satisfies v.GenericSchema<unknown, SetItemsSort>;
 
 /**
- * Schema for validating the parameters for the Set property values fetching function
+ * Schema for validating the query, sort, and page decoded from URL search
+ * params
  * @internal
  */
-export const setPropertyValuesParametersSchema = v.object({
-  setScopeUuids: v.pipe(
-    v.array(uuidSchema),
-    v.minLength(1, "At least one set scope UUID is required"),
+export const setSearchParamsSchema = v.object({
+  query: setQueriesSchema,
+  sort: setItemsSortSchema,
+  page: v.optional(
+    v.pipe(
+      v.number(),
+      v.integer("Page must be an integer"),
+      v.minValue(1, "Page must be positive"),
+    ),
+    1,
   ),
-  belongsToCollectionScopeUuids: v.optional(v.array(uuidSchema), []),
-  queries: setQueriesSchema,
+});
+
+/**
+ * Schema for validating a histogram requested from the Set property values
+ * fetching function
+ * @internal
+ */
+const setPropertyValueHistogramOptionsSchema = v.pipe(
+  v.strictObject({
+    propertyVariable: uuidSchema,
+    dataType: v.picklist(["integer", "decimal", "date", "dateTime"]),
+    binWidth: v.optional(
+      v.pipe(
+        v.number(),
+        v.gtValue(0, "Bin width must be greater than 0"),
+        v.finite("Bin width must be finite"),
+      ),
+    ),
+    binCount: v.optional(
+      v.pipe(
+        v.number(),
+        v.integer("Bin count must be an integer"),
+        v.minValue(1, "Bin count must be at least 1"),
+        v.maxValue(
+          MAX_HISTOGRAM_BUCKET_COUNT,
+          `Bin count must be at most ${MAX_HISTOGRAM_BUCKET_COUNT}`,
+        ),
+      ),
+      10,
+    ),
+  }),
+  v.check(
+    (histogram) =>
+      histogram.binWidth == null ||
+      histogram.dataType !== "integer" ||
+      Number.isSafeInteger(histogram.binWidth),
+    "Integer bin widths must be integers",
+  ),
+) satisfies v.GenericSchema<unknown, SetPropertyValueHistogramOptions>;
+
+const setFacetsParametersEntries = {
   attributes: v.optional(
     v.object({
       bibliographies: defaultBoolean(false),
       periods: defaultBoolean(false),
+      categories: defaultBoolean(false),
+      creators: defaultBoolean(false),
+      fileFormats: defaultBoolean(false),
+      hasCoordinates: defaultBoolean(false),
+      hasImage: defaultBoolean(false),
+      hasOcr: defaultBoolean(false),
     }),
-    { bibliographies: false, periods: false },
+    {
+      bibliographies: false,
+      periods: false,
+      categories: false,
+      creators: false,
+      fileFormats: false,
+      hasCoordinates: false,
+      hasImage: false,
+      hasOcr: false,
+    },
   ),
   isLimitedToLeafPropertyValues: defaultBoolean(false),
+  shouldIncludePropertyValueTrees: defaultBoolean(false),
+  isDisjunctive: defaultBoolean(false),
+  histograms: v.optional(v.array(setPropertyValueHistogramOptionsSchema), []),
+};
+
+/**
+ * Schema for validating the parameters for the Set property values fetching function
+ * @internal
+ */
+export const setPropertyValuesParametersSchema = v.object({
+  setScopeUuids: v.pipe(
+    v.array(uuidSchema),
+    v.minLength(1, "At least one set scope UUID is required"),
+  ),
+  belongsToCollectionScopeUuids: v.optional(v.array(uuidSchema), []),
+  queries: setQueriesSchema,
+  ...setFacetsParametersEntries,
 });
 
 /**
@@ -314,11 +671,7 @@ export const itemOcrDataParametersSchema = v.object({
   isCaseSensitive: defaultBoolean(false),
 });
 
-/**
- * Schema for validating Set items parameters
- * @internal
- */
-export const setItemsParametersSchema = v.object({
+const setItemsParametersEntries = {
   setScopeUuids: v.pipe(
     v.array(uuidSchema),
     v.minLength(1, "At least one set scope UUID is required"),
@@ -327,8 +680,119 @@ export const setItemsParametersSchema = v.object({
   queries: setQueriesSchema,
   sort: setItemsSortSchema,
   page: v.optional(positiveNumber("Page must be positive"), 1),
+  cursor: v.optional(
+    v.pipe(v.string(), v.nonEmpty("Cursor must not be empty")),
+  ),
   pageSize: v.optional(
     positiveNumber("Page size must be positive"),
     DEFAULT_PAGE_SIZE,
   ),
+  shouldIncludeSnippets: defaultBoolean(false),
+};
+
+/**
+ * Schema for validating Set items parameters
+ * @internal
+ */
+export const setItemsParametersSchema = v.pipe(
+  v.object(setItemsParametersEntries),
+  v.forward(
+    v.check(
+      (parameters) =>
+        parameters.cursor == null ||
+        Array.isArray(parameters.sort) ||
+        parameters.sort.target !== "none",
+      "Cursor pagination requires a sort",
+    ),
+    ["cursor"],
+  ),
+);
+
+/**
+ * Schema for validating the parameters for the combined Set items and facets
+ * fetching function
+ * @internal
+ */
+export const setSearchParametersSchema = v.intersect([
+  setItemsParametersSchema,
+  v.object({
+    propertyFacets: v.optional(
+      v.array(
+        v.strictObject({
+          propertyVariable: uuidSchema,
+          propertyRelation: v.optional(propertyRelationSchema),
+        }),
+      ),
+      [],
+    ),
+    ...setFacetsParametersEntries,
+  }),
+]);
+
+/**
+ * Schema for validating the decoded payload of a Set items cursor
+ * @internal
+ */
+export const setItemsCursorSchema = v.object({
+  version: v.literal(1),
+  sort: v.string(),
+  sortKeys: v.array(v.string()),
+  uuid: uuidSchema,
+});
+
+/**
+ * Schema for validating the Set item iteration options
+ * @internal
+ */
+export const setItemsIterationOptionsSchema = v.object({
+  concurrency: v.optional(
+    v.pipe(
+      v.number(),
+      v.integer("Concurrency must be an integer"),
+      v.minValue(1, "Concurrency must be positive"),
+    ),
+    1,
+  ),
+});
+
+/**
+ * Schema for validating a request retry policy, filling in its defaults
+ * @internal
+ */
+export const fetchRetryOptionsSchema = v.object({
+  retries: v.optional(
+    v.pipe(
+      v.number(),
+      v.integer("Retries must be an integer"),
+      v.minValue(0, "Retries must not be negative"),
+    ),
+    2,
+  ),
+  minDelayMs: v.optional(
+    v.pipe(v.number(), v.minValue(0, "Minimum delay must not be negative")),
+    250,
+  ),
+  maxDelayMs: v.optional(
+    v.pipe(v.number(), v.minValue(0, "Maximum delay must not be negative")),
+    5000,
+  ),
+  factor: v.optional(
+    v.pipe(v.number(), v.minValue(1, "Backoff factor must be at least 1")),
+    2,
+  ),
+  retryableStatusCodes: v.optional(
+    v.array(v.pipe(v.number(), v.integer("Status codes must be integers"))),
+    () => [...DEFAULT_RETRYABLE_STATUS_CODES],
+  ),
+});
+
+/**
+ * Schema for validating the OCHRE client configuration
+ * @internal
+ */
+export const ochreClientOptionsSchema = v.object({
+  baseUrl: v.optional(v.pipe(v.string(), v.url("Base URL must be a URL"))),
+  languages: v.optional(v.array(iso639_3Schema)),
+  timeoutMs: v.optional(positiveNumber("Timeout must be positive")),
+  retry: v.optional(fetchRetryOptionsSchema),
 });
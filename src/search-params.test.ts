@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import type { Query, SetItemsSort } from "#/types/index.js";
+import { OchreParameterError } from "#/errors.js";
+import {
+  decodeQueryFromSearchParams,
+  encodeQueryToSearchParams,
+} from "#/search-params.js";
+import { encodeBase64Url } from "#/utilities.js";
+
+const PERIOD_UUID = "8383140a-e676-417f-b5d8-863d9df6d905";
+
+const QUERY: Query = {
+  and: [
+    {
+      target: "title",
+      value: "tablet",
+      matchMode: "includes",
+      isCaseSensitive: false,
+      isFuzzy: false,
+      language: "eng",
+      isNegated: false,
+    },
+    {
+      or: [
+        { target: "chronology", from: -1200, to: -1000 },
+        {
+          target: "chronology",
+          periodUuid: PERIOD_UUID,
+          isIncludingNarrowerPeriods: true,
+          isNegated: true,
+        },
+      ],
+    },
+  ],
+};
+
+const SORT: SetItemsSort = [
+  { target: "title", direction: "desc", language: "eng" },
+  { target: "date", direction: "asc" },
+];
+
+describe("encodeQueryToSearchParams", () => {
+  it("round-trips a query, sort, and page", () => {
+    const params = encodeQueryToSearchParams(QUERY, SORT, 3);
+
+    expect(params.get("v")).toBe("1");
+    expect(params.get("page")).toBe("3");
+    expect(decodeQueryFromSearchParams(params)).toEqual({
+      query: {
+        and: [
+          QUERY.and[0],
+          {
+            or: [
+              {
+                target: "chronology",
+                from: -1200,
+                to: -1000,
+                isNegated: false,
+              },
+              {
+                target: "chronology",
+                periodUuid: PERIOD_UUID,
+                isIncludingNarrowerPeriods: true,
+                isNegated: true,
+              },
+            ],
+          },
+        ],
+      },
+      sort: SORT,
+      page: 3,
+      error: null,
+    });
+    expect(decodeQueryFromSearchParams(`?${params.toString()}`).query).toEqual(
+      decodeQueryFromSearchParams(params).query,
+    );
+  });
+
+  it("round-trips a query too long to encode in one call", () => {
+    const query: Query = {
+      target: "title",
+      value: "tablet ".repeat(200_000).trim(),
+      matchMode: "includes",
+      isCaseSensitive: false,
+      isFuzzy: false,
+      language: "eng",
+      isNegated: false,
+    };
+
+    const params = encodeQueryToSearchParams(query);
+
+    expect(decodeQueryFromSearchParams(params).query).toEqual(query);
+  });
+
+  it("leaves out fields and params at their defaults", () => {
+    const params = encodeQueryToSearchParams(
+      {
+        target: "title",
+        value: "tablet",
+        matchMode: "includes",
+        isCaseSensitive: false,
+        language: "eng",
+      },
+      { target: "none" },
+      1,
+    );
+
+    expect(params.keys().toArray()).toEqual(["q", "v"]);
+    expect(params.get("q")).toBe(
+      encodeBase64Url(
+        JSON.stringify({
+          target: "title",
+          value: "tablet",
+          matchMode: "includes",
+          isCaseSensitive: false,
+        }),
+      ),
+    );
+    expect(encodeQueryToSearchParams(null).toString()).toBe("");
+  });
+
+  it("rejects an invalid page", () => {
+    expect(() => encodeQueryToSearchParams(null, undefined, 0)).toThrow(
+      OchreParameterError,
+    );
+  });
+});
+
+describe("decodeQueryFromSearchParams", () => {
+  it("falls back to the defaults when the params are missing", () => {
+    expect(decodeQueryFromSearchParams("?tab=map")).toEqual({
+      query: null,
+      sort: { target: "none" },
+      page: 1,
+      error: null,
+    });
+  });
+
+  it("returns typed errors for invalid params", () => {
+    const unsupportedVersion = decodeQueryFromSearchParams("v=2&page=2");
+    const malformedQuery = decodeQueryFromSearchParams("v=1&q=not-json");
+    const invalidQuery = decodeQueryFromSearchParams(
+      new URLSearchParams({
+        v: "1",
+        q: encodeBase64Url(JSON.stringify({ target: "title" })),
+      }),
+    );
+    const invalidPage = decodeQueryFromSearchParams("v=1&page=two");
+
+    expect(unsupportedVersion).toMatchObject({
+      query: null,
+      sort: null,
+      page: null,
+    });
+    expect(unsupportedVersion.error).toBeInstanceOf(OchreParameterError);
+    expect(unsupportedVersion.error?.message).toBe(
+      'Unsupported search params version "2"',
+    );
+    expect(malformedQuery.error?.message).toBe(
+      "The encoded query is malformed",
+    );
+    expect(invalidQuery.error?.issues.length).toBeGreaterThan(0);
+    expect(invalidPage.error?.paths).toEqual(["page"]);
+  });
+});
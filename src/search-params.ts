@@ -0,0 +1,175 @@
+import * as v from "valibot";
+import type { Query, SetItemsSort } from "#/types/index.js";
+import { OchreParameterError } from "#/errors.js";
+import { setSearchParamsSchema } from "#/schemas.js";
+import { decodeBase64Url, encodeBase64Url } from "#/utilities.js";
+
+/**
+ * A query, sort, and page restored from URL search params
+ */
+export type DecodedSearchParams = {
+  query: Query | null;
+  sort: SetItemsSort;
+  page: number;
+};
+
+const SEARCH_PARAMS_VERSION = "1";
+
+const SEARCH_PARAMS_KEYS = {
+  version: "v",
+  query: "q",
+  sort: "sort",
+  page: "page",
+} as const;
+
+/**
+ * Field values the schemas fill in when a field is missing, left out of the
+ * encoded JSON to keep URLs short
+ */
+const DEFAULT_FIELD_VALUES: Record<string, ReadonlyArray<unknown>> = {
+  language: ["eng"],
+  direction: ["asc", "links"],
+  isNegated: [false],
+  isFuzzy: [false],
+  isOrdered: [false],
+  isFromExclusive: [false],
+  isToExclusive: [false],
+  isIncludingNarrowerPeriods: [false],
+};
+
+function omitDefaultFields(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => omitDefaultFields(item));
+  }
+
+  if (value == null || typeof value !== "object") {
+    return value;
+  }
+
+  const entries = Object.entries(value);
+
+  return Object.fromEntries(
+    entries
+      .filter(
+        ([key, fieldValue]) =>
+          !Object.hasOwn(DEFAULT_FIELD_VALUES, key) ||
+          !DEFAULT_FIELD_VALUES[key]!.includes(fieldValue),
+      )
+      .map(([key, fieldValue]) => [key, omitDefaultFields(fieldValue)]),
+  );
+}
+
+function decodeSearchParamsJson(
+  value: string | null,
+  name: "query" | "sort",
+): unknown {
+  if (value == null) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(decodeBase64Url(value)) as unknown;
+  } catch (error) {
+    throw new OchreParameterError(`The encoded ${name} is malformed`, {
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Encode a query, sort, and page as compact, versioned URL search params, so a
+ * collection page can keep its filters in the URL. The query and sort are
+ * written as base64url JSON without the fields left at their defaults, and
+ * params left at their defaults are omitted altogether.
+ * @param query - The query to encode, or `null` for no query
+ * @param sort - The sort to encode
+ * @param page - The page number to encode
+ * @returns The search params, empty when every argument is at its default
+ * @throws {OchreParameterError} When the query, sort, or page is invalid
+ */
+export function encodeQueryToSearchParams(
+  query: Query | null,
+  sort?: SetItemsSort,
+  page = 1,
+): URLSearchParams {
+  const { success, issues, output } = v.safeParse(setSearchParamsSchema, {
+    query,
+    sort,
+    page,
+  });
+  if (!success) {
+    throw new OchreParameterError("Invalid search params", { issues });
+  }
+
+  const params = new URLSearchParams();
+  if (output.query != null) {
+    params.set(
+      SEARCH_PARAMS_KEYS.query,
+      encodeBase64Url(JSON.stringify(omitDefaultFields(output.query))),
+    );
+  }
+  if (!("target" in output.sort && output.sort.target === "none")) {
+    params.set(
+      SEARCH_PARAMS_KEYS.sort,
+      encodeBase64Url(JSON.stringify(omitDefaultFields(output.sort))),
+    );
+  }
+  if (output.page !== 1) {
+    params.set(SEARCH_PARAMS_KEYS.page, String(output.page));
+  }
+
+  if (params.size > 0) {
+    params.set(SEARCH_PARAMS_KEYS.version, SEARCH_PARAMS_VERSION);
+  }
+
+  return params;
+}
+
+/**
+ * Decode the query, sort, and page written by
+ * {@link encodeQueryToSearchParams}. Params the encoder did not write are
+ * ignored, and missing params fall back to their defaults.
+ * @param params - The URL search params, or a search string such as `location.search`
+ * @returns The validated query, sort, and page, or the error explaining why the params could not be decoded
+ */
+export function decodeQueryFromSearchParams(
+  params: URLSearchParams | string,
+):
+  | (DecodedSearchParams & { error: null })
+  | { query: null; sort: null; page: null; error: OchreParameterError } {
+  const searchParams =
+    typeof params === "string" ? new URLSearchParams(params) : params;
+
+  try {
+    const version = searchParams.get(SEARCH_PARAMS_KEYS.version);
+    if (version != null && version !== SEARCH_PARAMS_VERSION) {
+      throw new OchreParameterError(
+        `Unsupported search params version "${version}"`,
+      );
+    }
+
+    const page = searchParams.get(SEARCH_PARAMS_KEYS.page);
+    const { success, issues, output } = v.safeParse(setSearchParamsSchema, {
+      query: decodeSearchParamsJson(
+        searchParams.get(SEARCH_PARAMS_KEYS.query),
+        "query",
+      ),
+      sort: decodeSearchParamsJson(
+        searchParams.get(SEARCH_PARAMS_KEYS.sort),
+        "sort",
+      ),
+      page: page == null ? undefined : Number(page),
+    });
+    if (!success) {
+      throw new OchreParameterError("Invalid search params", { issues });
+    }
+
+    return { ...output, error: null };
+  } catch (error) {
+    if (!(error instanceof OchreParameterError)) {
+      throw error;
+    }
+
+    return { query: null, sort: null, page: null, error };
+  }
+}
@@ -1219,9 +1219,87 @@ export type PropertyValueQueryItem = {
 };
 
 /**
- * Represents a grouped Set attribute value query item
+ * Represents a property value facet in its value hierarchy, with the values
+ * one level below it as children. `count` is the number of items the value is
+ * assigned to directly, and `rolledUpCount` the number of items it or any
+ * value below it is assigned to.
  */
-export type SetAttributeValueQueryItem = { count: number; content: string };
+export type PropertyValueTreeNode = PropertyValueQueryItem & {
+  level: number | null;
+  rolledUpCount: number;
+  children: Array<PropertyValueTreeNode>;
+};
+
+/**
+ * Represents a property variable whose values are counted as a facet, limited
+ * to the values reached through `propertyRelation` when given
+ */
+export type SetPropertyFacet = {
+  propertyVariable: string;
+  propertyRelation?: PropertyRelation;
+};
+
+/**
+ * Represents a histogram requested for a numeric or date property variable.
+ * Values are put in buckets `binWidth` wide, or in `binCount` buckets spanning
+ * the values when no width is given. Date widths are in milliseconds. A width
+ * giving more than 1000 buckets is widened to a multiple of it that fits.
+ */
+export type SetPropertyValueHistogramOptions = {
+  propertyVariable: string;
+  dataType: "integer" | "decimal" | "date" | "dateTime";
+  binWidth?: number;
+  binCount?: number;
+};
+
+/**
+ * Represents a histogram bucket, holding the values from `min` up to but
+ * excluding `max`, except for the last bucket, which also holds `max`
+ */
+export type SetPropertyValueHistogramBucket<T extends number | Date> = {
+  min: T;
+  max: T;
+  count: number;
+};
+
+/**
+ * Represents the distribution of a numeric or date property variable over the
+ * matching items, whose `binWidth` is null when no item has a value
+ */
+export type SetPropertyValueHistogram =
+  | {
+      dataType: "integer" | "decimal";
+      binWidth: number | null;
+      buckets: Array<SetPropertyValueHistogramBucket<number>>;
+    }
+  | {
+      dataType: "date" | "dateTime";
+      binWidth: number | null;
+      buckets: Array<SetPropertyValueHistogramBucket<Date>>;
+    };
+
+/**
+ * Represents a grouped Set attribute value query item, whose content is a
+ * boolean for the presence facets
+ */
+export type SetAttributeValueQueryItem<T extends string | boolean = string> = {
+  count: number;
+  content: T;
+};
+
+/**
+ * Represents the Set item attribute facets, each null when not requested
+ */
+export type SetAttributeValues = {
+  bibliographies: Array<SetAttributeValueQueryItem> | null;
+  periods: Array<SetAttributeValueQueryItem> | null;
+  categories: Array<SetAttributeValueQueryItem> | null;
+  creators: Array<SetAttributeValueQueryItem> | null;
+  fileFormats: Array<SetAttributeValueQueryItem> | null;
+  hasCoordinates: Array<SetAttributeValueQueryItem<boolean>> | null;
+  hasImage: Array<SetAttributeValueQueryItem<boolean>> | null;
+  hasOcr: Array<SetAttributeValueQueryItem<boolean>> | null;
+};
 
 /**
  * Represents sorting direction for Set items
@@ -1229,17 +1307,96 @@ export type SetAttributeValueQueryItem = { count: number; content: string };
 export type SetItemsSortDirection = "asc" | "desc";
 
 /**
- * Represents sorting options for Set items
+ * Represents a single key Set items can be sorted by
+ *
+ * `period` and `bibliography` sort by the label of the item's first period or
+ * bibliography, and `latitude` and `longitude` by its first point coordinates.
+ * `relevance` sorts the items that best match the text queries first.
  */
-export type SetItemsSort =
-  | { target: "none" }
-  | { target: "title"; direction?: SetItemsSortDirection; language?: string }
+export type SetItemsSortKey =
+  | {
+      target: "title" | "period" | "bibliography";
+      direction?: SetItemsSortDirection;
+      language?: string;
+    }
+  | {
+      target:
+        | "publicationDateTime"
+        | "date"
+        | "category"
+        | "latitude"
+        | "longitude";
+      direction?: SetItemsSortDirection;
+    }
   | {
       target: "propertyValue";
       propertyVariableUuid: string;
       dataType: QueryablePropertyValueDataType;
       direction?: SetItemsSortDirection;
       language?: string;
+    }
+  | { target: "relevance"; direction?: never };
+
+/**
+ * Represents sorting options for Set items. An array sorts by each key in turn,
+ * falling back to the next key when the previous ones are equal.
+ */
+export type SetItemsSort =
+  | SetItemsSortKey
+  | Array<SetItemsSortKey>
+  | { target: "none" };
+
+/**
+ * Represents the field of a Set item a search snippet was taken from
+ */
+export type SetItemSnippetField =
+  | "title"
+  | "description"
+  | "notes"
+  | "property"
+  | "ocr";
+
+/**
+ * Represents an excerpt of a Set item field that matched a text or OCR query.
+ * `highlights` hold the offsets of the matched terms in `text`, each spanning
+ * from `start` up to, but not including, `end`.
+ */
+export type SetItemSnippet = {
+  field: SetItemSnippetField;
+  propertyVariableUuid: string | null;
+  text: string;
+  highlights: Array<{ start: number; end: number }>;
+  isTruncatedAtStart: boolean;
+  isTruncatedAtEnd: boolean;
+};
+
+/**
+ * Text targets that support the `startsWith`, `anyOf`, `allOf`, and `near`
+ * match modes
+ */
+export type TextMatchQueryTarget = "string" | "title" | "description" | "notes";
+
+/**
+ * Represents the region a `coordinates` query leaf matches items inside of.
+ * Latitudes and longitudes are WGS84 decimal degrees.
+ */
+export type CoordinatesQueryRegion =
+  | {
+      type: "boundingBox";
+      south: number;
+      west: number;
+      north: number;
+      east: number;
+    }
+  | {
+      type: "pointRadius";
+      latitude: number;
+      longitude: number;
+      radiusKm: number;
+    }
+  | {
+      type: "polygon";
+      vertices: Array<{ latitude: number; longitude: number }>;
     };
 
 /**
@@ -1252,6 +1409,33 @@ export type SetItemsSort =
  * layer holds a single OCR word, so `includes` matches every search term as its
  * own word and `exact` matches the terms as an adjacent run of whole words. OCR
  * text carries no language, so `ocr` leaves take no `language`.
+ *
+ * Beyond `includes` and `exact`, the `string`, `title`, `description`, and
+ * `notes` targets match with `startsWith`, where the last word of `value` may
+ * be the start of a longer word, `anyOf` and `allOf` over a list of `terms`,
+ * and `near`, where every term occurs within `distance` words of the others,
+ * in order when `isOrdered` is set. Terms in these modes match as whole words
+ * or phrases. `isFuzzy` makes matching ignore diacritics, so `sarru` matches
+ * `šarru`, and outside `exact` also match other forms of a word, as
+ * `includes` always does, so `includes` leaves do not take it.
+ *
+ * The `coordinates` target matches items whose point coordinates, or both
+ * corners of whose plane coordinates, lie inside the region.
+ *
+ * The `chronology` target matches items by time rather than by period label.
+ * With `from` and `to` years, which are inclusive and negative for BCE, it
+ * matches items that have an Event, or link to a period that has an Event,
+ * whose dates overlap that range. With `periodUuid` it matches items linked to
+ * that period and, when `isIncludingNarrowerPeriods` is set, to any period
+ * nested under it.
+ *
+ * The `link` target matches items that link to the item with `uuid`, or with
+ * `direction: "reverseLinks"` that are linked from it, optionally only when
+ * that item is of `category`. `direction` defaults to `links`.
+ *
+ * `integer`, `decimal`, and `time` property leaves accept numeric `from` and
+ * `to` bounds in place of `value`. Bounds are inclusive unless
+ * `isFromExclusive` or `isToExclusive` is set.
  */
 export type QueryLeaf =
   | {
@@ -1306,6 +1490,36 @@ export type QueryLeaf =
       language: string;
       isNegated?: boolean;
     }
+  | {
+      target: "property";
+      propertyVariable: string;
+      propertyRelation?: PropertyRelation;
+      dataType: "integer" | "decimal" | "time";
+      value?: never;
+      from: number;
+      to?: number;
+      isFromExclusive?: boolean;
+      isToExclusive?: boolean;
+      matchMode: "includes" | "exact";
+      isCaseSensitive: boolean;
+      language: string;
+      isNegated?: boolean;
+    }
+  | {
+      target: "property";
+      propertyVariable: string;
+      propertyRelation?: PropertyRelation;
+      dataType: "integer" | "decimal" | "time";
+      value?: never;
+      from?: number;
+      to: number;
+      isFromExclusive?: boolean;
+      isToExclusive?: boolean;
+      matchMode: "includes" | "exact";
+      isCaseSensitive: boolean;
+      language: string;
+      isNegated?: boolean;
+    }
   | {
       target: "property";
       propertyVariable?: string;
@@ -1322,9 +1536,73 @@ export type QueryLeaf =
       value: string;
       matchMode: "includes" | "exact";
       isCaseSensitive: boolean;
+      isFuzzy?: boolean;
+      language: string;
+      isNegated?: boolean;
+    }
+  | {
+      target: TextMatchQueryTarget;
+      value: string;
+      matchMode: "startsWith";
+      isCaseSensitive: boolean;
+      isFuzzy?: boolean;
+      language: string;
+      isNegated?: boolean;
+    }
+  | {
+      target: TextMatchQueryTarget;
+      terms: Array<string>;
+      matchMode: "anyOf" | "allOf";
+      isCaseSensitive: boolean;
+      isFuzzy?: boolean;
       language: string;
       isNegated?: boolean;
     }
+  | {
+      target: TextMatchQueryTarget;
+      terms: Array<string>;
+      matchMode: "near";
+      distance: number;
+      isOrdered?: boolean;
+      isCaseSensitive: boolean;
+      isFuzzy?: boolean;
+      language: string;
+      isNegated?: boolean;
+    }
+  | {
+      target: "coordinates";
+      region: CoordinatesQueryRegion;
+      isNegated?: boolean;
+    }
+  | {
+      target: "chronology";
+      periodUuid?: never;
+      from: number;
+      to?: number;
+      isNegated?: boolean;
+    }
+  | {
+      target: "chronology";
+      periodUuid?: never;
+      from?: number;
+      to: number;
+      isNegated?: boolean;
+    }
+  | {
+      target: "chronology";
+      periodUuid: string;
+      isIncludingNarrowerPeriods?: boolean;
+      from?: never;
+      to?: never;
+      isNegated?: boolean;
+    }
+  | {
+      target: "link";
+      uuid: string;
+      category?: ItemLinkCategory;
+      direction?: "links" | "reverseLinks";
+      isNegated?: boolean;
+    }
   | {
       target: "ocr";
       value: string;
@@ -1333,13 +1611,16 @@ export type QueryLeaf =
       isNegated?: boolean;
     }
   | {
-      target:
-        | "title"
-        | "description"
-        | "image"
-        | "periods"
-        | "bibliography"
-        | "notes";
+      target: "title" | "description" | "notes";
+      value: string;
+      matchMode: "includes" | "exact";
+      isCaseSensitive: boolean;
+      isFuzzy?: boolean;
+      language: string;
+      isNegated?: boolean;
+    }
+  | {
+      target: "image" | "periods" | "bibliography";
       value: string;
       matchMode: "includes" | "exact";
       isCaseSensitive: boolean;
@@ -1356,3 +1637,29 @@ export type QueryGroup = { and: Array<Query> } | { or: Array<Query> };
  * Represents a query for Set items
  */
 export type Query = QueryLeaf | QueryGroup;
+
+/**
+ * A search over the Set items in a compiled query plan, narrowed by the CTS
+ * queries ANDed in `queryExpressions` and by the XQuery item path predicates
+ * in `itemPredicates`
+ */
+export type QuerySearchPlan = {
+  kind: "search";
+  itemPredicates: Array<string>;
+  queryExpressions: Array<string>;
+};
+
+/**
+ * Represents the plan a query tree compiles to: a single search, or the node
+ * union or intersection of the plans that a single search cannot express. A
+ * union without children matches no item.
+ */
+export type QueryPlan =
+  | QuerySearchPlan
+  | { kind: "union" | "intersect"; children: Array<QueryPlan> };
+
+/**
+ * An XQuery variable bound before the items are searched, such as the UUIDs
+ * of the Resources whose OCR text matches an `ocr` leaf
+ */
+export type QueryBinding = { name: string; expression: string };
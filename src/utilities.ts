@@ -1,10 +1,13 @@
 import * as v from "valibot";
+import type { OchreFetchError } from "#/errors.js";
+import { OchreSchemaError, toOchreError } from "#/errors.js";
 import type {
   LanguageCodes,
   Property,
   SetItemProperty,
 } from "./types/index.js";
 
+const BASE64_CHUNK_SIZE = 0x80_00;
 const PSEUDO_UUID_REGEX = /^[\da-f]{8}(?:-[\da-f]{4}){3}-[\da-f]{12}$/i;
 type SchemaValidationIssue = v.BaseIssue<unknown>;
 
@@ -255,19 +258,37 @@ function getDetailedError(
   return lines.join("\n");
 }
 
+/**
+ * Build the error fields of a failed fetcher result
+ * @param error - The caught value
+ * @param fallbackMessage - The message to use when the value is not an Error
+ * @param options - The fetcher options
+ * @param options.shouldThrow - Throw the normalized OCHRE error instead of returning it
+ * @returns The error message, the detailed error report, and the typed error
+ */
 export function getErrorOutput(
   error: unknown,
   fallbackMessage: string,
-): { error: string; detailedError: string } {
+  options?: { shouldThrow?: boolean },
+): { error: string; detailedError: string; ochreError: OchreFetchError } {
+  const ochreError = toOchreError(error, fallbackMessage);
+  if (options?.shouldThrow === true) {
+    throw ochreError;
+  }
+
   const message = getErrorMessage(error, fallbackMessage);
-  return { error: message, detailedError: getDetailedError(error, message) };
+  return {
+    error: message,
+    detailedError: getDetailedError(error, message),
+    ochreError,
+  };
 }
 
 export function createSchemaValidationError(
   message: string,
   issues: ReadonlyArray<SchemaValidationIssue>,
-): Error {
-  return new Error(message, { cause: issues });
+): OchreSchemaError {
+  return new OchreSchemaError(message, issues);
 }
 
 /**
@@ -280,6 +301,45 @@ export function isPseudoUuid(value: string): boolean {
   return PSEUDO_UUID_REGEX.test(value);
 }
 
+/**
+ * Encode a string as unpadded base64url, so it can sit in a URL as is
+ * @param value - The string to encode
+ * @returns The base64url-encoded UTF-8 bytes of the string
+ * @internal
+ */
+export function encodeBase64Url(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+
+  // Spread the bytes in chunks, as one argument per byte of a long value
+  // overflows the call stack
+  const binaryChunks: Array<string> = [];
+  for (let index = 0; index < bytes.length; index += BASE64_CHUNK_SIZE) {
+    binaryChunks.push(
+      String.fromCodePoint(...bytes.subarray(index, index + BASE64_CHUNK_SIZE)),
+    );
+  }
+
+  return btoa(binaryChunks.join(""))
+    .replaceAll("+", "-")
+    .replaceAll("/", "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Decode an unpadded base64url string written by {@link encodeBase64Url}
+ * @param value - The base64url string to decode
+ * @returns The decoded string
+ * @throws When the value is not valid base64
+ * @internal
+ */
+export function decodeBase64Url(value: string): string {
+  const binary = atob(value.replaceAll("-", "+").replaceAll("_", "/"));
+
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (character) => character.codePointAt(0) ?? 0),
+  );
+}
+
 /**
  * Build a string literal for an XQuery string
  * @param value - The string value to escape
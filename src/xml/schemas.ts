@@ -51,6 +51,8 @@ import type {
   XMLPropertyVariable as XMLPropertyVariableType,
   XMLResource as XMLResourceType,
   XMLSetItemsData as XMLSetItemsDataType,
+  XMLSetItemsScore as XMLSetItemsScoreType,
+  XMLSetItemsSnippet as XMLSetItemsSnippetType,
   XMLSetItems as XMLSetItemsType,
   XMLSet as XMLSetType,
   XMLSimplifiedProperty as XMLSimplifiedPropertyType,
@@ -2324,16 +2326,49 @@ export const XMLGalleryData: v.GenericSchema<unknown, XMLGalleryDataType> =
 const XMLSetItems: v.GenericSchema<unknown, XMLSetItemsType> = v.intersect([
   XMLItemLinks,
   v.object(
-    { totalCount: XMLNumber, page: XMLNumber, pageSize: XMLNumber },
+    {
+      totalCount: XMLNumber,
+      page: XMLNumber,
+      pageSize: XMLNumber,
+      cursorUuid: v.optional(v.string()),
+      cursorSortKeys: v.optional(v.string()),
+    },
     "XMLSetItems: Shape error",
   ),
 ]);
 
+const XMLSetItemsSnippet: v.GenericSchema<unknown, XMLSetItemsSnippetType> =
+  v.object(
+    {
+      uuid: v.string(),
+      field: v.picklist(["title", "description", "notes", "property", "ocr"]),
+      propertyVariableUuid: v.optional(v.string()),
+      text: v.string(),
+      highlights: v.string(),
+      hasTextBefore: v.optional(XMLBoolean),
+      hasTextAfter: v.optional(XMLBoolean),
+    },
+    "XMLSetItemsSnippet: Shape error",
+  );
+
+const XMLSetItemsScore: v.GenericSchema<unknown, XMLSetItemsScoreType> =
+  v.object(
+    { uuid: v.string(), value: XMLNumber },
+    "XMLSetItemsScore: Shape error",
+  );
+
 export const XMLSetItemsData: v.GenericSchema<unknown, XMLSetItemsDataType> =
   v.object(
     {
       result: v.object({
-        ochre: v.object({ items: XMLSetItems }, "XMLSetItemsData: ochre"),
+        ochre: v.object(
+          {
+            items: XMLSetItems,
+            score: v.optional(v.array(XMLSetItemsScore)),
+            snippet: v.optional(v.array(XMLSetItemsSnippet)),
+          },
+          "XMLSetItemsData: ochre",
+        ),
       }),
     },
     "XMLSetItemsData: Shape error",
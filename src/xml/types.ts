@@ -780,9 +780,31 @@ export type XMLSetItems = XMLItemLinks & {
   totalCount: XMLNumber;
   page: XMLNumber;
   pageSize: XMLNumber;
+  cursorUuid?: string;
+  cursorSortKeys?: string;
 };
 
-export type XMLSetItemsData = { result: { ochre: { items: XMLSetItems } } };
+export type XMLSetItemsSnippet = {
+  uuid: string;
+  field: "title" | "description" | "notes" | "property" | "ocr";
+  propertyVariableUuid?: string;
+  text: string;
+  highlights: string;
+  hasTextBefore?: XMLBoolean;
+  hasTextAfter?: XMLBoolean;
+};
+
+export type XMLSetItemsScore = { uuid: string; value: XMLNumber };
+
+export type XMLSetItemsData = {
+  result: {
+    ochre: {
+      items: XMLSetItems;
+      score?: Array<XMLSetItemsScore>;
+      snippet?: Array<XMLSetItemsSnippet>;
+    };
+  };
+};
 
 export type XMLData = {
   result: {